@@ -7,6 +7,11 @@ const nextConfig = {
       ...config.resolve.fallback,
       fs: false,
     };
+    // pdf.js asks for the canvas package only when it runs under Node, which it never does here
+    config.resolve.alias = {
+      ...config.resolve.alias,
+      canvas: false,
+    };
     return config;
   },
 };
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { compressPdf, parseCompressionPreset } from '@/lib/conversion/compress';
+import { contentDisposition, outputFileName } from '@/lib/conversion/download';
+import { readPdfUpload } from '@/lib/conversion/pdf-upload';
+
+// Compress an uploaded PDF and send it straight back. What was done, and any warnings about
+// legibility, travel in the X-Compression-Report header as URI-encoded JSON.
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+
+    const parsed = parseCompressionPreset(formData.get('preset') as string | null);
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const upload = await readPdfUpload(file);
+    if ('error' in upload) {
+      return NextResponse.json(
+        { error: upload.error },
+        { status: 400 }
+      );
+    }
+
+    const { bytes, report } = await compressPdf(upload.pdfDoc, upload.bytes, parsed.preset);
+
+    const fileName = file ? file.name : 'document.pdf';
+    const outputName = outputFileName(formData.get('outputName') as string | null, fileName.replace(/\.pdf$/i, '') + '_compressed', 'pdf');
+    return new NextResponse(bytes, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': contentDisposition('attachment', outputName),
+        'Content-Length': String(bytes.length),
+        'X-Compression-Report': encodeURIComponent(JSON.stringify(report)),
+      },
+    });
+  } catch (error) {
+    console.error('Error compressing PDF:', error);
+    return NextResponse.json(
+      { error: 'Failed to compress PDF' },
+      { status: 500 }
+    );
+  }
+}
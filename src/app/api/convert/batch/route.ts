@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { BATCH_OUTPUTS, BatchOutput, convertBatch } from '@/lib/conversion/batch';
+import { TEMP_DIR, ensureTempDir, parseConversionFlags } from '@/lib/conversion/convert';
+import { outputFileName } from '@/lib/conversion/download';
+import { parseHeaderFooterFields } from '@/lib/conversion/header-footer';
+import { JobFailure, enqueueJob } from '@/lib/conversion/jobs';
+import { parseMetadataFields } from '@/lib/conversion/metadata';
+import { parsePageSetup } from '@/lib/conversion/page-setup';
+import { saveOutputInfo, startSweeper } from '@/lib/conversion/retention';
+
+// Limits for a whole batch; each file is also held to the single upload limit
+const MAX_BATCH_FILES = 20;
+const MAX_BATCH_SIZE = 50 * 1024 * 1024;
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const files = formData.getAll('files').filter((value): value is File => typeof value !== 'string');
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: 'No files provided' },
+        { status: 400 }
+      );
+    }
+
+    if (files.length > MAX_BATCH_FILES) {
+      return NextResponse.json(
+        { error: `A batch can contain at most ${MAX_BATCH_FILES} files` },
+        { status: 400 }
+      );
+    }
+
+    if (files.reduce((total, file) => total + file.size, 0) > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: 'Batch size exceeds the 50MB limit' },
+        { status: 400 }
+      );
+    }
+
+    // A ZIP of individual PDFs unless the caller asks for one merged PDF
+    const output = ((formData.get('output') as string | null) || 'zip') as BatchOutput;
+    if (BATCH_OUTPUTS.indexOf(output) === -1) {
+      return NextResponse.json(
+        { error: 'Output must be "zip" or "merged"' },
+        { status: 400 }
+      );
+    }
+
+    // Page setup, the conversion switches and the document properties apply to every file in the batch
+    const pageSetup = parsePageSetup(formData);
+    if ('error' in pageSetup) {
+      return NextResponse.json(
+        { error: pageSetup.error },
+        { status: 400 }
+      );
+    }
+    const { setup } = pageSetup;
+    const flags = parseConversionFlags(formData);
+    const properties = parseMetadataFields(formData);
+    if ('error' in properties) {
+      return NextResponse.json(
+        { error: properties.error },
+        { status: 400 }
+      );
+    }
+    const { metadata } = properties;
+    const stamp = parseHeaderFooterFields(formData);
+    if ('error' in stamp) {
+      return NextResponse.json(
+        { error: stamp.error },
+        { status: 400 }
+      );
+    }
+    const headerFooter = stamp.template;
+
+    await ensureTempDir();
+    startSweeper();
+    const fileId = uuidv4();
+    const extension = output === 'zip' ? 'zip' : 'pdf';
+    const outputPath = join(TEMP_DIR, `${fileId}.${extension}`);
+    const outputName = outputFileName(formData.get('outputName') as string | null, 'converted-documents', extension);
+
+    // Queue the batch like a single conversion; the job's stages follow each file in turn and the
+    // manifest is read from /api/convert/status once the job finishes
+    const job = enqueueJob(fileId, files.length === 1 ? files[0].name : `${files.length} files`, outputName, async (onStage, setManifest) => {
+      const manifest = await convertBatch(files, output, { setup, ...flags, metadata, headerFooter }, outputPath, onStage);
+      setManifest(manifest);
+      if (!manifest.some(entry => entry.status === 'converted')) {
+        throw new JobFailure('None of the files could be converted');
+      }
+      // Nothing was written when no file converted, so there is nothing to describe
+      await saveOutputInfo(fileId, { sourceNames: files.map(file => file.name), outputName });
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Batch queued',
+      jobId: job.jobId,
+      status: job.status,
+      output,
+      outputName,
+      fileId,
+    }, { status: 202 });
+  } catch (error) {
+    console.error('Error processing batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to process batch' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { readFile } from 'fs/promises';
-import { join } from 'path';
-import { tmpdir } from 'os';
-import { existsSync } from 'fs';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import { contentDisposition, etagMatches, fileETag, parseRange } from '@/lib/conversion/download';
+import { ONE_TIME_DOWNLOAD, locateOutput, removeOutput, startSweeper } from '@/lib/conversion/retention';
+
+// Why a file that did exist can no longer be downloaded
+const REMOVAL_MESSAGES = {
+  expired: 'This file has expired and was deleted. Please convert it again.',
+  downloaded: 'This file could only be downloaded once and has been deleted. Please convert it again.',
+};
 
 export async function GET(request: NextRequest) {
   try {
@@ -16,23 +22,71 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    const tempDir = join(tmpdir(), 'document-converter');
-    const pdfPath = join(tempDir, `${fileId}.pdf`);
+    startSweeper();
+    
+    // Files past their retention time are gone for good, which is not the same as never existing
+    const output = await locateOutput(fileId);
     
-    if (!existsSync(pdfPath)) {
+    if (output && 'removed' in output) {
+      return NextResponse.json(
+        { error: REMOVAL_MESSAGES[output.removed] },
+        { status: 410 }
+      );
+    }
+    
+    if (!output) {
       return NextResponse.json(
         { error: 'File not found' },
         { status: 404 }
       );
     }
     
-    const pdfBuffer = await readFile(pdfPath);
+    // Batch conversions can produce a ZIP instead of a PDF; only a PDF can open in the browser's viewer
+    const { stats } = output;
+    const isZip = output.extension === 'zip';
+    const inline = !isZip && searchParams.get('inline') === 'true';
+    const fileName = output.info ? output.info.outputName : isZip ? 'converted-documents.zip' : 'converted-document.pdf';
+    const etag = fileETag(stats);
+    const headers: Record<string, string> = {
+      'Content-Type': isZip ? 'application/zip' : 'application/pdf',
+      'Content-Disposition': contentDisposition(inline ? 'inline' : 'attachment', fileName),
+      'Accept-Ranges': 'bytes',
+      'ETag': etag,
+      'Last-Modified': stats.mtime.toUTCString(),
+      'Cache-Control': 'private, no-cache',
+    };
+    
+    if (etagMatches(request.headers.get('if-none-match'), etag)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+    
+    // A resumed download only gets a range while the file is unchanged (If-Range)
+    const ifRange = request.headers.get('if-range');
+    const range = ifRange && ifRange !== etag ? null : parseRange(request.headers.get('range'), stats.size);
+    if (range === 'unsatisfiable') {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { ...headers, 'Content-Range': `bytes */${stats.size}` },
+      });
+    }
+    
+    const start = range ? range.start : 0;
+    const end = range ? range.end : stats.size - 1;
+    headers['Content-Length'] = String(end - start + 1);
+    if (range) {
+      headers['Content-Range'] = `bytes ${start}-${end}/${stats.size}`;
+    }
+    
+    // Stream the file. In one-time mode it is deleted only once a complete, unranged response has
+    // been sent: viewers probe the end of a file with a range before fetching the rest.
+    const stream = createReadStream(output.path, { start, end });
+    if (ONE_TIME_DOWNLOAD && !range) {
+      stream.on('end', () => removeOutput(fileId, 'downloaded'));
+    }
     
-    return new NextResponse(pdfBuffer, {
-      headers: {
-        'Content-Type': 'application/pdf',
-        'Content-Disposition': `attachment; filename="converted-document.pdf"`,
-      },
+    return new NextResponse(Readable.toWeb(stream) as unknown as ReadableStream, {
+      status: range ? 206 : 200,
+      headers,
     });
   } catch (error) {
     console.error('Error downloading file:', error);
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JobState, getJob, isFinished, watchJob } from '@/lib/conversion/jobs';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const jobId = searchParams.get('jobId');
+
+    if (!jobId) {
+      return NextResponse.json(
+        { error: 'No job ID provided' },
+        { status: 400 }
+      );
+    }
+
+    const job = getJob(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    // EventSource clients get every update as it happens instead of polling
+    if ((request.headers.get('accept') || '').includes('text/event-stream')) {
+      return streamJob(request, job);
+    }
+
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error('Error reading job status:', error);
+    return NextResponse.json(
+      { error: 'Failed to read job status' },
+      { status: 500 }
+    );
+  }
+}
+
+// Send the current state, then one event per change, closing the stream once the job finishes
+function streamJob(request: NextRequest, initial: JobState): Response {
+  const encoder = new TextEncoder();
+  let unsubscribe: () => void = () => undefined;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (state: JobState) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(state)}\n\n`));
+        if (isFinished(state)) {
+          unsubscribe();
+          controller.close();
+        }
+      };
+
+      send(initial);
+      if (isFinished(initial)) return;
+      unsubscribe = watchJob(initial.jobId, send);
+      request.signal.addEventListener('abort', () => unsubscribe());
+    },
+    cancel() {
+      unsubscribe();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
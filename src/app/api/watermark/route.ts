@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { contentDisposition, outputFileName } from '@/lib/conversion/download';
+import { embedFonts } from '@/lib/conversion/fonts';
+import { selectPages } from '@/lib/conversion/page-ranges';
+import { readPdfUpload } from '@/lib/conversion/pdf-upload';
+import { parseWatermarkFields, watermarkPdf } from '@/lib/conversion/watermark';
+
+// Watermark an uploaded PDF and send it straight back; unlike conversions this is quick enough
+// not to need a job
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+
+    const upload = await readPdfUpload(file);
+    if ('error' in upload) {
+      return NextResponse.json(
+        { error: upload.error },
+        { status: 400 }
+      );
+    }
+    const { pdfDoc } = upload;
+
+    const parsed = await parseWatermarkFields(formData);
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+    const { watermark } = parsed;
+
+    const selection = selectPages(watermark.pages, pdfDoc.getPageCount());
+    if ('error' in selection) {
+      return NextResponse.json(
+        { error: selection.error },
+        { status: 400 }
+      );
+    }
+
+    // On the server the bundled fonts can draw text the standard fonts cannot
+    const font = watermark.text ? (await embedFonts(pdfDoc, watermark.text, watermark.fontFamily)).bold : undefined;
+    await watermarkPdf(pdfDoc, watermark, selection.pages, font);
+    const pdfBytes = await pdfDoc.save();
+
+    const fileName = file ? file.name : 'document.pdf';
+    const outputName = outputFileName(formData.get('outputName') as string | null, fileName.replace(/\.pdf$/i, '') + '_watermarked', 'pdf');
+    return new NextResponse(pdfBytes, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': contentDisposition('attachment', outputName),
+        'Content-Length': String(pdfBytes.length),
+      },
+    });
+  } catch (error) {
+    console.error('Error watermarking PDF:', error);
+    return NextResponse.json(
+      { error: 'Failed to watermark PDF' },
+      { status: 500 }
+    );
+  }
+}
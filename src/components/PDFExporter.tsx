@@ -3,7 +3,11 @@
 import { useState, useRef, useEffect } from 'react';
 import html2pdf from 'html2pdf.js';
 import { PDFDocument } from 'pdf-lib';
+import { HeaderFooterInput, parseHeaderFooter, stampValues, withHeaderFooter } from '@/lib/conversion/header-footer';
+import { MetadataInput, parseMetadata, withMetadata } from '@/lib/conversion/metadata';
 import { DocumentStyle, TemplateType } from './DocumentWorkspace';
+import HeaderFooterFields from './pdf-tools/HeaderFooterFields';
+import MetadataFields from './pdf-tools/MetadataFields';
 
 type PDFExporterProps = {
   content: string;
@@ -22,6 +26,8 @@ export default function PDFExporter({
   const [exportError, setExportError] = useState<string | null>(null);
   const [exportStatus, setExportStatus] = useState<'idle' | 'preparing' | 'success' | 'error'>('idle');
   const [fileName, setFileName] = useState('Document');
+  const [metadataInput, setMetadataInput] = useState<MetadataInput>({});
+  const [headerFooterInput, setHeaderFooterInput] = useState<HeaderFooterInput>({});
   const previewRef = useRef<HTMLDivElement>(null);
 
   // Generate a filename based on template type and date
@@ -79,6 +85,17 @@ export default function PDFExporter({
       return;
     }
 
+    const properties = parseMetadata(metadataInput);
+    if ('error' in properties) {
+      setExportError(properties.error);
+      return;
+    }
+    const stamp = parseHeaderFooter(headerFooterInput);
+    if ('error' in stamp) {
+      setExportError(stamp.error);
+      return;
+    }
+
     setIsExporting(true);
     setExportError(null);
 
@@ -94,7 +111,12 @@ export default function PDFExporter({
       };
       
       if (previewRef.current) {
-        await html2pdf().from(previewRef.current).set(opt).save();
+        const pdfBytes: ArrayBuffer = await html2pdf().from(previewRef.current).set(opt).output('arraybuffer');
+        const { metadata } = properties;
+        const values = stampValues(`${fileName}.pdf`, metadata.title || fileName, metadata.author);
+        const stamped = stamp.template ? await withHeaderFooter(pdfBytes, stamp.template, values) : pdfBytes;
+        const withProperties = await withMetadata(stamped, metadata, fileName);
+        downloadPDF(new Blob([withProperties], { type: 'application/pdf' }), `${fileName}.pdf`);
       } else {
         throw new Error('Preview element not found');
       }
@@ -181,6 +203,25 @@ export default function PDFExporter({
           <span>.pdf</span>
         </div>
         
+        <MetadataFields
+          idPrefix="export"
+          value={metadataInput}
+          defaultTitle={fileName}
+          onChange={setMetadataInput}
+        />
+        
+        <HeaderFooterFields
+          idPrefix="export"
+          value={headerFooterInput}
+          onChange={setHeaderFooterInput}
+        />
+        
+        {exportError && (
+          <div className="status-bar" style={{ padding: '4px', marginBottom: '8px', color: 'red' }}>
+            {exportError}
+          </div>
+        )}
+        
         <div className="field-row" style={{ marginBottom: '8px' }}>
           <button
             onClick={handleExportPDF}
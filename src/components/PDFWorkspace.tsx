@@ -4,8 +4,16 @@ import { useState } from 'react';
 import ConvertToPDF from './pdf-tools/ConvertToPDF';
 import CombinePDF from './pdf-tools/CombinePDF';
 import PhotoToPDF from './pdf-tools/PhotoToPDF';
+import HeaderFooterPDF from './pdf-tools/HeaderFooterPDF';
+import WatermarkPDF from './pdf-tools/WatermarkPDF';
+import SplitPDF from './pdf-tools/SplitPDF';
+import OrganizePDF from './pdf-tools/OrganizePDF';
+import CompressPDF from './pdf-tools/CompressPDF';
+import ProtectPDF from './pdf-tools/ProtectPDF';
+import SignPDF from './pdf-tools/SignPDF';
+import VerifySignatures from './pdf-tools/VerifySignatures';
 
-type ToolType = 'convert' | 'combine' | 'photo';
+type ToolType = 'convert' | 'combine' | 'photo' | 'headerFooter' | 'watermark' | 'split' | 'organize' | 'compress' | 'protect' | 'sign' | 'verify';
 
 export default function PDFWorkspace() {
   const [selectedTool, setSelectedTool] = useState<ToolType>('convert');
@@ -18,6 +26,22 @@ export default function PDFWorkspace() {
         return <CombinePDF />;
       case 'photo':
         return <PhotoToPDF />;
+      case 'headerFooter':
+        return <HeaderFooterPDF />;
+      case 'watermark':
+        return <WatermarkPDF />;
+      case 'split':
+        return <SplitPDF />;
+      case 'organize':
+        return <OrganizePDF />;
+      case 'compress':
+        return <CompressPDF />;
+      case 'protect':
+        return <ProtectPDF />;
+      case 'sign':
+        return <SignPDF />;
+      case 'verify':
+        return <VerifySignatures />;
       default:
         return <ConvertToPDF />;
     }
@@ -30,7 +54,7 @@ export default function PDFWorkspace() {
           <div className="title-bar-text">Select Tool</div>
         </div>
         <div className="window-body" style={{ padding: '16px' }}>
-          <div style={{ display: 'flex', gap: '8px', justifyContent: 'center' }}>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', justifyContent: 'center' }}>
             <button
               onClick={() => setSelectedTool('convert')}
               className={selectedTool === 'convert' ? 'active' : ''}
@@ -52,6 +76,62 @@ export default function PDFWorkspace() {
             >
               Photo to PDF
             </button>
+            <button
+              onClick={() => setSelectedTool('headerFooter')}
+              className={selectedTool === 'headerFooter' ? 'active' : ''}
+              style={{ minWidth: '120px', padding: '8px' }}
+            >
+              Header &amp; Footer
+            </button>
+            <button
+              onClick={() => setSelectedTool('watermark')}
+              className={selectedTool === 'watermark' ? 'active' : ''}
+              style={{ minWidth: '120px', padding: '8px' }}
+            >
+              Watermark
+            </button>
+            <button
+              onClick={() => setSelectedTool('split')}
+              className={selectedTool === 'split' ? 'active' : ''}
+              style={{ minWidth: '120px', padding: '8px' }}
+            >
+              Split PDF
+            </button>
+            <button
+              onClick={() => setSelectedTool('organize')}
+              className={selectedTool === 'organize' ? 'active' : ''}
+              style={{ minWidth: '120px', padding: '8px' }}
+            >
+              Organize Pages
+            </button>
+            <button
+              onClick={() => setSelectedTool('compress')}
+              className={selectedTool === 'compress' ? 'active' : ''}
+              style={{ minWidth: '120px', padding: '8px' }}
+            >
+              Compress PDF
+            </button>
+            <button
+              onClick={() => setSelectedTool('protect')}
+              className={selectedTool === 'protect' ? 'active' : ''}
+              style={{ minWidth: '120px', padding: '8px' }}
+            >
+              Protect PDF
+            </button>
+            <button
+              onClick={() => setSelectedTool('sign')}
+              className={selectedTool === 'sign' ? 'active' : ''}
+              style={{ minWidth: '120px', padding: '8px' }}
+            >
+              Sign PDF
+            </button>
+            <button
+              onClick={() => setSelectedTool('verify')}
+              className={selectedTool === 'verify' ? 'active' : ''}
+              style={{ minWidth: '120px', padding: '8px' }}
+            >
+              Verify Signatures
+            </button>
           </div>
         </div>
       </div>
@@ -62,6 +142,14 @@ export default function PDFWorkspace() {
             {selectedTool === 'convert' && 'Convert to PDF'}
             {selectedTool === 'combine' && 'Combine PDFs'}
             {selectedTool === 'photo' && 'Photo to PDF'}
+            {selectedTool === 'headerFooter' && 'Header & Footer'}
+            {selectedTool === 'watermark' && 'Watermark'}
+            {selectedTool === 'split' && 'Split PDF'}
+            {selectedTool === 'organize' && 'Organize Pages'}
+            {selectedTool === 'compress' && 'Compress PDF'}
+            {selectedTool === 'protect' && 'Protect PDF'}
+            {selectedTool === 'sign' && 'Sign PDF'}
+            {selectedTool === 'verify' && 'Verify Signatures'}
           </div>
         </div>
         <div className="window-body" style={{ padding: '16px' }}>
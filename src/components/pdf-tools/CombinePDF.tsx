@@ -2,15 +2,30 @@
 
 import { useState, useCallback } from 'react';
 import { PDFDocument } from 'pdf-lib';
+import { Encryption, EncryptionInput, parseEncryption, saveEncrypted } from '@/lib/conversion/encryption';
+import { DocumentMetadata, MetadataInput, applyMetadata, parseMetadata, titleFromFileName } from '@/lib/conversion/metadata';
+import { loadPdf } from '@/lib/conversion/repair';
+import EncryptionFields from './EncryptionFields';
+import MetadataFields from './MetadataFields';
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB per file
 
+// Each file keeps the password it was unlocked with, and what happened when it was last opened
+type CombineFile = {
+  file: File;
+  password: string;
+  status: 'waiting' | 'ready' | 'locked' | 'failed' | 'skipped';
+  message?: string;
+};
+
 export default function CombinePDF() {
-  const [files, setFiles] = useState<File[]>([]);
+  const [files, setFiles] = useState<CombineFile[]>([]);
   const [isCombining, setIsCombining] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [combinationStatus, setCombinationStatus] = useState<'idle' | 'combining' | 'success' | 'error'>('idle');
   const [outputFileName, setOutputFileName] = useState('Combined_Document.pdf');
+  const [metadataInput, setMetadataInput] = useState<MetadataInput>({});
+  const [encryptionInput, setEncryptionInput] = useState<EncryptionInput>({});
 
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setError(null);
@@ -32,7 +47,7 @@ export default function CombinePDF() {
       return;
     }
     
-    setFiles(prev => [...prev, ...selectedFiles]);
+    setFiles(prev => [...prev, ...selectedFiles.map(file => ({ file, password: '', status: 'waiting' as const }))]);
   }, []);
 
   const handleRemoveFile = (index: number) => {
@@ -43,23 +58,53 @@ export default function CombinePDF() {
     setFiles([]);
   };
 
-  const handleCombine = async () => {
-    if (files.length < 2) {
+  const handlePasswordChange = (index: number, password: string) => {
+    setFiles(prev => prev.map((entry, i) => (i === index ? { ...entry, password } : entry)));
+  };
+
+  // Leave a file out and carry on, once no other file is holding the merge up
+  const handleSkip = (index: number) => {
+    const next = files.map((entry, i) => (i === index ? { ...entry, status: 'skipped' as const, message: undefined } : entry));
+    setFiles(next);
+    if (!next.some(entry => entry.status === 'locked' || entry.status === 'failed')) {
+      combineFiles(next);
+    }
+  };
+
+  const handleInclude = (index: number) => {
+    setFiles(prev => prev.map((entry, i) => (i === index ? { ...entry, status: 'waiting' as const } : entry)));
+  };
+
+  const handleCombine = () => combineFiles(files);
+
+  const combineFiles = async (entries: CombineFile[]) => {
+    if (entries.filter(entry => entry.status !== 'skipped').length < 2) {
       setError('You need at least 2 PDF files to combine.');
       return;
     }
     
+    const properties = parseMetadata(metadataInput);
+    if ('error' in properties) {
+      setError(properties.error);
+      return;
+    }
+    const protection = parseEncryption(encryptionInput);
+    if ('error' in protection) {
+      setError(protection.error);
+      return;
+    }
+    
     setIsCombining(true);
     setCombinationStatus('combining');
     setError(null);
     
     try {
-      // In a real implementation, this would process the PDFs
-      // Here we'll simulate the combination with a timeout
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Normally, this would be a server-side operation to combine PDFs
-      mockCombinePDFs(files, outputFileName);
+      const merged = await mockCombinePDFs(entries, outputFileName, properties.metadata, protection.encryption);
+      if (!merged) {
+        setError('Some files could not be opened. Enter their passwords or skip them to combine the rest.');
+        setCombinationStatus('idle');
+        return;
+      }
       
       setCombinationStatus('success');
       
@@ -77,38 +122,54 @@ export default function CombinePDF() {
     }
   };
 
-  // This function simulates combining PDFs
-  // In a real implementation, the server would handle this
-  const mockCombinePDFs = async (pdfFiles: File[], outputName: string) => {
+  // Combine the PDFs in the browser. Every file is opened before anything is saved, so all the files
+  // that need a password or cannot be read are marked together; returns false when there were any.
+  const mockCombinePDFs = async (
+    entries: CombineFile[],
+    outputName: string,
+    metadata: DocumentMetadata,
+    encryption: Encryption | null
+  ): Promise<boolean> => {
     try {
-      console.log('Starting PDF merge with', pdfFiles.length, 'files');
+      console.log('Starting PDF merge with', entries.length, 'files');
       
       // Create a new PDF document
       const mergedPdf = await PDFDocument.create();
       
-      // Add pages from each PDF
-      for (const file of pdfFiles) {
+      // Add pages from each PDF, decrypting and repairing where needed
+      const checked: CombineFile[] = [];
+      for (const entry of entries) {
+        if (entry.status === 'skipped') {
+          checked.push(entry);
+          continue;
+        }
+        const { file } = entry;
+        console.log('Processing file:', file.name);
+        const loaded = await loadPdf(await file.arrayBuffer(), entry.password);
+        if ('error' in loaded) {
+          checked.push({ ...entry, status: loaded.needsPassword ? 'locked' : 'failed', message: loaded.error });
+          continue;
+        }
+        
         try {
-          console.log('Processing file:', file.name);
-          const fileData = await file.arrayBuffer();
-          const pdfDoc = await PDFDocument.load(fileData);
-          
-          // Get page count
-          const pageIndices = pdfDoc.getPageIndices();
-          console.log(`File ${file.name} has ${pageIndices.length} pages`);
-          
-          // Copy pages
-          const pages = await mergedPdf.copyPages(pdfDoc, pageIndices);
+          const { pdfDoc } = loaded;
+          const pages = await mergedPdf.copyPages(pdfDoc, pdfDoc.getPageIndices());
           pages.forEach(page => mergedPdf.addPage(page));
+          const message = loaded.repairs.length > 0 ? `Repaired: ${loaded.repairs.join(', ')}.` : undefined;
+          checked.push({ ...entry, status: 'ready', message });
         } catch (fileError) {
           console.error(`Error processing file ${file.name}:`, fileError);
-          throw new Error(`Failed to process ${file.name}. Make sure it's a valid PDF.`);
+          checked.push({ ...entry, status: 'failed', message: 'Its pages could not be copied.' });
         }
       }
+      setFiles(checked);
+      if (checked.some(entry => entry.status === 'locked' || entry.status === 'failed')) return false;
       
-      // Save the merged PDF
+      // Save the merged PDF with its own document properties rather than those of the first file,
+      // encrypting it last when a password was given
+      applyMetadata(mergedPdf, metadata, titleFromFileName(outputName));
       console.log('Saving merged PDF...');
-      const mergedPdfBytes = await mergedPdf.save();
+      const mergedPdfBytes = encryption ? await saveEncrypted(mergedPdf, encryption) : await mergedPdf.save();
       const mergedPdfBlob = new Blob([mergedPdfBytes], { type: 'application/pdf' });
       
       // Download the merged PDF
@@ -126,6 +187,7 @@ export default function CombinePDF() {
       }, 100);
       
       console.log('PDF merge completed successfully');
+      return true;
     } catch (error) {
       console.error('Error combining PDFs:', error);
       throw new Error('Failed to combine PDFs');
@@ -185,25 +247,67 @@ export default function CombinePDF() {
             
             <div className="sunken-panel" style={{ maxHeight: '200px', overflow: 'auto', marginBottom: '16px' }}>
               <ul className="tree-view">
-                {files.map((file, index) => (
-                  <li key={index} style={{ padding: '4px 8px', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                    <div style={{ display: 'flex', alignItems: 'center' }}>
-                      <img
-                        src="https://win98icons.alexmeub.com/icons/png/file_pdf-0.png"
-                        alt="PDF file"
-                        style={{ width: '16px', height: '16px', marginRight: '8px' }}
-                      />
+                {files.map(({ file, password, status, message }, index) => (
+                  <li key={index} style={{ padding: '4px 8px', opacity: status === 'skipped' ? 0.6 : 1 }}>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                      <div style={{ display: 'flex', alignItems: 'center' }}>
+                        <img
+                          src="https://win98icons.alexmeub.com/icons/png/file_pdf-0.png"
+                          alt="PDF file"
+                          style={{ width: '16px', height: '16px', marginRight: '8px' }}
+                        />
+                        <div>
+                          <span style={{ fontSize: '14px', display: 'block', fontWeight: 'bold' }}>{file.name}</span>
+                          <span style={{ fontSize: '12px', color: '#666' }}>
+                            {formatFileSize(file.size)}{status === 'skipped' && ' - skipped'}
+                          </span>
+                        </div>
+                      </div>
                       <div>
-                        <span style={{ fontSize: '14px', display: 'block', fontWeight: 'bold' }}>{file.name}</span>
-                        <span style={{ fontSize: '12px', color: '#666' }}>{formatFileSize(file.size)}</span>
+                        {(status === 'locked' || status === 'failed') && (
+                          <button type="button" onClick={() => handleSkip(index)} disabled={isCombining} style={{ marginRight: '4px' }}>
+                            Skip
+                          </button>
+                        )}
+                        {status === 'skipped' && (
+                          <button type="button" onClick={() => handleInclude(index)} disabled={isCombining} style={{ marginRight: '4px' }}>
+                            Include
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveFile(index)}
+                        >
+                          Remove
+                        </button>
                       </div>
                     </div>
-                    <button
-                      type="button"
-                      onClick={() => handleRemoveFile(index)}
-                    >
-                      Remove
-                    </button>
+                    
+                    {message && (
+                      <div style={{ fontSize: '12px', marginTop: '4px', color: status === 'ready' ? '#666' : 'red' }}>
+                        {message}
+                      </div>
+                    )}
+                    
+                    {/* A protected file asks for its password here, and the merge is tried again with it */}
+                    {status === 'locked' && (
+                      <div className="field-row" style={{ marginTop: '4px' }}>
+                        <label htmlFor={`combine-password-${index}`}>Password:</label>
+                        <input
+                          id={`combine-password-${index}`}
+                          type="password"
+                          value={password}
+                          onChange={(e) => handlePasswordChange(index, e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter' && !isCombining) handleCombine();
+                          }}
+                          style={{ flexGrow: 1 }}
+                        />
+                        <button type="button" onClick={handleCombine} disabled={isCombining || !password}>
+                          Unlock
+                        </button>
+                      </div>
+                    )}
                   </li>
                 ))}
               </ul>
@@ -220,10 +324,19 @@ export default function CombinePDF() {
               />
             </div>
             
+            <MetadataFields
+              idPrefix="combine"
+              value={metadataInput}
+              defaultTitle={titleFromFileName(outputFileName)}
+              onChange={setMetadataInput}
+            />
+            
+            <EncryptionFields idPrefix="combine" value={encryptionInput} onChange={setEncryptionInput} />
+            
             <div className="field-row" style={{ justifyContent: 'center', marginTop: '16px' }}>
               <button
                 onClick={handleCombine}
-                disabled={isCombining || files.length < 2}
+                disabled={isCombining || files.filter(entry => entry.status !== 'skipped').length < 2}
                 style={{ minWidth: '120px', padding: '8px' }}
               >
                 {isCombining ? 'Combining...' : 'Combine PDFs'}
@@ -0,0 +1,179 @@
+'use client';
+
+import { useState } from 'react';
+import { saveAs } from 'file-saver';
+import type { CompressionPreset, CompressionReport } from '@/lib/conversion/compress';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB limit
+
+const PRESETS: { preset: CompressionPreset; label: string; description: string }[] = [
+  { preset: 'screen', label: 'Screen', description: 'Smallest file, images at 72 dpi. Fine for reading on screen; scanned text may suffer.' },
+  { preset: 'ebook', label: 'eBook', description: 'Images at 150 dpi. A good balance of size and quality.' },
+  { preset: 'print', label: 'Print', description: 'Images at 300 dpi. Keeps the quality needed for printing.' },
+];
+
+// Send a PDF to the server to be made smaller, then offer the result alongside what it saved
+export default function CompressPDF() {
+  const [file, setFile] = useState<File | null>(null);
+  const [preset, setPreset] = useState<CompressionPreset>('ebook');
+  const [isCompressing, setIsCompressing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ blob: Blob; report: CompressionReport } | null>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    setResult(null);
+    const selectedFile = e.target.files?.[0];
+    if (!selectedFile) return;
+
+    if (selectedFile.type !== 'application/pdf' && !selectedFile.name.toLowerCase().endsWith('.pdf')) {
+      setError('Only PDF files are supported.');
+      return;
+    }
+    if (selectedFile.size > MAX_FILE_SIZE) {
+      setError(`File size exceeds the ${MAX_FILE_SIZE / (1024 * 1024)}MB limit.`);
+      return;
+    }
+
+    setFile(selectedFile);
+  };
+
+  const handleCompress = async () => {
+    if (!file) return;
+
+    setIsCompressing(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('preset', preset);
+
+      const response = await fetch('/api/compress', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Server error');
+      }
+
+      const header = response.headers.get('X-Compression-Report');
+      if (!header) throw new Error('Server error');
+      const report: CompressionReport = JSON.parse(decodeURIComponent(header));
+      setResult({ blob: await response.blob(), report });
+    } catch (error) {
+      console.error('Compression error:', error);
+      setError(error instanceof Error && error.message ? error.message : 'Failed to compress the PDF. Please try again.');
+    } finally {
+      setIsCompressing(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!file || !result) return;
+    saveAs(result.blob, file.name.replace(/\.pdf$/i, '') + '_compressed.pdf');
+  };
+
+  // Format file size for display
+  const formatFileSize = (bytes: number): string => {
+    if (bytes < 1024) return bytes + ' bytes';
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+  };
+
+  const report = result ? result.report : null;
+  const saving = report && report.originalSize > 0
+    ? Math.round((1 - report.compressedSize / report.originalSize) * 100)
+    : 0;
+
+  return (
+    <div>
+      <fieldset style={{ padding: '8px', marginBottom: '16px' }}>
+        <legend>Compress a PDF</legend>
+
+        <div className="sunken-panel" style={{ padding: '16px', textAlign: 'center', marginBottom: '16px' }}>
+          <div className="field-row" style={{ justifyContent: 'center' }}>
+            <input
+              id="compress-upload"
+              type="file"
+              accept=".pdf,application/pdf"
+              onChange={handleFileChange}
+              style={{ marginBottom: '8px' }}
+            />
+          </div>
+          <p style={{ fontSize: '12px', color: '#666' }}>
+            PDF files only (Max 10MB)
+          </p>
+        </div>
+
+        {error && (
+          <div className="status-bar" style={{ margin: '8px 0', padding: '4px', color: 'red' }}>
+            {error}
+          </div>
+        )}
+
+        {file && (
+          <div>
+            {PRESETS.map(option => (
+              <div key={option.preset} className="field-row" style={{ marginBottom: '4px' }}>
+                <input
+                  id={`compress-preset-${option.preset}`}
+                  type="radio"
+                  name="compress-preset"
+                  checked={preset === option.preset}
+                  onChange={() => {
+                    setPreset(option.preset);
+                    setResult(null);
+                  }}
+                />
+                <label htmlFor={`compress-preset-${option.preset}`} style={{ minWidth: '60px' }}>{option.label}</label>
+                <span style={{ fontSize: '12px', color: '#666' }}>{option.description}</span>
+              </div>
+            ))}
+
+            <div className="field-row" style={{ justifyContent: 'center', marginTop: '16px' }}>
+              <button
+                onClick={handleCompress}
+                disabled={isCompressing}
+                style={{ minWidth: '120px', padding: '8px' }}
+              >
+                {isCompressing ? 'Compressing...' : 'Compress PDF'}
+              </button>
+            </div>
+
+            {report && (
+              <>
+                <div className="sunken-panel" style={{ margin: '8px 0', padding: '8px', fontSize: '12px' }}>
+                  <div>Before: {formatFileSize(report.originalSize)}</div>
+                  <div>After: {formatFileSize(report.compressedSize)} ({saving > 0 ? `${saving}% smaller` : 'no smaller'})</div>
+                  {report.imagesRecompressed > 0 && <div>Images recompressed: {report.imagesRecompressed}</div>}
+                  {report.duplicatesMerged > 0 && <div>Duplicate objects merged: {report.duplicatesMerged}</div>}
+                  {report.objectsRemoved > 0 && <div>Unused objects removed: {report.objectsRemoved}</div>}
+                  {report.thumbnailsRemoved > 0 && <div>Page thumbnails removed: {report.thumbnailsRemoved}</div>}
+                </div>
+
+                {report.warnings.map(warning => (
+                  <div key={warning} className="status-bar" style={{ margin: '8px 0', padding: '4px', color: '#a05000' }}>
+                    {warning}
+                  </div>
+                ))}
+
+                <div className="field-row" style={{ justifyContent: 'center', marginTop: '8px' }}>
+                  <button
+                    onClick={handleDownload}
+                    style={{ minWidth: '120px', padding: '8px' }}
+                  >
+                    Download PDF
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </fieldset>
+    </div>
+  );
+}
@@ -4,11 +4,30 @@ import { useState } from 'react';
 import { saveAs } from 'file-saver';
 import mammoth from 'mammoth';
 import html2pdf from 'html2pdf.js';
+import { HeaderFooterInput, HeaderFooterTemplate, parseHeaderFooter, stampValues, withHeaderFooter } from '@/lib/conversion/header-footer';
+import { ENCRYPTION_FIELDS, Encryption, EncryptionInput, parseEncryption, withEncryption } from '@/lib/conversion/encryption';
+import { DocumentMetadata, METADATA_FIELDS, MetadataInput, parseMetadata, titleFromFileName, withMetadata } from '@/lib/conversion/metadata';
+import { SIGNATURE_LENGTH, signatureError } from '@/lib/conversion/signatures';
+import { PREFORMATTED_EXTENSIONS } from '@/lib/conversion/text';
+import EncryptionFields from './EncryptionFields';
+import HeaderFooterFields from './HeaderFooterFields';
+import MetadataFields from './MetadataFields';
 
-type SupportedFileType = 'doc' | 'docx' | 'xls' | 'xlsx' | 'ppt' | 'pptx' | 'txt' | 'rtf' | 'html' | 'jpg' | 'jpeg' | 'png';
+// Logs, data files and source code can also be laid out as plain text
+type TextLayout = 'auto' | 'preformatted' | 'reflow';
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB limit
 
+const STATUS_POLL_INTERVAL = 500; // ms between job status checks
+
+// What the progress bar says during each server-side conversion stage
+const STAGE_LABELS: Record<string, string> = {
+  reading: 'Reading file',
+  parsing: 'Parsing document',
+  rendering: 'Laying out pages',
+  saving: 'Saving PDF',
+};
+
 export default function ConvertToPDF() {
   const [file, setFile] = useState<File | null>(null);
   const [isConverting, setIsConverting] = useState(false);
@@ -16,12 +35,21 @@ export default function ConvertToPDF() {
   const [conversionStatus, setConversionStatus] = useState<'idle' | 'converting' | 'success' | 'error'>('idle');
   const [outputFileName, setOutputFileName] = useState('');
   const [conversionProgress, setConversionProgress] = useState(0);
+  const [conversionStage, setConversionStage] = useState('');
+  const [includeSpeakerNotes, setIncludeSpeakerNotes] = useState(false);
+  const [textLayout, setTextLayout] = useState<TextLayout>('auto');
+  const [lineNumbers, setLineNumbers] = useState(false);
+  const [tableOfContents, setTableOfContents] = useState(false);
+  const [metadataInput, setMetadataInput] = useState<MetadataInput>({});
+  const [headerFooterInput, setHeaderFooterInput] = useState<HeaderFooterInput>({});
+  const [encryptionInput, setEncryptionInput] = useState<EncryptionInput>({});
 
-  const supportedFileTypes: SupportedFileType[] = [
-    'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'txt', 'rtf', 'html', 'jpg', 'jpeg', 'png'
+  const supportedFileTypes: string[] = [
+    'doc', 'docx', 'xls', 'xlsx', 'ods', 'csv', 'ppt', 'pptx', 'odp', 'txt', 'md', 'rtf', 'html', 'jpg', 'jpeg', 'png',
+    'gif', 'bmp', 'webp', 'tif', 'tiff', ...PREFORMATTED_EXTENSIONS
   ];
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     setError(null);
     const selectedFile = e.target.files?.[0];
     
@@ -34,12 +62,20 @@ export default function ConvertToPDF() {
     }
     
     // Check file type
-    const fileExtension = selectedFile.name.split('.').pop()?.toLowerCase() as SupportedFileType;
+    const fileExtension = selectedFile.name.split('.').pop()?.toLowerCase() || '';
     if (!supportedFileTypes.includes(fileExtension)) {
       setError(`File type .${fileExtension} is not supported. Please select a supported file type.`);
       return;
     }
     
+    // Check the content really is what the extension says
+    const head = new Uint8Array(await selectedFile.slice(0, SIGNATURE_LENGTH).arrayBuffer());
+    const mismatch = signatureError(head, fileExtension);
+    if (mismatch) {
+      setError(mismatch);
+      return;
+    }
+    
     setFile(selectedFile);
     setOutputFileName(selectedFile.name.split('.')[0] + '.pdf');
   };
@@ -47,19 +83,36 @@ export default function ConvertToPDF() {
   const handleConvert = async () => {
     if (!file) return;
     
+    const properties = parseMetadata(metadataInput);
+    if ('error' in properties) {
+      setError(properties.error);
+      return;
+    }
+    const stamp = parseHeaderFooter(headerFooterInput);
+    if ('error' in stamp) {
+      setError(stamp.error);
+      return;
+    }
+    const protection = parseEncryption(encryptionInput);
+    if ('error' in protection) {
+      setError(protection.error);
+      return;
+    }
+    
     setIsConverting(true);
     setConversionStatus('converting');
     setError(null);
     setConversionProgress(0);
+    setConversionStage('');
     
     try {
-      // For image or simple text files, we can convert directly in the browser
-      if (file.type.startsWith('image/')) {
-        await convertImageToPdf(file);
+      // JPG and PNG images can be converted directly in the browser; other formats are decoded on the server
+      if (['jpg', 'jpeg', 'png'].includes(file.name.split('.').pop()?.toLowerCase() || '')) {
+        await convertImageToPdf(file, properties.metadata, stamp.template, protection.encryption);
       } 
       // For DOCX files, we can use Mammoth.js to convert to HTML first
       else if (file.name.endsWith('.docx')) {
-        await convertDocxToPdf(file);
+        await convertDocxToPdf(file, properties.metadata, stamp.template, protection.encryption);
       }
       // For more complex files like DOC, XLS, PPT, use the server API
       else {
@@ -76,7 +129,7 @@ export default function ConvertToPDF() {
       
     } catch (error) {
       console.error('Conversion error:', error);
-      setError('An error occurred during conversion. Please try again.');
+      setError(error instanceof Error && error.message ? error.message : 'An error occurred during conversion. Please try again.');
       setConversionStatus('error');
     } finally {
       setIsConverting(false);
@@ -84,7 +137,7 @@ export default function ConvertToPDF() {
   };
 
   // Convert DOCX to PDF using Mammoth.js (client-side)
-  const convertDocxToPdf = async (file: File) => {
+  const convertDocxToPdf = async (file: File, metadata: DocumentMetadata, headerFooter: HeaderFooterTemplate | null, encryption: Encryption | null) => {
     setConversionProgress(10);
     
     // Read the file as an ArrayBuffer
@@ -159,12 +212,13 @@ export default function ConvertToPDF() {
     };
     
     setConversionProgress(80);
-    await html2pdf().from(container).set(opt).save();
+    const pdfBytes = await html2pdf().from(container).set(opt).output('arraybuffer');
+    await savePdf(pdfBytes, file, metadata, headerFooter, encryption);
     setConversionProgress(100);
   };
 
   // Convert images to PDF directly in the browser
-  const convertImageToPdf = async (file: File) => {
+  const convertImageToPdf = async (file: File, metadata: DocumentMetadata, headerFooter: HeaderFooterTemplate | null, encryption: Encryption | null) => {
     setConversionProgress(20);
     
     // Read the image file
@@ -261,7 +315,8 @@ export default function ConvertToPDF() {
                 };
                 
                 setConversionProgress(80);
-                await html2pdf().from(container).set(opt).save();
+                const pdfBytes = await html2pdf().from(container).set(opt).output('arraybuffer');
+                await savePdf(pdfBytes, file, metadata, headerFooter, encryption);
                 setConversionProgress(100);
                 resolve();
               } catch (error) {
@@ -286,24 +341,50 @@ export default function ConvertToPDF() {
     });
   };
 
+  // Download a PDF made in the browser, stamped, with the document properties filled in and,
+  // when a password was given, encrypted
+  const savePdf = async (
+    pdfBytes: ArrayBuffer,
+    file: File,
+    metadata: DocumentMetadata,
+    headerFooter: HeaderFooterTemplate | null,
+    encryption: Encryption | null
+  ) => {
+    const title = metadata.title || titleFromFileName(file.name);
+    const stamped = headerFooter
+      ? await withHeaderFooter(pdfBytes, headerFooter, stampValues(file.name, title, metadata.author))
+      : pdfBytes;
+    const withProperties = await withMetadata(stamped, metadata, title);
+    const bytes = encryption ? await withEncryption(withProperties, encryption) : withProperties;
+    saveAs(new Blob([bytes], { type: 'application/pdf' }), outputFileName);
+  };
+
   // For file types that can't be converted in the browser, use the server API
   const convertUsingServerApi = async (file: File) => {
-    setConversionProgress(10);
+    setConversionStage('Uploading');
     
     // Create form data to send the file
     const formData = new FormData();
     formData.append('file', file);
+    formData.append('speakerNotes', String(includeSpeakerNotes));
+    formData.append('outputName', outputFileName);
+    if (textLayout !== 'auto') {
+      formData.append('preformatted', String(textLayout === 'preformatted'));
+    }
+    formData.append('lineNumbers', String(lineNumbers));
+    formData.append('tableOfContents', String(tableOfContents));
+    METADATA_FIELDS.forEach(name => formData.append(name, metadataInput[name] || ''));
+    (Object.keys(headerFooterInput) as (keyof HeaderFooterInput)[]).forEach(name => {
+      formData.append(name, headerFooterInput[name] || '');
+    });
+    ENCRYPTION_FIELDS.forEach(name => formData.append(name, encryptionInput[name] || ''));
     
-    setConversionProgress(30);
-    
-    // Send the file to the server for conversion
+    // Send the file to the server, which queues the conversion and returns a job ID
     const response = await fetch('/api/convert', {
       method: 'POST',
       body: formData,
     });
     
-    setConversionProgress(60);
-    
     if (!response.ok) {
       const errorData = await response.json();
       throw new Error(errorData.error || 'Server error');
@@ -315,14 +396,39 @@ export default function ConvertToPDF() {
       throw new Error(data.error || 'Conversion failed');
     }
     
-    setConversionProgress(80);
+    // Follow the job until it finishes, showing the progress the server reports
+    let job = data;
+    while (job.status === 'queued' || job.status === 'processing') {
+      await new Promise(resolve => setTimeout(resolve, STATUS_POLL_INTERVAL));
+      const statusResponse = await fetch(`/api/convert/status?jobId=${data.jobId}`);
+      job = await statusResponse.json();
+      if (!statusResponse.ok) {
+        throw new Error(job.error || 'Server error');
+      }
+      setConversionProgress(job.progress);
+      setConversionStage(job.status === 'queued' ? 'Waiting in queue' : STAGE_LABELS[job.stage] || 'Converting');
+    }
+    
+    if (job.status === 'failed') {
+      throw new Error(job.error || 'Conversion failed');
+    }
     
     // If successful, download the converted file
     window.location.href = `/api/convert/download?fileId=${data.fileId}`;
-    
-    setConversionProgress(100);
   };
 
+  // Presentations can carry speaker notes, so they get an extra option
+  const isPresentation = (file: File): boolean =>
+    ['ppt', 'pptx', 'odp'].includes(file.name.split('.').pop()?.toLowerCase() || '');
+
+  // Plain text files can keep their exact spacing in a monospace font
+  const isPlainText = (file: File): boolean =>
+    ['txt', 'md', 'csv'].concat(PREFORMATTED_EXTENSIONS).includes(file.name.split('.').pop()?.toLowerCase() || '');
+
+  // Documents laid out on the server from their headings can open with a table of contents
+  const hasHeadings = (file: File): boolean =>
+    ['doc', 'txt', 'md', 'rtf', 'html'].includes(file.name.split('.').pop()?.toLowerCase() || '');
+
   // Format file size for display
   const formatFileSize = (bytes: number): string => {
     if (bytes < 1024) return bytes + ' bytes';
@@ -344,13 +450,13 @@ export default function ConvertToPDF() {
               <input
                 id="file-upload"
                 type="file"
-                accept=".doc,.docx,.xls,.xlsx,.ppt,.pptx,.txt,.rtf,.html,.jpg,.jpeg,.png"
+                accept={supportedFileTypes.map(type => '.' + type).join(',')}
                 onChange={handleFileChange}
                 style={{ marginBottom: '8px' }}
               />
             </div>
             <p style={{ fontSize: '12px', color: '#666' }}>
-              Supported formats: DOC, DOCX, XLS, XLSX, PPT, PPTX, TXT, RTF, HTML, JPG, PNG (Max 10MB)
+              Supported formats: DOC, DOCX, XLS, XLSX, ODS, CSV, PPT, PPTX, ODP, TXT, MD, RTF, HTML, JPG, PNG, GIF, BMP, WebP, TIFF, plus logs, JSON and source code (Max 10MB)
             </p>
           </div>
         </div>
@@ -394,6 +500,75 @@ export default function ConvertToPDF() {
               />
             </div>
             
+            {isPresentation(file) && (
+              <div className="field-row" style={{ marginBottom: '8px' }}>
+                <input
+                  id="includeSpeakerNotes"
+                  type="checkbox"
+                  checked={includeSpeakerNotes}
+                  onChange={(e) => setIncludeSpeakerNotes(e.target.checked)}
+                />
+                <label htmlFor="includeSpeakerNotes">Include speaker notes after each slide</label>
+              </div>
+            )}
+            
+            {isPlainText(file) && (
+              <>
+                <div className="field-row" style={{ marginBottom: '8px' }}>
+                  <label htmlFor="textLayout" style={{ minWidth: '100px' }}>Text layout:</label>
+                  <select
+                    id="textLayout"
+                    value={textLayout}
+                    onChange={(e) => setTextLayout(e.target.value as TextLayout)}
+                  >
+                    <option value="auto">Automatic</option>
+                    <option value="preformatted">Keep lines and spacing (monospace)</option>
+                    <option value="reflow">Reflow into paragraphs</option>
+                  </select>
+                </div>
+                <div className="field-row" style={{ marginBottom: '8px' }}>
+                  <input
+                    id="lineNumbers"
+                    type="checkbox"
+                    checked={lineNumbers}
+                    onChange={(e) => setLineNumbers(e.target.checked)}
+                  />
+                  <label htmlFor="lineNumbers">Show line numbers on preformatted text</label>
+                </div>
+              </>
+            )}
+            
+            {hasHeadings(file) && (
+              <div className="field-row" style={{ marginBottom: '8px' }}>
+                <input
+                  id="tableOfContents"
+                  type="checkbox"
+                  checked={tableOfContents}
+                  onChange={(e) => setTableOfContents(e.target.checked)}
+                />
+                <label htmlFor="tableOfContents">Add a table of contents after the title</label>
+              </div>
+            )}
+            
+            <MetadataFields
+              idPrefix="convert"
+              value={metadataInput}
+              defaultTitle={titleFromFileName(file.name)}
+              onChange={setMetadataInput}
+            />
+            
+            <HeaderFooterFields
+              idPrefix="convert"
+              value={headerFooterInput}
+              onChange={setHeaderFooterInput}
+            />
+            
+            <EncryptionFields
+              idPrefix="convert"
+              value={encryptionInput}
+              onChange={setEncryptionInput}
+            />
+            
             <div className="field-row" style={{ justifyContent: 'center', marginTop: '16px' }}>
               <button
                 onClick={handleConvert}
@@ -417,7 +592,7 @@ export default function ConvertToPDF() {
                   />
                 </div>
                 <div style={{ textAlign: 'center', marginTop: '4px', fontSize: '12px' }}>
-                  {conversionProgress}% complete
+                  {conversionStage ? `${conversionStage}: ` : ''}{conversionProgress}% complete
                 </div>
               </div>
             )}
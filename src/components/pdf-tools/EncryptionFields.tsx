@@ -0,0 +1,69 @@
+'use client';
+
+import { EncryptionInput, PERMISSION_LABELS, PdfPermissions } from '@/lib/conversion/encryption';
+
+type EncryptionFieldsProps = {
+  idPrefix: string;
+  value: EncryptionInput;
+  onChange: (value: EncryptionInput) => void;
+};
+
+const PERMISSION_FIELDS: Record<keyof PdfPermissions, 'allowPrinting' | 'allowCopying' | 'allowEditing' | 'allowAnnotating'> = {
+  printing: 'allowPrinting',
+  copying: 'allowCopying',
+  editing: 'allowEditing',
+  annotating: 'allowAnnotating',
+};
+
+// Optional password protection for the PDF; leaving both passwords blank saves it unencrypted
+export default function EncryptionFields({ idPrefix, value, onChange }: EncryptionFieldsProps) {
+  return (
+    <fieldset style={{ padding: '8px', marginBottom: '8px' }}>
+      <legend>Password protection</legend>
+      <div className="field-row" style={{ marginBottom: '4px' }}>
+        <label htmlFor={`${idPrefix}-userPassword`} style={{ minWidth: '120px' }}>Open password:</label>
+        <input
+          id={`${idPrefix}-userPassword`}
+          type="password"
+          autoComplete="new-password"
+          value={value.userPassword || ''}
+          placeholder="Needed to open the PDF"
+          onChange={(e) => onChange({ ...value, userPassword: e.target.value })}
+          style={{ flexGrow: 1 }}
+        />
+      </div>
+      <div className="field-row" style={{ marginBottom: '4px' }}>
+        <label htmlFor={`${idPrefix}-ownerPassword`} style={{ minWidth: '120px' }}>Owner password:</label>
+        <input
+          id={`${idPrefix}-ownerPassword`}
+          type="password"
+          autoComplete="new-password"
+          value={value.ownerPassword || ''}
+          placeholder="Needed to lift the restrictions"
+          onChange={(e) => onChange({ ...value, ownerPassword: e.target.value })}
+          style={{ flexGrow: 1 }}
+        />
+      </div>
+      <div className="field-row" style={{ marginBottom: '4px', flexWrap: 'wrap' }}>
+        <span style={{ minWidth: '120px' }}>Allow:</span>
+        {(Object.keys(PERMISSION_FIELDS) as (keyof PdfPermissions)[]).map(permission => {
+          const field = PERMISSION_FIELDS[permission];
+          return (
+            <span key={permission} style={{ marginRight: '8px' }}>
+              <input
+                id={`${idPrefix}-${field}`}
+                type="checkbox"
+                checked={value[field] !== 'false'}
+                onChange={(e) => onChange({ ...value, [field]: String(e.target.checked) })}
+              />
+              <label htmlFor={`${idPrefix}-${field}`}>{PERMISSION_LABELS[permission]}</label>
+            </span>
+          );
+        })}
+      </div>
+      <div style={{ fontSize: '11px', color: '#666' }}>
+        Encrypted with AES-256. Without an owner password no one can lift the restrictions.
+      </div>
+    </fieldset>
+  );
+}
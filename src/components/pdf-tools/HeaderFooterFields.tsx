@@ -0,0 +1,75 @@
+'use client';
+
+import { HEADER_FOOTER_FIELDS, HeaderFooterInput, TOKENS } from '@/lib/conversion/header-footer';
+
+type HeaderFooterFieldsProps = {
+  idPrefix: string;
+  value: HeaderFooterInput;
+  onChange: (value: HeaderFooterInput) => void;
+};
+
+const BANDS: { label: string; fields: (typeof HEADER_FOOTER_FIELDS)[number][] }[] = [
+  { label: 'Header:', fields: ['headerLeft', 'headerCenter', 'headerRight'] },
+  { label: 'Footer:', fields: ['footerLeft', 'footerCenter', 'footerRight'] },
+];
+
+const PLACEHOLDERS = ['Left', 'Center', 'Right'];
+
+// Optional header and footer text for each page; leaving every slot blank keeps the default
+export default function HeaderFooterFields({ idPrefix, value, onChange }: HeaderFooterFieldsProps) {
+  return (
+    <fieldset style={{ padding: '8px', marginBottom: '8px' }}>
+      <legend>Header and footer</legend>
+      {BANDS.map(band => (
+        <div key={band.label} className="field-row" style={{ marginBottom: '4px' }}>
+          <label htmlFor={`${idPrefix}-${band.fields[0]}`} style={{ minWidth: '100px' }}>{band.label}</label>
+          {band.fields.map((name, index) => (
+            <input
+              key={name}
+              id={`${idPrefix}-${name}`}
+              type="text"
+              value={value[name] || ''}
+              placeholder={PLACEHOLDERS[index]}
+              onChange={(e) => onChange({ ...value, [name]: e.target.value })}
+              style={{ flexGrow: 1, minWidth: 0 }}
+            />
+          ))}
+        </div>
+      ))}
+      <div className="field-row" style={{ marginBottom: '4px' }}>
+        <label htmlFor={`${idPrefix}-headerFooterFont`} style={{ minWidth: '100px' }}>Font:</label>
+        <select
+          id={`${idPrefix}-headerFooterFont`}
+          value={value.headerFooterFont || 'helvetica'}
+          onChange={(e) => onChange({ ...value, headerFooterFont: e.target.value })}
+        >
+          <option value="helvetica">Helvetica</option>
+          <option value="times">Times</option>
+          <option value="courier">Courier</option>
+        </select>
+        <label htmlFor={`${idPrefix}-headerFooterSize`} style={{ marginLeft: '8px' }}>Size:</label>
+        <input
+          id={`${idPrefix}-headerFooterSize`}
+          type="number"
+          min={6}
+          max={24}
+          value={value.headerFooterSize || '10'}
+          onChange={(e) => onChange({ ...value, headerFooterSize: e.target.value })}
+          style={{ width: '50px' }}
+        />
+      </div>
+      <div className="field-row" style={{ marginBottom: '4px' }}>
+        <input
+          id={`${idPrefix}-skipFirstPage`}
+          type="checkbox"
+          checked={value.skipFirstPage === 'true'}
+          onChange={(e) => onChange({ ...value, skipFirstPage: String(e.target.checked) })}
+        />
+        <label htmlFor={`${idPrefix}-skipFirstPage`}>Leave the first page without header and footer</label>
+      </div>
+      <div style={{ fontSize: '11px', color: '#666' }}>
+        Use {TOKENS.map(token => `{${token}}`).join(' ')} in any slot.
+      </div>
+    </fieldset>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState } from 'react';
+import { PDFDocument } from 'pdf-lib';
+import { HeaderFooterInput, STAMP_MARGINS, parseHeaderFooter, stampHeaderFooter, stampValues } from '@/lib/conversion/header-footer';
+import { titleFromFileName } from '@/lib/conversion/metadata';
+import HeaderFooterFields from './HeaderFooterFields';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB limit
+
+// Stamp a header and footer onto every page of an existing PDF, in the browser
+export default function HeaderFooterPDF() {
+  const [file, setFile] = useState<File | null>(null);
+  const [isStamping, setIsStamping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [stampStatus, setStampStatus] = useState<'idle' | 'success'>('idle');
+  const [outputFileName, setOutputFileName] = useState('');
+  const [headerFooterInput, setHeaderFooterInput] = useState<HeaderFooterInput>({
+    footerCenter: 'Page {page} of {pages}',
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    setStampStatus('idle');
+    const selectedFile = e.target.files?.[0];
+    if (!selectedFile) return;
+
+    if (selectedFile.type !== 'application/pdf' && !selectedFile.name.toLowerCase().endsWith('.pdf')) {
+      setError('Only PDF files are supported.');
+      return;
+    }
+    if (selectedFile.size > MAX_FILE_SIZE) {
+      setError(`File size exceeds the ${MAX_FILE_SIZE / (1024 * 1024)}MB limit.`);
+      return;
+    }
+
+    setFile(selectedFile);
+    setOutputFileName(selectedFile.name.replace(/\.pdf$/i, '') + '_stamped.pdf');
+  };
+
+  const handleStamp = async () => {
+    if (!file) return;
+
+    const stamp = parseHeaderFooter(headerFooterInput);
+    if ('error' in stamp) {
+      setError(stamp.error);
+      return;
+    }
+    if (!stamp.template) {
+      setError('Enter the text for at least one header or footer slot.');
+      return;
+    }
+
+    setIsStamping(true);
+    setError(null);
+    setStampStatus('idle');
+
+    try {
+      let pdfDoc: PDFDocument;
+      try {
+        pdfDoc = await PDFDocument.load(await file.arrayBuffer(), { updateMetadata: false });
+      } catch (loadError) {
+        console.error(`Error loading ${file.name}:`, loadError);
+        throw new Error(`Failed to read ${file.name}. Make sure it's a valid PDF that is not password protected.`);
+      }
+
+      // The title and author tokens come from the PDF's own properties when it has them
+      const title = pdfDoc.getTitle() || titleFromFileName(file.name);
+      const values = stampValues(file.name, title, pdfDoc.getAuthor());
+      await stampHeaderFooter(pdfDoc, stamp.template, values, STAMP_MARGINS);
+      pdfDoc.setModificationDate(new Date());
+      const pdfBytes = await pdfDoc.save();
+
+      const url = URL.createObjectURL(new Blob([pdfBytes], { type: 'application/pdf' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = outputFileName || 'stamped.pdf';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => {
+        URL.revokeObjectURL(url);
+      }, 100);
+
+      setStampStatus('success');
+    } catch (error) {
+      console.error('Stamping error:', error);
+      setError(error instanceof Error && error.message ? error.message : 'Failed to stamp the PDF. Please try again.');
+    } finally {
+      setIsStamping(false);
+    }
+  };
+
+  return (
+    <div>
+      <fieldset style={{ padding: '8px', marginBottom: '16px' }}>
+        <legend>Add Header and Footer to a PDF</legend>
+
+        <div className="sunken-panel" style={{ padding: '16px', textAlign: 'center', marginBottom: '16px' }}>
+          <div className="field-row" style={{ justifyContent: 'center' }}>
+            <input
+              id="stamp-upload"
+              type="file"
+              accept=".pdf,application/pdf"
+              onChange={handleFileChange}
+              style={{ marginBottom: '8px' }}
+            />
+          </div>
+          <p style={{ fontSize: '12px', color: '#666' }}>
+            PDF files only (Max 10MB)
+          </p>
+        </div>
+
+        {error && (
+          <div className="status-bar" style={{ margin: '8px 0', padding: '4px', color: 'red' }}>
+            {error}
+          </div>
+        )}
+
+        {file && (
+          <div>
+            <div className="field-row" style={{ marginBottom: '8px' }}>
+              <label htmlFor="stampedFileName" style={{ minWidth: '120px' }}>Output filename:</label>
+              <input
+                id="stampedFileName"
+                type="text"
+                value={outputFileName}
+                onChange={(e) => setOutputFileName(e.target.value)}
+                style={{ flexGrow: 1 }}
+              />
+            </div>
+
+            <HeaderFooterFields
+              idPrefix="stamp"
+              value={headerFooterInput}
+              onChange={setHeaderFooterInput}
+            />
+
+            <div className="field-row" style={{ justifyContent: 'center', marginTop: '16px' }}>
+              <button
+                onClick={handleStamp}
+                disabled={isStamping}
+                style={{ minWidth: '120px', padding: '8px' }}
+              >
+                {isStamping ? 'Stamping...' : 'Stamp PDF'}
+              </button>
+            </div>
+
+            {stampStatus === 'success' && (
+              <div className="status-bar" style={{ margin: '8px 0', padding: '4px', color: 'green' }}>
+                Header and footer added! Your PDF has been downloaded.
+              </div>
+            )}
+          </div>
+        )}
+      </fieldset>
+    </div>
+  );
+}
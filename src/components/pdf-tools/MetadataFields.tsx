@@ -0,0 +1,40 @@
+'use client';
+
+import { MetadataField, MetadataInput } from '@/lib/conversion/metadata';
+
+type MetadataFieldsProps = {
+  idPrefix: string;
+  value: MetadataInput;
+  defaultTitle: string;
+  onChange: (value: MetadataInput) => void;
+};
+
+const FIELDS: { name: MetadataField; label: string; placeholder?: string }[] = [
+  { name: 'title', label: 'Title:' },
+  { name: 'author', label: 'Author:' },
+  { name: 'subject', label: 'Subject:' },
+  { name: 'keywords', label: 'Keywords:', placeholder: 'Separated by commas' },
+  { name: 'language', label: 'Language:', placeholder: 'e.g. en or en-GB' },
+];
+
+// Optional document properties for a generated PDF; blank fields keep the defaults
+export default function MetadataFields({ idPrefix, value, defaultTitle, onChange }: MetadataFieldsProps) {
+  return (
+    <fieldset style={{ padding: '8px', marginBottom: '8px' }}>
+      <legend>Document properties</legend>
+      {FIELDS.map(field => (
+        <div key={field.name} className="field-row" style={{ marginBottom: '4px' }}>
+          <label htmlFor={`${idPrefix}-${field.name}`} style={{ minWidth: '100px' }}>{field.label}</label>
+          <input
+            id={`${idPrefix}-${field.name}`}
+            type="text"
+            value={value[field.name] || ''}
+            placeholder={field.name === 'title' ? defaultTitle : field.placeholder}
+            onChange={(e) => onChange({ ...value, [field.name]: e.target.value })}
+            style={{ flexGrow: 1 }}
+          />
+        </div>
+      ))}
+    </fieldset>
+  );
+}
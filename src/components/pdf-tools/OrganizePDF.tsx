@@ -0,0 +1,352 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { saveAs } from 'file-saver';
+import { PDFDocument } from 'pdf-lib';
+import {
+  PageItem,
+  buildOrganizedPdf,
+  deletePages,
+  duplicatePages,
+  initialPages,
+  movePages,
+  rotatePages,
+} from '@/lib/conversion/organize';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB limit
+
+const THUMBNAIL_SIZE = 120; // px, the longest side of a thumbnail
+
+const MAX_UNDO = 100; // edits kept for undo
+
+// Undo keeps whole page lists; they are small, since a page is just an index and a rotation
+type History = { past: PageItem[][]; present: PageItem[]; future: PageItem[][] };
+
+const EMPTY_HISTORY: History = { past: [], present: [], future: [] };
+
+// Render a small image of every page with pdf.js, handing each one over as soon as it is ready.
+// pdf.js is loaded on demand since it only runs in the browser.
+async function renderThumbnails(
+  bytes: ArrayBuffer,
+  onThumbnail: (index: number, url: string) => void,
+  isCancelled: () => boolean
+) {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.js', import.meta.url).toString();
+  // pdf.js takes over the buffer it is given, so it gets a copy
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(bytes.slice(0)) }).promise;
+  try {
+    for (let index = 0; index < pdf.numPages && !isCancelled(); index++) {
+      const page = await pdf.getPage(index + 1);
+      const size = page.getViewport({ scale: 1 });
+      const scale = (THUMBNAIL_SIZE * (window.devicePixelRatio || 1)) / Math.max(size.width, size.height);
+      const viewport = page.getViewport({ scale });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      const context = canvas.getContext('2d');
+      if (!context) return;
+      await page.render({ canvasContext: context, viewport }).promise;
+      onThumbnail(index, canvas.toDataURL('image/jpeg', 0.8));
+      page.cleanup();
+    }
+  } finally {
+    pdf.destroy();
+  }
+}
+
+// Rearrange the pages of one PDF: reorder by dragging, rotate, delete, duplicate and extract,
+// with undo and redo, then save the result in the browser
+export default function OrganizePDF() {
+  const [file, setFile] = useState<File | null>(null);
+  const [sourceDoc, setSourceDoc] = useState<PDFDocument | null>(null);
+  const [thumbnails, setThumbnails] = useState<string[]>([]);
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<string | null>(null);
+  const dragging = useRef<string[]>([]);
+
+  const pages = history.present;
+  // Undo can bring back pages that were selected and then deleted, so only current pages count
+  const selection = selected.filter(id => pages.some(page => page.id === id));
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    setSaveStatus(null);
+    const selectedFile = e.target.files?.[0];
+    if (!selectedFile) return;
+
+    if (selectedFile.type !== 'application/pdf' && !selectedFile.name.toLowerCase().endsWith('.pdf')) {
+      setError('Only PDF files are supported.');
+      return;
+    }
+    if (selectedFile.size > MAX_FILE_SIZE) {
+      setError(`File size exceeds the ${MAX_FILE_SIZE / (1024 * 1024)}MB limit.`);
+      return;
+    }
+
+    try {
+      const pdfDoc = await PDFDocument.load(await selectedFile.arrayBuffer(), { updateMetadata: false });
+      setFile(selectedFile);
+      setSourceDoc(pdfDoc);
+      setThumbnails([]);
+      setHistory({ ...EMPTY_HISTORY, present: initialPages(pdfDoc.getPageCount()) });
+      setSelected([]);
+    } catch (loadError) {
+      console.error(`Error loading ${selectedFile.name}:`, loadError);
+      setError(`Failed to read ${selectedFile.name}. Make sure it's a valid PDF that is not password protected.`);
+    }
+  };
+
+  // Thumbnails are drawn in the background; picking another file stops the previous run
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    file.arrayBuffer()
+      .then(bytes => renderThumbnails(
+        bytes,
+        (index, url) => setThumbnails(prev => {
+          const next = prev.slice();
+          next[index] = url;
+          return next;
+        }),
+        () => cancelled
+      ))
+      .catch(renderError => {
+        console.error('Error rendering thumbnails:', renderError);
+        if (!cancelled) setError('Page previews could not be drawn, but the pages can still be organized.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const apply = (next: PageItem[]) => {
+    setSaveStatus(null);
+    setHistory(prev => ({ past: prev.past.concat([prev.present]).slice(-MAX_UNDO), present: next, future: [] }));
+  };
+
+  const undo = () => {
+    setHistory(prev => prev.past.length === 0 ? prev : {
+      past: prev.past.slice(0, -1),
+      present: prev.past[prev.past.length - 1],
+      future: [prev.present].concat(prev.future),
+    });
+  };
+
+  const redo = () => {
+    setHistory(prev => prev.future.length === 0 ? prev : {
+      past: prev.past.concat([prev.present]),
+      present: prev.future[0],
+      future: prev.future.slice(1),
+    });
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => (prev.indexOf(id) !== -1 ? prev.filter(other => other !== id) : prev.concat([id])));
+  };
+
+  const handleDelete = () => {
+    if (selection.length === 0) return;
+    apply(deletePages(pages, selection));
+    setSelected([]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const key = e.key.toLowerCase();
+    if ((e.ctrlKey || e.metaKey) && key === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) redo(); else undo();
+    } else if ((e.ctrlKey || e.metaKey) && key === 'y') {
+      e.preventDefault();
+      redo();
+    } else if (e.key === 'Delete') {
+      handleDelete();
+    }
+  };
+
+  const handleDragStart = (e: React.DragEvent, id: string) => {
+    // Dragging a selected page takes the whole selection with it
+    dragging.current = selection.indexOf(id) !== -1 ? pages.filter(page => selection.indexOf(page.id) !== -1).map(page => page.id) : [id];
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', id);
+  };
+
+  // Dropping on the right half of a page puts the pages after it
+  const handleDrop = (e: React.DragEvent, targetIndex: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const ids = dragging.current;
+    dragging.current = [];
+    if (ids.length === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    let index = e.clientX > rect.left + rect.width / 2 ? targetIndex + 1 : targetIndex;
+    // The drop point is between the pages that stay put
+    while (index < pages.length && ids.indexOf(pages[index].id) !== -1) index++;
+    const next = movePages(pages, ids, index < pages.length ? pages[index].id : null);
+    if (next.some((page, position) => page.id !== pages[position].id)) apply(next);
+  };
+
+  const handleDropAtEnd = (e: React.DragEvent) => {
+    e.preventDefault();
+    const ids = dragging.current;
+    dragging.current = [];
+    if (ids.length > 0) apply(movePages(pages, ids, null));
+  };
+
+  const download = async (items: PageItem[], suffix: string) => {
+    if (!file || !sourceDoc) return;
+    if (items.length === 0) {
+      setError('There are no pages to save.');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const name = file.name.replace(/\.pdf$/i, '') + suffix;
+      const pdfBytes = await buildOrganizedPdf(sourceDoc, items, name);
+      saveAs(new Blob([pdfBytes], { type: 'application/pdf' }), name);
+      setSaveStatus(`${name} has been downloaded.`);
+    } catch (saveError) {
+      console.error('Error saving organized PDF:', saveError);
+      setError('Failed to save the PDF. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toolbarButton = (label: string, onClick: () => void, disabled: boolean) => (
+    <button onClick={onClick} disabled={disabled || isSaving} style={{ minWidth: 0, padding: '4px 8px' }}>
+      {label}
+    </button>
+  );
+
+  const noSelection = selection.length === 0;
+
+  return (
+    <div>
+      <fieldset style={{ padding: '8px', marginBottom: '16px' }}>
+        <legend>Organize Pages</legend>
+
+        <div className="sunken-panel" style={{ padding: '16px', textAlign: 'center', marginBottom: '16px' }}>
+          <div className="field-row" style={{ justifyContent: 'center' }}>
+            <input
+              id="organize-upload"
+              type="file"
+              accept=".pdf,application/pdf"
+              onChange={handleFileChange}
+              style={{ marginBottom: '8px' }}
+            />
+          </div>
+          <p style={{ fontSize: '12px', color: '#666' }}>
+            PDF files only (Max 10MB)
+          </p>
+        </div>
+
+        {error && (
+          <div className="status-bar" style={{ margin: '8px 0', padding: '4px', color: 'red' }}>
+            {error}
+          </div>
+        )}
+
+        {file && (
+          <div tabIndex={0} onKeyDown={handleKeyDown} style={{ outline: 'none' }}>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginBottom: '8px' }}>
+              {toolbarButton('Undo', undo, history.past.length === 0)}
+              {toolbarButton('Redo', redo, history.future.length === 0)}
+              {toolbarButton('Rotate left', () => apply(rotatePages(pages, selection, -90)), noSelection)}
+              {toolbarButton('Rotate right', () => apply(rotatePages(pages, selection, 90)), noSelection)}
+              {toolbarButton('Duplicate', () => apply(duplicatePages(pages, selection)), noSelection)}
+              {toolbarButton('Delete', handleDelete, noSelection)}
+              {toolbarButton('Select all', () => setSelected(pages.map(page => page.id)), pages.length === 0)}
+              {toolbarButton('Select none', () => setSelected([]), noSelection)}
+            </div>
+
+            <div style={{ fontSize: '12px', color: '#666', marginBottom: '8px' }}>
+              Click pages to select them and drag to reorder. {pages.length} {pages.length === 1 ? 'page' : 'pages'}
+              {selection.length > 0 && `, ${selection.length} selected`}.
+            </div>
+
+            <div
+              className="sunken-panel"
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={handleDropAtEnd}
+              style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', padding: '8px', maxHeight: '480px', overflow: 'auto', minHeight: '160px' }}
+            >
+              {pages.map((page, index) => {
+                const isSelected = selection.indexOf(page.id) !== -1;
+                return (
+                  <div
+                    key={page.id}
+                    draggable
+                    onDragStart={(e) => handleDragStart(e, page.id)}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={(e) => handleDrop(e, index)}
+                    onClick={() => toggleSelected(page.id)}
+                    title={`Page ${page.source + 1} of the original`}
+                    style={{
+                      width: `${THUMBNAIL_SIZE + 16}px`,
+                      padding: '4px',
+                      textAlign: 'center',
+                      cursor: 'grab',
+                      border: isSelected ? '2px solid #000080' : '2px solid transparent',
+                      backgroundColor: isSelected ? '#c0c8e8' : 'transparent',
+                    }}
+                  >
+                    <div style={{ height: `${THUMBNAIL_SIZE}px`, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                      {thumbnails[page.source] ? (
+                        <img
+                          src={thumbnails[page.source]}
+                          alt={`Page ${page.source + 1}`}
+                          draggable={false}
+                          style={{
+                            maxWidth: `${THUMBNAIL_SIZE}px`,
+                            maxHeight: `${THUMBNAIL_SIZE}px`,
+                            transform: `rotate(${page.rotation}deg)`,
+                            boxShadow: '0 1px 3px rgba(0,0,0,0.3)',
+                            backgroundColor: 'white',
+                          }}
+                        />
+                      ) : (
+                        <span style={{ fontSize: '12px', color: '#666' }}>Loading...</span>
+                      )}
+                    </div>
+                    <div style={{ fontSize: '12px', marginTop: '4px' }}>
+                      {index + 1}
+                      {page.source !== index && <span style={{ color: '#666' }}> (p. {page.source + 1})</span>}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="field-row" style={{ justifyContent: 'center', marginTop: '16px', gap: '8px' }}>
+              <button
+                onClick={() => download(pages, '_organized.pdf')}
+                disabled={isSaving || pages.length === 0}
+                style={{ minWidth: '120px', padding: '8px' }}
+              >
+                {isSaving ? 'Saving...' : 'Save PDF'}
+              </button>
+              <button
+                onClick={() => download(pages.filter(page => selection.indexOf(page.id) !== -1), '_extract.pdf')}
+                disabled={isSaving || noSelection}
+                style={{ minWidth: '120px', padding: '8px' }}
+              >
+                Extract selected
+              </button>
+            </div>
+
+            {saveStatus && (
+              <div className="status-bar" style={{ margin: '8px 0', padding: '4px', color: 'green' }}>
+                {saveStatus}
+              </div>
+            )}
+          </div>
+        )}
+      </fieldset>
+    </div>
+  );
+}
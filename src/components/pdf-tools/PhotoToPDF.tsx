@@ -3,6 +3,10 @@
 import { useState, useRef, useEffect } from 'react';
 import html2pdf from 'html2pdf.js';
 import { jsPDF } from 'jspdf';
+import { Encryption, EncryptionInput, parseEncryption, withEncryption } from '@/lib/conversion/encryption';
+import { DocumentMetadata, MetadataInput, parseMetadata, titleFromFileName, withMetadata } from '@/lib/conversion/metadata';
+import EncryptionFields from './EncryptionFields';
+import MetadataFields from './MetadataFields';
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB per file
 const MAX_PHOTOS = 10;
@@ -15,6 +19,8 @@ export default function PhotoToPDF() {
   const [outputFileName, setOutputFileName] = useState('Photo_Document.pdf');
   const [activeCamera, setActiveCamera] = useState(false);
   const [cameraMode, setCameraMode] = useState<'environment' | 'user'>('environment');
+  const [metadataInput, setMetadataInput] = useState<MetadataInput>({});
+  const [encryptionInput, setEncryptionInput] = useState<EncryptionInput>({});
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -149,6 +155,17 @@ export default function PhotoToPDF() {
       return;
     }
     
+    const properties = parseMetadata(metadataInput);
+    if ('error' in properties) {
+      setError(properties.error);
+      return;
+    }
+    const protection = parseEncryption(encryptionInput);
+    if ('error' in protection) {
+      setError(protection.error);
+      return;
+    }
+    
     setIsConverting(true);
     setConversionStatus('converting');
     setError(null);
@@ -159,7 +176,7 @@ export default function PhotoToPDF() {
       await new Promise(resolve => setTimeout(resolve, 2000));
       
       // Normally, this would generate PDF from photos
-      mockConvertPhotosToPDF(photos, outputFileName);
+      mockConvertPhotosToPDF(photos, outputFileName, properties.metadata, protection.encryption);
       
       setConversionStatus('success');
       
@@ -178,7 +195,12 @@ export default function PhotoToPDF() {
   };
   
   // This function converts photos to PDF using jsPDF directly
-  const mockConvertPhotosToPDF = async (photoDataUrls: string[], outputName: string) => {
+  const mockConvertPhotosToPDF = async (
+    photoDataUrls: string[],
+    outputName: string,
+    metadata: DocumentMetadata,
+    encryption: Encryption | null
+  ) => {
     try {
       console.log('Starting PDF generation with jsPDF...');
       
@@ -248,8 +270,19 @@ export default function PhotoToPDF() {
         }
       }
       
-      // Save the PDF
-      doc.save(outputName);
+      // Save the PDF with the document properties filled in, encrypting it last when a password was given
+      const withProperties = await withMetadata(doc.output('arraybuffer'), metadata, titleFromFileName(outputName));
+      const pdfBytes = encryption ? await withEncryption(withProperties, encryption) : withProperties;
+      const url = URL.createObjectURL(new Blob([pdfBytes], { type: 'application/pdf' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = outputName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => {
+        URL.revokeObjectURL(url);
+      }, 100);
       console.log('PDF saved successfully');
       
     } catch (error) {
@@ -361,6 +394,15 @@ export default function PhotoToPDF() {
               />
             </div>
             
+            <MetadataFields
+              idPrefix="photo"
+              value={metadataInput}
+              defaultTitle={titleFromFileName(outputFileName)}
+              onChange={setMetadataInput}
+            />
+            
+            <EncryptionFields idPrefix="photo" value={encryptionInput} onChange={setEncryptionInput} />
+            
             <div className="field-row" style={{ justifyContent: 'center', marginTop: '16px' }}>
               <button
                 onClick={handleConvert}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useState } from 'react';
+import { saveAs } from 'file-saver';
+import { EncryptedPDFError, PDFDocument } from 'pdf-lib';
+import { EncryptionInput, parseEncryption, saveEncrypted } from '@/lib/conversion/encryption';
+import EncryptionFields from './EncryptionFields';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB limit
+
+// Add a password and permission restrictions to an existing PDF, in the browser
+export default function ProtectPDF() {
+  const [file, setFile] = useState<File | null>(null);
+  const [isProtecting, setIsProtecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [protectStatus, setProtectStatus] = useState<'idle' | 'success'>('idle');
+  const [outputFileName, setOutputFileName] = useState('');
+  const [encryptionInput, setEncryptionInput] = useState<EncryptionInput>({});
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    setProtectStatus('idle');
+    const selectedFile = e.target.files?.[0];
+    if (!selectedFile) return;
+
+    if (selectedFile.type !== 'application/pdf' && !selectedFile.name.toLowerCase().endsWith('.pdf')) {
+      setError('Only PDF files are supported.');
+      return;
+    }
+    if (selectedFile.size > MAX_FILE_SIZE) {
+      setError(`File size exceeds the ${MAX_FILE_SIZE / (1024 * 1024)}MB limit.`);
+      return;
+    }
+
+    setFile(selectedFile);
+    setOutputFileName(selectedFile.name.replace(/\.pdf$/i, '') + '_protected.pdf');
+  };
+
+  const handleProtect = async () => {
+    if (!file) return;
+
+    const parsed = parseEncryption(encryptionInput);
+    if ('error' in parsed) {
+      setError(parsed.error);
+      return;
+    }
+    const { encryption } = parsed;
+    if (!encryption) {
+      setError('Enter an open password, an owner password or both.');
+      return;
+    }
+
+    setIsProtecting(true);
+    setError(null);
+    setProtectStatus('idle');
+
+    try {
+      let pdfDoc: PDFDocument;
+      try {
+        pdfDoc = await PDFDocument.load(await file.arrayBuffer(), { updateMetadata: false });
+      } catch (loadError) {
+        console.error(`Error loading ${file.name}:`, loadError);
+        throw new Error(loadError instanceof EncryptedPDFError
+          ? `${file.name} is already password-protected.`
+          : `Failed to read ${file.name}. Make sure it's a valid PDF.`);
+      }
+
+      pdfDoc.setModificationDate(new Date());
+      const pdfBytes = await saveEncrypted(pdfDoc, encryption);
+      saveAs(new Blob([pdfBytes], { type: 'application/pdf' }), outputFileName || 'protected.pdf');
+
+      setProtectStatus('success');
+    } catch (error) {
+      console.error('Protect error:', error);
+      setError(error instanceof Error && error.message ? error.message : 'Failed to protect the PDF. Please try again.');
+    } finally {
+      setIsProtecting(false);
+    }
+  };
+
+  return (
+    <div>
+      <fieldset style={{ padding: '8px', marginBottom: '16px' }}>
+        <legend>Protect a PDF</legend>
+
+        <div className="sunken-panel" style={{ padding: '16px', textAlign: 'center', marginBottom: '16px' }}>
+          <div className="field-row" style={{ justifyContent: 'center' }}>
+            <input
+              id="protect-upload"
+              type="file"
+              accept=".pdf,application/pdf"
+              onChange={handleFileChange}
+              style={{ marginBottom: '8px' }}
+            />
+          </div>
+          <p style={{ fontSize: '12px', color: '#666' }}>
+            PDF files only (Max 10MB)
+          </p>
+        </div>
+
+        {error && (
+          <div className="status-bar" style={{ margin: '8px 0', padding: '4px', color: 'red' }}>
+            {error}
+          </div>
+        )}
+
+        {file && (
+          <div>
+            <EncryptionFields idPrefix="protect" value={encryptionInput} onChange={setEncryptionInput} />
+
+            <div className="field-row" style={{ marginBottom: '8px' }}>
+              <label htmlFor="protectedFileName" style={{ minWidth: '100px' }}>Output filename:</label>
+              <input
+                id="protectedFileName"
+                type="text"
+                value={outputFileName}
+                onChange={(e) => setOutputFileName(e.target.value)}
+                style={{ flexGrow: 1 }}
+              />
+            </div>
+
+            <div className="field-row" style={{ justifyContent: 'center', marginTop: '16px' }}>
+              <button
+                onClick={handleProtect}
+                disabled={isProtecting}
+                style={{ minWidth: '120px', padding: '8px' }}
+              >
+                {isProtecting ? 'Protecting...' : 'Protect PDF'}
+              </button>
+            </div>
+
+            {protectStatus === 'success' && (
+              <div className="status-bar" style={{ margin: '8px 0', padding: '4px', color: 'green' }}>
+                PDF protected! Your PDF has been downloaded.
+              </div>
+            )}
+          </div>
+        )}
+      </fieldset>
+    </div>
+  );
+}
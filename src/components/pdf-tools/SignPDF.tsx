@@ -0,0 +1,285 @@
+'use client';
+
+import { useState } from 'react';
+import { saveAs } from 'file-saver';
+import { APPEARANCE_POSITIONS, SignatureInput, Signer, loadSigner, parseSignatureOptions, signPdf } from '@/lib/conversion/sign';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB limit
+
+const POSITION_LABELS: Record<string, string> = {
+  'top-left': 'Top left',
+  'top-right': 'Top right',
+  'bottom-left': 'Bottom left',
+  'bottom-right': 'Bottom right',
+};
+
+// Digitally sign a PDF with a certificate from a .p12/.pfx file, in the browser
+export default function SignPDF() {
+  const [file, setFile] = useState<File | null>(null);
+  const [certificateFile, setCertificateFile] = useState<File | null>(null);
+  const [certificatePassword, setCertificatePassword] = useState('');
+  const [signer, setSigner] = useState<Signer | null>(null);
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [isOpening, setIsOpening] = useState(false);
+  const [isSigning, setIsSigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [signStatus, setSignStatus] = useState<'idle' | 'success'>('idle');
+  const [outputFileName, setOutputFileName] = useState('');
+  const [input, setInput] = useState<SignatureInput>({
+    name: '',
+    reason: '',
+    location: '',
+    visible: 'true',
+    page: '',
+    position: 'bottom-right',
+  });
+
+  const update = (changes: SignatureInput) => setInput(prev => ({ ...prev, ...changes }));
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    setSignStatus('idle');
+    const selectedFile = e.target.files?.[0];
+    if (!selectedFile) return;
+
+    if (selectedFile.type !== 'application/pdf' && !selectedFile.name.toLowerCase().endsWith('.pdf')) {
+      setError('Only PDF files are supported.');
+      return;
+    }
+    if (selectedFile.size > MAX_FILE_SIZE) {
+      setError(`File size exceeds the ${MAX_FILE_SIZE / (1024 * 1024)}MB limit.`);
+      return;
+    }
+
+    setFile(selectedFile);
+    setOutputFileName(selectedFile.name.replace(/\.pdf$/i, '') + '_signed.pdf');
+  };
+
+  const handleCertificateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setCertificateFile(e.target.files?.[0] || null);
+    setSigner(null);
+  };
+
+  const handleOpenCertificate = async () => {
+    if (!certificateFile) return;
+
+    setIsOpening(true);
+    setError(null);
+    try {
+      const result = await loadSigner(new Uint8Array(await certificateFile.arrayBuffer()), certificatePassword);
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+      setSigner(result.signer);
+      if (!input.name) update({ name: result.signer.certificate.subject });
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  const handleSign = async () => {
+    if (!file || !signer) return;
+
+    const imageBytes = imageFile ? new Uint8Array(await imageFile.arrayBuffer()) : null;
+    const parsed = parseSignatureOptions(input, imageBytes);
+    if ('error' in parsed) {
+      setError(parsed.error);
+      return;
+    }
+
+    setIsSigning(true);
+    setError(null);
+    setSignStatus('idle');
+
+    try {
+      const pdfBytes = await signPdf(new Uint8Array(await file.arrayBuffer()), signer, parsed.options);
+      saveAs(new Blob([pdfBytes], { type: 'application/pdf' }), outputFileName || 'signed.pdf');
+
+      setSignStatus('success');
+    } catch (error) {
+      console.error('Sign error:', error);
+      setError(error instanceof Error && error.message ? error.message : 'Failed to sign the PDF. Please try again.');
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  return (
+    <div>
+      <fieldset style={{ padding: '8px', marginBottom: '16px' }}>
+        <legend>Sign a PDF</legend>
+
+        <div className="sunken-panel" style={{ padding: '16px', textAlign: 'center', marginBottom: '16px' }}>
+          <div className="field-row" style={{ justifyContent: 'center' }}>
+            <input
+              id="sign-upload"
+              type="file"
+              accept=".pdf,application/pdf"
+              onChange={handleFileChange}
+              style={{ marginBottom: '8px' }}
+            />
+          </div>
+          <p style={{ fontSize: '12px', color: '#666' }}>
+            PDF files only (Max 10MB)
+          </p>
+        </div>
+
+        {error && (
+          <div className="status-bar" style={{ margin: '8px 0', padding: '4px', color: 'red' }}>
+            {error}
+          </div>
+        )}
+
+        {file && (
+          <div>
+            <fieldset style={{ padding: '8px', marginBottom: '8px' }}>
+              <legend>Certificate</legend>
+              <div className="field-row" style={{ marginBottom: '4px' }}>
+                <label htmlFor="sign-certificate" style={{ minWidth: '100px' }}>File:</label>
+                <input
+                  id="sign-certificate"
+                  type="file"
+                  accept=".p12,.pfx,application/x-pkcs12"
+                  onChange={handleCertificateChange}
+                />
+              </div>
+              <div className="field-row" style={{ marginBottom: '4px' }}>
+                <label htmlFor="sign-certificate-password" style={{ minWidth: '100px' }}>Password:</label>
+                <input
+                  id="sign-certificate-password"
+                  type="password"
+                  autoComplete="off"
+                  value={certificatePassword}
+                  onChange={(e) => {
+                    setCertificatePassword(e.target.value);
+                    setSigner(null);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleOpenCertificate();
+                  }}
+                  style={{ flexGrow: 1 }}
+                />
+                <button onClick={handleOpenCertificate} disabled={!certificateFile || isOpening}>
+                  {isOpening ? 'Opening...' : 'Open'}
+                </button>
+              </div>
+              <div style={{ fontSize: '11px', color: signer ? 'green' : '#666' }}>
+                {signer
+                  ? `Signing as ${signer.certificate.subject || 'the certificate holder'}.`
+                  : 'A .p12 or .pfx file with your certificate and private key. It never leaves your computer.'}
+              </div>
+            </fieldset>
+
+            <div className="field-row" style={{ marginBottom: '8px' }}>
+              <label htmlFor="sign-name" style={{ minWidth: '100px' }}>Name:</label>
+              <input
+                id="sign-name"
+                type="text"
+                value={input.name || ''}
+                placeholder="The name on the certificate"
+                onChange={(e) => update({ name: e.target.value })}
+                style={{ flexGrow: 1 }}
+              />
+            </div>
+            <div className="field-row" style={{ marginBottom: '8px' }}>
+              <label htmlFor="sign-reason" style={{ minWidth: '100px' }}>Reason:</label>
+              <input
+                id="sign-reason"
+                type="text"
+                value={input.reason || ''}
+                placeholder="e.g. I approve this document"
+                onChange={(e) => update({ reason: e.target.value })}
+                style={{ flexGrow: 1 }}
+              />
+            </div>
+            <div className="field-row" style={{ marginBottom: '8px' }}>
+              <label htmlFor="sign-location" style={{ minWidth: '100px' }}>Location:</label>
+              <input
+                id="sign-location"
+                type="text"
+                value={input.location || ''}
+                onChange={(e) => update({ location: e.target.value })}
+                style={{ flexGrow: 1 }}
+              />
+            </div>
+
+            <div className="field-row" style={{ marginBottom: '8px' }}>
+              <input
+                id="sign-visible"
+                type="checkbox"
+                checked={input.visible === 'true'}
+                onChange={(e) => update({ visible: String(e.target.checked) })}
+              />
+              <label htmlFor="sign-visible">Show the signature on a page</label>
+            </div>
+
+            {input.visible === 'true' && (
+              <>
+                <div className="field-row" style={{ marginBottom: '8px' }}>
+                  <label htmlFor="sign-page" style={{ minWidth: '100px' }}>Page:</label>
+                  <input
+                    id="sign-page"
+                    type="number"
+                    min={1}
+                    value={input.page || ''}
+                    placeholder="Last"
+                    onChange={(e) => update({ page: e.target.value })}
+                    style={{ width: '60px' }}
+                  />
+                  <label htmlFor="sign-position" style={{ marginLeft: '8px' }}>Position:</label>
+                  <select
+                    id="sign-position"
+                    value={input.position}
+                    onChange={(e) => update({ position: e.target.value })}
+                  >
+                    {APPEARANCE_POSITIONS.map(position => (
+                      <option key={position} value={position}>{POSITION_LABELS[position]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="field-row" style={{ marginBottom: '8px' }}>
+                  <label htmlFor="sign-image" style={{ minWidth: '100px' }}>Image:</label>
+                  <input
+                    id="sign-image"
+                    type="file"
+                    accept=".png,.jpg,.jpeg,image/png,image/jpeg"
+                    onChange={(e) => setImageFile(e.target.files?.[0] || null)}
+                  />
+                  <span style={{ fontSize: '11px', color: '#666' }}>Optional, e.g. a handwritten signature</span>
+                </div>
+              </>
+            )}
+
+            <div className="field-row" style={{ marginBottom: '8px' }}>
+              <label htmlFor="signedFileName" style={{ minWidth: '100px' }}>Output filename:</label>
+              <input
+                id="signedFileName"
+                type="text"
+                value={outputFileName}
+                onChange={(e) => setOutputFileName(e.target.value)}
+                style={{ flexGrow: 1 }}
+              />
+            </div>
+
+            <div className="field-row" style={{ justifyContent: 'center', marginTop: '16px' }}>
+              <button
+                onClick={handleSign}
+                disabled={isSigning || !signer}
+                style={{ minWidth: '120px', padding: '8px' }}
+              >
+                {isSigning ? 'Signing...' : 'Sign PDF'}
+              </button>
+            </div>
+
+            {signStatus === 'success' && (
+              <div className="status-bar" style={{ margin: '8px 0', padding: '4px', color: 'green' }}>
+                PDF signed! Your PDF has been downloaded.
+              </div>
+            )}
+          </div>
+        )}
+      </fieldset>
+    </div>
+  );
+}
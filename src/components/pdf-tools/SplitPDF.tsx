@@ -0,0 +1,211 @@
+'use client';
+
+import { useState } from 'react';
+import { saveAs } from 'file-saver';
+import { PDFDocument } from 'pdf-lib';
+import { SplitInput, SplitMode, parseSplit, splitPdf, zipParts } from '@/lib/conversion/split';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB limit
+
+const MODES: { mode: SplitMode; label: string }[] = [
+  { mode: 'ranges', label: 'By page ranges' },
+  { mode: 'every', label: 'Every N pages' },
+  { mode: 'pages', label: 'One file per page' },
+  { mode: 'bookmarks', label: 'By top-level bookmarks' },
+  { mode: 'size', label: 'By maximum file size' },
+];
+
+// What was put in the ZIP, shown once the split is done
+type PartSummary = { name: string; pageCount: number; size: number };
+
+// Split a PDF into several in the browser and download them as a ZIP
+export default function SplitPDF() {
+  const [file, setFile] = useState<File | null>(null);
+  const [isSplitting, setIsSplitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [input, setInput] = useState<SplitInput>({ mode: 'ranges', ranges: '', every: '1', maxSize: '5' });
+  const [parts, setParts] = useState<PartSummary[]>([]);
+  const [sizeLimit, setSizeLimit] = useState<number | null>(null);
+
+  const update = (changes: SplitInput) => setInput(prev => ({ ...prev, ...changes }));
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    setParts([]);
+    const selectedFile = e.target.files?.[0];
+    if (!selectedFile) return;
+
+    if (selectedFile.type !== 'application/pdf' && !selectedFile.name.toLowerCase().endsWith('.pdf')) {
+      setError('Only PDF files are supported.');
+      return;
+    }
+    if (selectedFile.size > MAX_FILE_SIZE) {
+      setError(`File size exceeds the ${MAX_FILE_SIZE / (1024 * 1024)}MB limit.`);
+      return;
+    }
+
+    setFile(selectedFile);
+  };
+
+  const handleSplit = async () => {
+    if (!file) return;
+
+    const parsed = parseSplit(input);
+    if ('error' in parsed) {
+      setError(parsed.error);
+      return;
+    }
+    const { plan } = parsed;
+
+    setIsSplitting(true);
+    setError(null);
+    setParts([]);
+
+    try {
+      let pdfDoc: PDFDocument;
+      try {
+        pdfDoc = await PDFDocument.load(await file.arrayBuffer());
+      } catch (loadError) {
+        console.error(`Error loading ${file.name}:`, loadError);
+        throw new Error(`Failed to read ${file.name}. Make sure it's a valid PDF that is not password protected.`);
+      }
+
+      const result = await splitPdf(pdfDoc, plan, file.name);
+      if ('error' in result) throw new Error(result.error);
+
+      const zipBytes = await zipParts(result.parts);
+      saveAs(new Blob([zipBytes], { type: 'application/zip' }), file.name.replace(/\.pdf$/i, '') + '_split.zip');
+
+      setParts(result.parts.map(part => ({ name: part.name, pageCount: part.pages.length, size: part.bytes.length })));
+      setSizeLimit(plan.mode === 'size' ? plan.maxBytes : null);
+    } catch (error) {
+      console.error('Split error:', error);
+      setError(error instanceof Error && error.message ? error.message : 'Failed to split the PDF. Please try again.');
+    } finally {
+      setIsSplitting(false);
+    }
+  };
+
+  // Format file size for display
+  const formatFileSize = (bytes: number): string => {
+    if (bytes < 1024) return bytes + ' bytes';
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+  };
+
+  return (
+    <div>
+      <fieldset style={{ padding: '8px', marginBottom: '16px' }}>
+        <legend>Split a PDF</legend>
+
+        <div className="sunken-panel" style={{ padding: '16px', textAlign: 'center', marginBottom: '16px' }}>
+          <div className="field-row" style={{ justifyContent: 'center' }}>
+            <input
+              id="split-upload"
+              type="file"
+              accept=".pdf,application/pdf"
+              onChange={handleFileChange}
+              style={{ marginBottom: '8px' }}
+            />
+          </div>
+          <p style={{ fontSize: '12px', color: '#666' }}>
+            PDF files only (Max 10MB)
+          </p>
+        </div>
+
+        {error && (
+          <div className="status-bar" style={{ margin: '8px 0', padding: '4px', color: 'red' }}>
+            {error}
+          </div>
+        )}
+
+        {file && (
+          <div>
+            {MODES.map(({ mode, label }) => (
+              <div key={mode} className="field-row" style={{ marginBottom: '4px' }}>
+                <input
+                  id={`split-mode-${mode}`}
+                  type="radio"
+                  name="split-mode"
+                  checked={input.mode === mode}
+                  onChange={() => update({ mode })}
+                />
+                <label htmlFor={`split-mode-${mode}`} style={{ minWidth: '180px' }}>{label}</label>
+                {mode === 'ranges' && input.mode === 'ranges' && (
+                  <input
+                    type="text"
+                    aria-label="Page ranges"
+                    value={input.ranges}
+                    placeholder="e.g. 1-3, 5, 8-"
+                    onChange={(e) => update({ ranges: e.target.value })}
+                    style={{ flexGrow: 1 }}
+                  />
+                )}
+                {mode === 'every' && input.mode === 'every' && (
+                  <input
+                    type="number"
+                    aria-label="Pages per file"
+                    min={1}
+                    value={input.every}
+                    onChange={(e) => update({ every: e.target.value })}
+                    style={{ width: '60px' }}
+                  />
+                )}
+                {mode === 'size' && input.mode === 'size' && (
+                  <>
+                    <input
+                      type="number"
+                      aria-label="Maximum file size in MB"
+                      min={0.1}
+                      step={0.1}
+                      value={input.maxSize}
+                      onChange={(e) => update({ maxSize: e.target.value })}
+                      style={{ width: '60px' }}
+                    />
+                    <span>MB</span>
+                  </>
+                )}
+              </div>
+            ))}
+
+            {input.mode === 'ranges' && (
+              <div style={{ fontSize: '12px', color: '#666', margin: '8px 0' }}>
+                Each comma-separated range becomes its own file.
+              </div>
+            )}
+
+            <div className="field-row" style={{ justifyContent: 'center', marginTop: '16px' }}>
+              <button
+                onClick={handleSplit}
+                disabled={isSplitting}
+                style={{ minWidth: '120px', padding: '8px' }}
+              >
+                {isSplitting ? 'Splitting...' : 'Split PDF'}
+              </button>
+            </div>
+
+            {parts.length > 0 && (
+              <>
+                <div className="status-bar" style={{ margin: '8px 0', padding: '4px', color: 'green' }}>
+                  Split into {parts.length} {parts.length === 1 ? 'file' : 'files'}! Your ZIP has been downloaded.
+                </div>
+                <div className="sunken-panel" style={{ maxHeight: '200px', overflow: 'auto' }}>
+                  <ul className="tree-view">
+                    {parts.map(part => (
+                      <li key={part.name} style={{ padding: '2px 8px', fontSize: '12px' }}>
+                        {part.name} ({part.pageCount} {part.pageCount === 1 ? 'page' : 'pages'}, {formatFileSize(part.size)})
+                        {sizeLimit !== null && part.size > sizeLimit && (
+                          <span style={{ color: 'red' }}> over the limit: this page is larger on its own</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </fieldset>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import { SignatureCheck, verifySignatures } from '@/lib/conversion/verify';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB limit
+
+// Check whether the digital signatures in a PDF are intact, in the browser
+export default function VerifySignatures() {
+  const [file, setFile] = useState<File | null>(null);
+  const [checks, setChecks] = useState<SignatureCheck[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    setChecks(null);
+    const selectedFile = e.target.files?.[0];
+    if (!selectedFile) return;
+
+    if (selectedFile.type !== 'application/pdf' && !selectedFile.name.toLowerCase().endsWith('.pdf')) {
+      setError('Only PDF files are supported.');
+      return;
+    }
+    if (selectedFile.size > MAX_FILE_SIZE) {
+      setError(`File size exceeds the ${MAX_FILE_SIZE / (1024 * 1024)}MB limit.`);
+      return;
+    }
+
+    setFile(selectedFile);
+    setIsChecking(true);
+    try {
+      setChecks(await verifySignatures(new Uint8Array(await selectedFile.arrayBuffer())));
+    } catch (error) {
+      console.error(`Error checking signatures in ${selectedFile.name}:`, error);
+      setError(`Failed to read ${selectedFile.name}. Make sure it's a valid PDF.`);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div>
+      <fieldset style={{ padding: '8px', marginBottom: '16px' }}>
+        <legend>Verify the signatures in a PDF</legend>
+
+        <div className="sunken-panel" style={{ padding: '16px', textAlign: 'center', marginBottom: '16px' }}>
+          <div className="field-row" style={{ justifyContent: 'center' }}>
+            <input
+              id="verify-upload"
+              type="file"
+              accept=".pdf,application/pdf"
+              onChange={handleFileChange}
+              style={{ marginBottom: '8px' }}
+            />
+          </div>
+          <p style={{ fontSize: '12px', color: '#666' }}>
+            PDF files only (Max 10MB)
+          </p>
+        </div>
+
+        {error && (
+          <div className="status-bar" style={{ margin: '8px 0', padding: '4px', color: 'red' }}>
+            {error}
+          </div>
+        )}
+
+        {isChecking && <p>Checking signatures...</p>}
+
+        {file && checks && (
+          <div>
+            {checks.length === 0 ? (
+              <p>{file.name} has no digital signatures.</p>
+            ) : (
+              <div className="sunken-panel" style={{ padding: '8px', marginBottom: '8px' }}>
+                {checks.map((check, index) => (
+                  <div key={index} style={{ padding: '4px 0', borderBottom: index < checks.length - 1 ? '1px solid #ccc' : 'none' }}>
+                    <div style={{ fontWeight: 'bold' }}>
+                      {check.field || `Signature ${index + 1}`}: {check.signer || 'Unknown signer'}
+                    </div>
+                    {check.signedAt && (
+                      <div style={{ fontSize: '12px' }}>Signed {check.signedAt.toLocaleString()}</div>
+                    )}
+                    {check.reason && <div style={{ fontSize: '12px' }}>Reason: {check.reason}</div>}
+                    {check.location && <div style={{ fontSize: '12px' }}>Location: {check.location}</div>}
+                    <div style={{ fontSize: '12px', color: check.intact ? 'green' : 'red' }}>
+                      {check.intact ? 'Intact: the signed content has not been changed.' : `Not valid: ${check.problem}`}
+                    </div>
+                    {check.intact && !check.coversDocument && (
+                      <div style={{ fontSize: '12px', color: '#666' }}>
+                        Changes were added to the file after this signature, such as later signatures or form entries.
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            <div style={{ fontSize: '11px', color: '#666' }}>
+              This checks that each signature matches its certificate and the content it signed. It does not check
+              that the certificate was issued by an authority you trust.
+            </div>
+          </div>
+        )}
+      </fieldset>
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+'use client';
+
+import { useState } from 'react';
+import { PDFDocument } from 'pdf-lib';
+import { selectPages } from '@/lib/conversion/page-ranges';
+import { WATERMARK_POSITIONS, WatermarkInput, parseWatermark, watermarkPdf } from '@/lib/conversion/watermark';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB limit
+
+type WatermarkKind = 'text' | 'image';
+
+const POSITION_LABELS: Record<string, string> = {
+  'top-left': 'Top left',
+  'top': 'Top',
+  'top-right': 'Top right',
+  'left': 'Left',
+  'center': 'Center',
+  'right': 'Right',
+  'bottom-left': 'Bottom left',
+  'bottom': 'Bottom',
+  'bottom-right': 'Bottom right',
+};
+
+// Stamp a text or image watermark onto chosen pages of an existing PDF, in the browser
+export default function WatermarkPDF() {
+  const [file, setFile] = useState<File | null>(null);
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [kind, setKind] = useState<WatermarkKind>('text');
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [watermarkStatus, setWatermarkStatus] = useState<'idle' | 'success'>('idle');
+  const [outputFileName, setOutputFileName] = useState('');
+  const [input, setInput] = useState<WatermarkInput>({
+    text: 'CONFIDENTIAL',
+    font: 'helvetica',
+    fontSize: '48',
+    color: '#808080',
+    opacity: '30',
+    rotation: '45',
+    position: 'center',
+    tile: 'false',
+    layer: 'over',
+    imageScale: '50',
+    pages: '',
+  });
+
+  const update = (changes: WatermarkInput) => setInput(prev => ({ ...prev, ...changes }));
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    setWatermarkStatus('idle');
+    const selectedFile = e.target.files?.[0];
+    if (!selectedFile) return;
+
+    if (selectedFile.type !== 'application/pdf' && !selectedFile.name.toLowerCase().endsWith('.pdf')) {
+      setError('Only PDF files are supported.');
+      return;
+    }
+    if (selectedFile.size > MAX_FILE_SIZE) {
+      setError(`File size exceeds the ${MAX_FILE_SIZE / (1024 * 1024)}MB limit.`);
+      return;
+    }
+
+    setFile(selectedFile);
+    setOutputFileName(selectedFile.name.replace(/\.pdf$/i, '') + '_watermarked.pdf');
+  };
+
+  const handleApply = async () => {
+    if (!file) return;
+
+    const imageBytes = kind === 'image' && imageFile ? new Uint8Array(await imageFile.arrayBuffer()) : null;
+    const parsed = parseWatermark({ ...input, text: kind === 'text' ? input.text : '' }, imageBytes);
+    if ('error' in parsed) {
+      setError(parsed.error);
+      return;
+    }
+    const { watermark } = parsed;
+
+    setIsApplying(true);
+    setError(null);
+    setWatermarkStatus('idle');
+
+    try {
+      let pdfDoc: PDFDocument;
+      try {
+        pdfDoc = await PDFDocument.load(await file.arrayBuffer(), { updateMetadata: false });
+      } catch (loadError) {
+        console.error(`Error loading ${file.name}:`, loadError);
+        throw new Error(`Failed to read ${file.name}. Make sure it's a valid PDF that is not password protected.`);
+      }
+
+      const selection = selectPages(watermark.pages, pdfDoc.getPageCount());
+      if ('error' in selection) throw new Error(selection.error);
+
+      await watermarkPdf(pdfDoc, watermark, selection.pages);
+      pdfDoc.setModificationDate(new Date());
+      const pdfBytes = await pdfDoc.save();
+
+      const url = URL.createObjectURL(new Blob([pdfBytes], { type: 'application/pdf' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = outputFileName || 'watermarked.pdf';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => {
+        URL.revokeObjectURL(url);
+      }, 100);
+
+      setWatermarkStatus('success');
+    } catch (error) {
+      console.error('Watermark error:', error);
+      setError(error instanceof Error && error.message ? error.message : 'Failed to watermark the PDF. Please try again.');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div>
+      <fieldset style={{ padding: '8px', marginBottom: '16px' }}>
+        <legend>Watermark a PDF</legend>
+
+        <div className="sunken-panel" style={{ padding: '16px', textAlign: 'center', marginBottom: '16px' }}>
+          <div className="field-row" style={{ justifyContent: 'center' }}>
+            <input
+              id="watermark-upload"
+              type="file"
+              accept=".pdf,application/pdf"
+              onChange={handleFileChange}
+              style={{ marginBottom: '8px' }}
+            />
+          </div>
+          <p style={{ fontSize: '12px', color: '#666' }}>
+            PDF files only (Max 10MB)
+          </p>
+        </div>
+
+        {error && (
+          <div className="status-bar" style={{ margin: '8px 0', padding: '4px', color: 'red' }}>
+            {error}
+          </div>
+        )}
+
+        {file && (
+          <div>
+            <div className="field-row" style={{ marginBottom: '8px' }}>
+              <input
+                id="watermark-kind-text"
+                type="radio"
+                name="watermark-kind"
+                checked={kind === 'text'}
+                onChange={() => setKind('text')}
+              />
+              <label htmlFor="watermark-kind-text">Text</label>
+              <input
+                id="watermark-kind-image"
+                type="radio"
+                name="watermark-kind"
+                checked={kind === 'image'}
+                onChange={() => setKind('image')}
+              />
+              <label htmlFor="watermark-kind-image">Image</label>
+            </div>
+
+            {kind === 'text' ? (
+              <>
+                <div className="field-row" style={{ marginBottom: '8px' }}>
+                  <label htmlFor="watermark-text" style={{ minWidth: '100px' }}>Text:</label>
+                  <input
+                    id="watermark-text"
+                    type="text"
+                    value={input.text || ''}
+                    onChange={(e) => update({ text: e.target.value })}
+                    style={{ flexGrow: 1 }}
+                  />
+                </div>
+                <div className="field-row" style={{ marginBottom: '8px' }}>
+                  <label htmlFor="watermark-font" style={{ minWidth: '100px' }}>Font:</label>
+                  <select
+                    id="watermark-font"
+                    value={input.font}
+                    onChange={(e) => update({ font: e.target.value })}
+                  >
+                    <option value="helvetica">Helvetica</option>
+                    <option value="times">Times</option>
+                    <option value="courier">Courier</option>
+                  </select>
+                  <label htmlFor="watermark-size" style={{ marginLeft: '8px' }}>Size:</label>
+                  <input
+                    id="watermark-size"
+                    type="number"
+                    min={8}
+                    max={200}
+                    value={input.fontSize}
+                    onChange={(e) => update({ fontSize: e.target.value })}
+                    style={{ width: '60px' }}
+                  />
+                  <label htmlFor="watermark-color" style={{ marginLeft: '8px' }}>Color:</label>
+                  <input
+                    id="watermark-color"
+                    type="color"
+                    value={input.color}
+                    onChange={(e) => update({ color: e.target.value })}
+                  />
+                </div>
+              </>
+            ) : (
+              <div className="field-row" style={{ marginBottom: '8px' }}>
+                <label htmlFor="watermark-image" style={{ minWidth: '100px' }}>Image:</label>
+                <input
+                  id="watermark-image"
+                  type="file"
+                  accept=".png,.jpg,.jpeg,image/png,image/jpeg"
+                  onChange={(e) => setImageFile(e.target.files?.[0] || null)}
+                />
+                <label htmlFor="watermark-scale" style={{ marginLeft: '8px' }}>Width (% of page):</label>
+                <input
+                  id="watermark-scale"
+                  type="number"
+                  min={5}
+                  max={100}
+                  value={input.imageScale}
+                  onChange={(e) => update({ imageScale: e.target.value })}
+                  style={{ width: '60px' }}
+                />
+              </div>
+            )}
+
+            <div className="field-row" style={{ marginBottom: '8px' }}>
+              <label htmlFor="watermark-opacity" style={{ minWidth: '100px' }}>Opacity: {input.opacity}%</label>
+              <input
+                id="watermark-opacity"
+                type="range"
+                min={1}
+                max={100}
+                value={input.opacity}
+                onChange={(e) => update({ opacity: e.target.value })}
+                style={{ flexGrow: 1 }}
+              />
+            </div>
+
+            <div className="field-row" style={{ marginBottom: '8px' }}>
+              <label htmlFor="watermark-rotation" style={{ minWidth: '100px' }}>Rotation:</label>
+              <input
+                id="watermark-rotation"
+                type="number"
+                min={-180}
+                max={180}
+                value={input.rotation}
+                onChange={(e) => update({ rotation: e.target.value })}
+                style={{ width: '60px' }}
+              />
+              <span>degrees</span>
+              <label htmlFor="watermark-position" style={{ marginLeft: '8px' }}>Position:</label>
+              <select
+                id="watermark-position"
+                value={input.position}
+                disabled={input.tile === 'true'}
+                onChange={(e) => update({ position: e.target.value })}
+              >
+                {WATERMARK_POSITIONS.map(position => (
+                  <option key={position} value={position}>{POSITION_LABELS[position]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="field-row" style={{ marginBottom: '8px' }}>
+              <input
+                id="watermark-tile"
+                type="checkbox"
+                checked={input.tile === 'true'}
+                onChange={(e) => update({ tile: String(e.target.checked) })}
+              />
+              <label htmlFor="watermark-tile">Repeat across the page</label>
+              <label htmlFor="watermark-layer" style={{ marginLeft: '8px' }}>Layer:</label>
+              <select
+                id="watermark-layer"
+                value={input.layer}
+                onChange={(e) => update({ layer: e.target.value })}
+              >
+                <option value="over">Over the content</option>
+                <option value="behind">Behind the content</option>
+              </select>
+            </div>
+
+            <div className="field-row" style={{ marginBottom: '8px' }}>
+              <label htmlFor="watermark-pages" style={{ minWidth: '100px' }}>Pages:</label>
+              <input
+                id="watermark-pages"
+                type="text"
+                value={input.pages || ''}
+                placeholder="All pages, or e.g. 1-3, 5, 8-"
+                onChange={(e) => update({ pages: e.target.value })}
+                style={{ flexGrow: 1 }}
+              />
+            </div>
+
+            <div className="field-row" style={{ marginBottom: '8px' }}>
+              <label htmlFor="watermarkedFileName" style={{ minWidth: '100px' }}>Output filename:</label>
+              <input
+                id="watermarkedFileName"
+                type="text"
+                value={outputFileName}
+                onChange={(e) => setOutputFileName(e.target.value)}
+                style={{ flexGrow: 1 }}
+              />
+            </div>
+
+            <div className="field-row" style={{ justifyContent: 'center', marginTop: '16px' }}>
+              <button
+                onClick={handleApply}
+                disabled={isApplying}
+                style={{ minWidth: '120px', padding: '8px' }}
+              >
+                {isApplying ? 'Applying...' : 'Apply Watermark'}
+              </button>
+            </div>
+
+            {watermarkStatus === 'success' && (
+              <div className="status-bar" style={{ margin: '8px 0', padding: '4px', color: 'green' }}>
+                Watermark applied! Your PDF has been downloaded.
+              </div>
+            )}
+          </div>
+        )}
+      </fieldset>
+    </div>
+  );
+}
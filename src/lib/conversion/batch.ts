@@ -0,0 +1,127 @@
+import { readFile, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import JSZip from 'jszip';
+import { PDFDocument } from 'pdf-lib';
+import { v4 as uuidv4 } from 'uuid';
+import { ConversionOptions, ConversionStage, TEMP_DIR, convertFile, fileExtension, uploadError } from './convert';
+import type { JobFile } from './jobs';
+import { ConversionLimitError, MAX_PAGES } from './limits';
+import { applyMetadata } from './metadata';
+import { contentError } from './sniff';
+
+export type BatchOutput = 'zip' | 'merged';
+
+export const BATCH_OUTPUTS: BatchOutput[] = ['zip', 'merged'];
+
+// One line of the batch manifest, in upload order
+export interface BatchEntry {
+  name: string;
+  status: 'converted' | 'failed';
+  pages?: number;
+  output?: string; // file name inside the ZIP
+  firstPage?: number; // where the file starts in a merged PDF
+  error?: string;
+}
+
+// Convert every file on its own so one bad file only fails its own manifest entry.
+// Returns the manifest; outputPath is only written when at least one file converted.
+export async function convertBatch(
+  files: File[],
+  output: BatchOutput,
+  options: ConversionOptions,
+  outputPath: string,
+  onStage: (stage: ConversionStage, file: JobFile) => void = () => undefined
+): Promise<BatchEntry[]> {
+  const manifest: BatchEntry[] = [];
+  const zip = new JSZip();
+  const merged = await PDFDocument.create();
+  const usedNames: string[] = [];
+
+  // A given title names the merged PDF; the PDFs in a ZIP keep their own file names as titles
+  const fileOptions: ConversionOptions = { ...options, metadata: { ...options.metadata, title: undefined } };
+
+  for (let index = 0; index < files.length; index++) {
+    const file = files[index];
+    const current: JobFile = { name: file.name, number: index + 1, count: files.length };
+    onStage('reading', current);
+    const bytes = Buffer.from(await file.arrayBuffer());
+    const error = uploadError(file) || await contentError(bytes, fileExtension(file.name));
+    if (error) {
+      manifest.push({ name: file.name, status: 'failed', error });
+      continue;
+    }
+
+    let pdfBytes: Uint8Array;
+    try {
+      pdfBytes = await convertOne(file.name, bytes, { ...fileOptions, onStage: stage => onStage(stage, current) });
+    } catch (error) {
+      console.error(`Error converting ${file.name} in batch:`, error);
+      const reason = error instanceof ConversionLimitError ? error.message : 'The file could not be converted';
+      manifest.push({ name: file.name, status: 'failed', error: reason });
+      continue;
+    }
+
+    const pdfDoc = await PDFDocument.load(pdfBytes);
+    const entry: BatchEntry = { name: file.name, status: 'converted', pages: pdfDoc.getPageCount() };
+    // The merged PDF is held to the same page limit as a single conversion
+    if (output === 'merged' && merged.getPageCount() + pdfDoc.getPageCount() > MAX_PAGES) {
+      manifest.push({
+        name: file.name,
+        status: 'failed',
+        pages: pdfDoc.getPageCount(),
+        error: `Adding it would give the merged PDF more than ${MAX_PAGES} pages`,
+      });
+      continue;
+    }
+    if (output === 'zip') {
+      entry.output = uniqueName(`${baseName(file.name)}.pdf`, usedNames);
+      zip.file(entry.output, pdfBytes);
+    } else {
+      entry.firstPage = merged.getPageCount() + 1;
+      const pages = await merged.copyPages(pdfDoc, pdfDoc.getPageIndices());
+      pages.forEach(page => merged.addPage(page));
+    }
+    manifest.push(entry);
+  }
+
+  if (manifest.some(entry => entry.status === 'converted')) {
+    if (output === 'zip') {
+      zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+      await writeFile(outputPath, await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }));
+    } else {
+      applyMetadata(merged, options.metadata || {}, 'Converted documents');
+      await writeFile(outputPath, await merged.save());
+    }
+  }
+  return manifest;
+}
+
+// Convert through the temp directory like a single upload, removing the intermediate files afterwards
+async function convertOne(fileName: string, bytes: Buffer, options: ConversionOptions): Promise<Uint8Array> {
+  const id = uuidv4();
+  const extension = fileExtension(fileName);
+  const inputPath = join(TEMP_DIR, `${id}.${extension}`);
+  const outputPath = join(TEMP_DIR, `${id}.pdf`);
+  try {
+    await writeFile(inputPath, bytes);
+    await convertFile(inputPath, outputPath, extension, fileName, options);
+    return await readFile(outputPath);
+  } finally {
+    await Promise.all([inputPath, outputPath].map(path => unlink(path).catch(() => undefined)));
+  }
+}
+
+// Only the last path segment of an upload's name is used, so entries cannot point outside the archive
+function baseName(fileName: string): string {
+  return fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]*$/, '') || 'document';
+}
+
+// Two uploads called report.docx and report.txt must not overwrite each other in the ZIP
+function uniqueName(name: string, usedNames: string[]): string {
+  let candidate = name;
+  for (let copy = 2; usedNames.indexOf(candidate.toLowerCase()) !== -1; copy++) {
+    candidate = name.replace(/\.pdf$/, ` (${copy}).pdf`);
+  }
+  usedNames.push(candidate.toLowerCase());
+  return candidate;
+}
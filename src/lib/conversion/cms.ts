@@ -0,0 +1,231 @@
+// The CMS (PKCS#7) and X.509 structures behind PDF signatures, shared by signing and verification.
+// They are read and written as DER directly, so certificates and signed attributes keep their
+// exact bytes and the keys can be handed to Web Crypto.
+
+export const OIDS = {
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingTime: '1.2.840.113549.1.9.5',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  sha256WithRsa: '1.2.840.113549.1.1.11',
+  ecPublicKey: '1.2.840.10045.2.1',
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+  commonName: '2.5.4.3',
+  organization: '2.5.4.10',
+};
+
+// Digest algorithms by OID, as Web Crypto names them
+export const DIGESTS: Record<string, string> = {
+  '1.3.14.3.2.26': 'SHA-1',
+  '2.16.840.1.101.3.4.2.1': 'SHA-256',
+  '2.16.840.1.101.3.4.2.2': 'SHA-384',
+  '2.16.840.1.101.3.4.2.3': 'SHA-512',
+};
+
+const CURVES: Record<string, string> = {
+  '1.2.840.10045.3.1.7': 'P-256',
+  '1.3.132.0.34': 'P-384',
+  '1.3.132.0.35': 'P-521',
+};
+
+const CURVE_SIZES: Record<string, number> = { 'P-256': 32, 'P-384': 48, 'P-521': 66 };
+
+export type KeyAlgorithm = { name: 'RSASSA-PKCS1-v1_5' } | { name: 'ECDSA'; namedCurve: string };
+
+export interface Certificate {
+  der: Uint8Array;
+  issuer: Uint8Array; // the issuer's Name, as DER
+  serialNumber: Uint8Array; // the serial number INTEGER, as DER
+  subject: string; // the common name, or the organization without one
+  publicKey: Uint8Array; // SubjectPublicKeyInfo, as DER
+  keyAlgorithm: KeyAlgorithm | null; // null for keys Web Crypto cannot use
+}
+
+// A DER element: where it starts, where its contents lie and where it ends. BER's indefinite
+// lengths, which some signers still write, end after an end-of-contents marker.
+export interface DerElement {
+  tag: number;
+  start: number;
+  contentStart: number;
+  contentEnd: number;
+  end: number;
+}
+
+export function readDer(bytes: Uint8Array, offset: number): DerElement {
+  if (offset + 2 > bytes.length) throw new Error('DER element runs past the end');
+  const tag = bytes[offset];
+  if ((tag & 0x1f) === 0x1f) throw new Error('Multi-byte DER tags are not supported');
+  let position = offset + 1;
+  const first = bytes[position++];
+  if (first === 0x80) {
+    let child = position;
+    while (bytes[child] !== 0 || bytes[child + 1] !== 0) {
+      if (child + 2 > bytes.length) throw new Error('DER element runs past the end');
+      child = readDer(bytes, child).end;
+    }
+    return { tag, start: offset, contentStart: position, contentEnd: child, end: child + 2 };
+  }
+  let length = first;
+  if (first & 0x80) {
+    const count = first & 0x7f;
+    if (count > 4) throw new Error('DER length is too long');
+    length = 0;
+    for (let i = 0; i < count; i++) length = length * 256 + bytes[position++];
+  }
+  if (position + length > bytes.length) throw new Error('DER element runs past the end');
+  return { tag, start: offset, contentStart: position, contentEnd: position + length, end: position + length };
+}
+
+export function derChildren(bytes: Uint8Array, element: DerElement): DerElement[] {
+  const children: DerElement[] = [];
+  for (let offset = element.contentStart; offset < element.contentEnd; ) {
+    const child = readDer(bytes, offset);
+    children.push(child);
+    offset = child.end;
+  }
+  return children;
+}
+
+export function derContents(bytes: Uint8Array, element: DerElement): Uint8Array {
+  return bytes.subarray(element.contentStart, element.contentEnd);
+}
+
+export function derBytes(bytes: Uint8Array, element: DerElement): Uint8Array {
+  return bytes.subarray(element.start, element.end);
+}
+
+export function readOid(bytes: Uint8Array, element: DerElement): string {
+  const contents = derContents(bytes, element);
+  const arcs: number[] = [];
+  let value = 0;
+  for (let i = 0; i < contents.length; i++) {
+    value = value * 128 + (contents[i] & 0x7f);
+    if (contents[i] & 0x80) continue;
+    if (arcs.length === 0) arcs.push(value < 80 ? Math.floor(value / 40) : 2, value < 80 ? value % 40 : value - 80);
+    else arcs.push(value);
+    value = 0;
+  }
+  return arcs.join('.');
+}
+
+// Encode a DER element from its tag and contents
+export function der(tag: number, ...contents: Uint8Array[]): Uint8Array {
+  const body = concat(...contents);
+  const length: number[] = [];
+  for (let remaining = body.length; remaining > 0; remaining = Math.floor(remaining / 256)) length.unshift(remaining & 0xff);
+  const header = body.length < 0x80 ? [tag, body.length] : [tag, 0x80 | length.length].concat(length);
+  return concat(new Uint8Array(header), body);
+}
+
+export function derOid(oid: string): Uint8Array {
+  const arcs = oid.split('.').map(Number);
+  const bytes: number[] = [];
+  [arcs[0] * 40 + arcs[1]].concat(arcs.slice(2)).forEach(arc => {
+    const base128 = [arc & 0x7f];
+    for (let rest = Math.floor(arc / 128); rest > 0; rest = Math.floor(rest / 128)) base128.unshift((rest & 0x7f) | 0x80);
+    bytes.push(...base128);
+  });
+  return der(0x06, new Uint8Array(bytes));
+}
+
+export function derInteger(value: number): Uint8Array {
+  return der(0x02, new Uint8Array([value]));
+}
+
+export const DER_NULL = new Uint8Array([0x05, 0x00]);
+
+// The AlgorithmIdentifier of a key: RSA, or an elliptic curve Web Crypto supports
+export function readKeyAlgorithm(bytes: Uint8Array, algorithm: DerElement): KeyAlgorithm | null {
+  const [oid, parameters] = derChildren(bytes, algorithm);
+  const name = readOid(bytes, oid);
+  if (name === OIDS.rsaEncryption) return { name: 'RSASSA-PKCS1-v1_5' };
+  if (name === OIDS.ecPublicKey && parameters && parameters.tag === 0x06) {
+    const namedCurve = CURVES[readOid(bytes, parameters)];
+    if (namedCurve) return { name: 'ECDSA', namedCurve };
+  }
+  return null;
+}
+
+export function readCertificate(certificate: Uint8Array): Certificate {
+  const der = certificate.subarray(0, readDer(certificate, 0).end);
+  const [tbs] = derChildren(der, readDer(der, 0));
+  let fields = derChildren(der, tbs);
+  if (fields[0].tag === 0xa0) fields = fields.slice(1); // the version is left out for version 1
+  const [serialNumber, , issuer, , subject, publicKey] = fields;
+  return {
+    der,
+    issuer: derBytes(der, issuer),
+    serialNumber: derBytes(der, serialNumber),
+    subject: nameOf(der, subject),
+    publicKey: derBytes(der, publicKey),
+    keyAlgorithm: readKeyAlgorithm(der, derChildren(der, publicKey)[0]),
+  };
+}
+
+// Web Crypto signs ECDSA as r and s side by side; CMS has them as a DER sequence of two integers
+export function ecdsaToDer(signature: Uint8Array): Uint8Array {
+  const half = signature.length / 2;
+  const integer = (part: Uint8Array) => {
+    let start = 0;
+    while (start < part.length - 1 && part[start] === 0) start++;
+    const value = part.subarray(start);
+    return der(0x02, value[0] & 0x80 ? concat(new Uint8Array([0]), value) : value);
+  };
+  return der(0x30, integer(signature.subarray(0, half)), integer(signature.subarray(half)));
+}
+
+export function ecdsaFromDer(signature: Uint8Array, namedCurve: string): Uint8Array {
+  const size = CURVE_SIZES[namedCurve];
+  const fit = (element: DerElement) => {
+    let value = derContents(signature, element);
+    while (value.length > size && value[0] === 0) value = value.subarray(1);
+    const fitted = new Uint8Array(size);
+    fitted.set(value.subarray(Math.max(0, value.length - size)), Math.max(0, size - value.length));
+    return fitted;
+  };
+  const [r, s] = derChildren(signature, readDer(signature, 0));
+  return concat(fit(r), fit(s));
+}
+
+export function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+export function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+// The common name of an X.509 Name, falling back to the organization
+function nameOf(bytes: Uint8Array, name: DerElement): string {
+  const values: Record<string, string> = {};
+  derChildren(bytes, name).forEach(set => {
+    derChildren(bytes, set).forEach(attribute => {
+      const [type, value] = derChildren(bytes, attribute);
+      values[readOid(bytes, type)] = decodeString(bytes, value);
+    });
+  });
+  return values[OIDS.commonName] || values[OIDS.organization] || '';
+}
+
+function decodeString(bytes: Uint8Array, element: DerElement): string {
+  const contents = derContents(bytes, element);
+  if (element.tag === 0x1e) {
+    // BMPString is UTF-16 big-endian
+    let text = '';
+    for (let i = 0; i + 1 < contents.length; i += 2) text += String.fromCharCode((contents[i] << 8) | contents[i + 1]);
+    return text;
+  }
+  return new TextDecoder().decode(contents);
+}
@@ -0,0 +1,537 @@
+import sharp, { Sharp } from 'sharp';
+import { deflateSync } from 'zlib';
+import {
+  PDFArray,
+  PDFBool,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream,
+} from 'pdf-lib';
+
+// Making PDFs smaller for the Compress tool. Images are downsampled and re-encoded as JPEG,
+// repeated objects are merged, unused resources and page thumbnails are dropped, and the file
+// is written with object streams.
+
+export type CompressionPreset = 'screen' | 'ebook' | 'print';
+
+// Resolution images are brought down to, and the JPEG quality they are saved at
+export const COMPRESSION_PRESETS: Record<CompressionPreset, { dpi: number; quality: number }> = {
+  screen: { dpi: 72, quality: 50 },
+  ebook: { dpi: 150, quality: 70 },
+  print: { dpi: 300, quality: 85 },
+};
+
+export interface CompressionReport {
+  originalSize: number;
+  compressedSize: number;
+  imagesRecompressed: number;
+  duplicatesMerged: number;
+  objectsRemoved: number;
+  thumbnailsRemoved: number;
+  warnings: string[];
+}
+
+export type CompressionResult = { bytes: Uint8Array; report: CompressionReport };
+
+const DOWNSAMPLE_THRESHOLD = 1.5; // images are only resampled above 1.5 times the preset's resolution
+const MIN_IMAGE_BYTES = 8 * 1024; // smaller images are not worth re-encoding
+const MIN_DEFLATE_BYTES = 256;
+const LEGIBLE_DPI = 150; // below this, small text in a scan starts to break up
+const LEGIBLE_QUALITY = 80; // below this, JPEG blurs the sharp edges of text and line art
+const MAX_DEPTH = 10;
+
+// Resources that content streams refer to by name, and so can be dropped when no content does
+const PRUNED_RESOURCES = ['XObject', 'Font', 'ExtGState', 'Pattern', 'Shading'];
+
+export function parseCompressionPreset(value: string | null): { preset: CompressionPreset } | { error: string } {
+  const preset = (value || 'ebook').trim().toLowerCase();
+  if (!Object.prototype.hasOwnProperty.call(COMPRESSION_PRESETS, preset)) {
+    return { error: `Unsupported preset "${preset}". Use one of: ${Object.keys(COMPRESSION_PRESETS).join(', ')}` };
+  }
+  return { preset: preset as CompressionPreset };
+}
+
+// Compress a loaded PDF. When the result is no smaller the original bytes come back unchanged.
+export async function compressPdf(pdfDoc: PDFDocument, original: Uint8Array, preset: CompressionPreset): Promise<CompressionResult> {
+  const settings = COMPRESSION_PRESETS[preset];
+  const context = pdfDoc.context;
+
+  // Unused and repeated images are dealt with first, so no time is spent re-encoding them
+  const thumbnailsRemoved = stripThumbnails(pdfDoc);
+  pruneResources(context);
+  deflateStreams(context);
+  const duplicatesMerged = mergeDuplicates(context);
+  const images = await recompressImages(pdfDoc, settings.dpi, settings.quality);
+  const objectsRemoved = removeUnreachable(context);
+  const compressed = await pdfDoc.save({ useObjectStreams: true, updateFieldAppearances: false });
+
+  const warnings: string[] = [];
+  if (images.rasterPages > 0 && settings.dpi < LEGIBLE_DPI) {
+    warnings.push(
+      `${images.rasterPages === 1 ? '1 page is a picture' : `${images.rasterPages} pages are pictures`} of text, such as a scan or screenshot. ` +
+      `At ${settings.dpi} dpi small text on ${images.rasterPages === 1 ? 'it' : 'them'} may become hard to read; the ebook or print preset keeps more detail.`
+    );
+  }
+  if (images.fromLossless > 0 && settings.quality < LEGIBLE_QUALITY) {
+    warnings.push(
+      `${images.fromLossless === 1 ? '1 image' : `${images.fromLossless} images`} stored without loss ` +
+      `${images.fromLossless === 1 ? 'was' : 'were'} converted to JPEG; text and fine lines in ${images.fromLossless === 1 ? 'it' : 'them'} may look blurred.`
+    );
+  }
+
+  const smaller = compressed.length < original.length;
+  if (!smaller) {
+    warnings.push('This PDF is already as small as this preset can make it, so it was left unchanged.');
+  }
+  return {
+    bytes: smaller ? compressed : original,
+    report: {
+      originalSize: original.length,
+      compressedSize: smaller ? compressed.length : original.length,
+      imagesRecompressed: smaller ? images.count : 0,
+      duplicatesMerged: smaller ? duplicatesMerged : 0,
+      objectsRemoved: smaller ? objectsRemoved : 0,
+      thumbnailsRemoved: smaller ? thumbnailsRemoved : 0,
+      warnings,
+    },
+  };
+}
+
+function stripThumbnails(pdfDoc: PDFDocument): number {
+  let removed = 0;
+  pdfDoc.getPages().forEach(page => {
+    if (page.node.has(PDFName.of('Thumb'))) {
+      page.node.delete(PDFName.of('Thumb'));
+      removed++;
+    }
+  });
+  return removed;
+}
+
+// Where an image is shown: the long side of the largest page it is on, and which pages those are
+interface Placement {
+  pageSize: number;
+  pages: number[];
+}
+
+// Images are sized against the page they are on. An image drawn smaller than the page keeps more
+// than the preset's resolution, which errs on the side of quality; scans and rendered pages,
+// the usual large images, fill the page anyway.
+async function recompressImages(
+  pdfDoc: PDFDocument,
+  dpi: number,
+  quality: number
+): Promise<{ count: number; fromLossless: number; rasterPages: number }> {
+  const context = pdfDoc.context;
+  const placements = new Map<PDFRef, Placement>();
+  const pagesWithText: boolean[] = [];
+  pdfDoc.getPages().forEach((page, index) => {
+    const { width, height } = page.getSize();
+    const resources = pageResources(page.node);
+    pagesWithText[index] = hasEntries(resources, 'Font');
+    collectImages(context, resources, Math.max(width, height), index, placements, [], 0);
+  });
+
+  const entries: [PDFRef, Placement][] = [];
+  placements.forEach((placement, ref) => entries.push([ref, placement]));
+
+  let count = 0;
+  let fromLossless = 0;
+  const resampledPages: boolean[] = [];
+  for (const [ref, placement] of entries) {
+    const stream = context.lookup(ref);
+    if (!(stream instanceof PDFRawStream)) continue;
+    try {
+      const result = await recompressImage(context, stream, Math.round((placement.pageSize / 72) * dpi), quality);
+      if (!result) continue;
+      context.assign(ref, result.stream);
+      count++;
+      if (result.lossless) fromLossless++;
+      if (result.resampled) placement.pages.forEach(page => { resampledPages[page] = true; });
+    } catch (error) {
+      // An image sharp cannot read is left as it was
+      console.error('Error recompressing image:', error);
+    }
+  }
+
+  let rasterPages = 0;
+  resampledPages.forEach((resampled, page) => {
+    if (resampled && !pagesWithText[page]) rasterPages++;
+  });
+  return { count, fromLossless, rasterPages };
+}
+
+function collectImages(
+  context: PDFContext,
+  resources: PDFDict | undefined,
+  pageSize: number,
+  page: number,
+  placements: Map<PDFRef, Placement>,
+  visited: PDFRef[],
+  depth: number
+) {
+  const xobjects = resources ? resources.lookup(PDFName.of('XObject')) : undefined;
+  if (!(xobjects instanceof PDFDict) || depth > MAX_DEPTH) return;
+  xobjects.values().forEach(value => {
+    if (!(value instanceof PDFRef) || visited.indexOf(value) !== -1) return;
+    const stream = context.lookup(value);
+    if (!(stream instanceof PDFStream)) return;
+    const subtype = stream.dict.lookup(PDFName.of('Subtype'));
+    if (subtype === PDFName.of('Image')) {
+      const placement = placements.get(value);
+      if (!placement) {
+        placements.set(value, { pageSize, pages: [page] });
+      } else {
+        placement.pageSize = Math.max(placement.pageSize, pageSize);
+        if (placement.pages.indexOf(page) === -1) placement.pages.push(page);
+      }
+    } else if (subtype === PDFName.of('Form')) {
+      const formResources = stream.dict.lookup(PDFName.of('Resources'));
+      if (formResources instanceof PDFDict) {
+        collectImages(context, formResources, pageSize, page, placements, visited.concat([value]), depth + 1);
+      }
+    }
+  });
+}
+
+// Downsample one image to the target size in pixels along its long side and save it as JPEG.
+// Only 8-bit gray and RGB images without masks or decode arrays are handled; anything else,
+// or a result that is no smaller, leaves the image as it was.
+async function recompressImage(
+  context: PDFContext,
+  stream: PDFRawStream,
+  targetSize: number,
+  quality: number
+): Promise<{ stream: PDFRawStream; lossless: boolean; resampled: boolean } | null> {
+  const { dict } = stream;
+  const width = numberValue(dict.lookup(PDFName.of('Width')));
+  const height = numberValue(dict.lookup(PDFName.of('Height')));
+  const channels = colorChannels(dict.lookup(PDFName.of('ColorSpace')));
+  if (
+    !width || !height || stream.contents.length < MIN_IMAGE_BYTES ||
+    numberValue(dict.lookup(PDFName.of('BitsPerComponent'))) !== 8 ||
+    (channels !== 1 && channels !== 3) ||
+    dict.has(PDFName.of('Mask')) || dict.has(PDFName.of('Decode')) ||
+    dict.lookup(PDFName.of('ImageMask')) === PDFBool.True
+  ) {
+    return null;
+  }
+
+  const lossless = dict.lookup(PDFName.of('Filter')) !== PDFName.of('DCTDecode');
+  let image: Sharp;
+  if (lossless) {
+    const pixels = decodePixels(stream, width, height, channels);
+    if (!pixels) return null;
+    image = sharp(Buffer.from(pixels.buffer, pixels.byteOffset, pixels.byteLength), { raw: { width, height, channels } });
+  } else {
+    image = sharp(Buffer.from(stream.contents));
+  }
+
+  const longSide = Math.max(width, height);
+  const resampled = longSide > targetSize * DOWNSAMPLE_THRESHOLD;
+  if (resampled) {
+    const scale = targetSize / longSide;
+    image = image.resize(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)), { fit: 'fill' });
+  }
+  if (channels === 1) image = image.toColourspace('b-w');
+  const { data, info } = await image.jpeg({ quality }).toBuffer({ resolveWithObject: true });
+  if (data.length >= stream.contents.length || info.channels !== channels) return null;
+
+  const replacement = dict.clone(context);
+  replacement.set(PDFName.of('Width'), PDFNumber.of(info.width));
+  replacement.set(PDFName.of('Height'), PDFNumber.of(info.height));
+  replacement.set(PDFName.of('Filter'), PDFName.of('DCTDecode'));
+  replacement.delete(PDFName.of('DecodeParms'));
+  return { stream: PDFRawStream.of(replacement, new Uint8Array(data)), lossless, resampled };
+}
+
+// Raw pixels of a losslessly compressed image, undoing PNG predictors
+function decodePixels(stream: PDFRawStream, width: number, height: number, channels: number): Uint8Array | null {
+  let data: Uint8Array;
+  try {
+    data = decodePDFRawStream(stream).decode();
+  } catch (error) {
+    // JPEG 2000, CCITT and JBIG2 images are not decoded here
+    return null;
+  }
+
+  let params = stream.dict.lookup(PDFName.of('DecodeParms'));
+  if (params instanceof PDFArray) params = params.lookup(0);
+  const predictor = params instanceof PDFDict ? numberValue(params.lookup(PDFName.of('Predictor'))) : 1;
+  const rowLength = width * channels;
+  if (predictor >= 10) {
+    const unpredicted = removePngPredictor(data, rowLength, channels, height);
+    if (!unpredicted) return null;
+    data = unpredicted;
+  } else if (predictor > 1) {
+    return null;
+  }
+  return data.length >= rowLength * height ? data.subarray(0, rowLength * height) : null;
+}
+
+function removePngPredictor(data: Uint8Array, rowLength: number, bytesPerPixel: number, rows: number): Uint8Array | null {
+  if (data.length < (rowLength + 1) * rows) return null;
+  const output = new Uint8Array(rowLength * rows);
+  for (let row = 0; row < rows; row++) {
+    const filter = data[row * (rowLength + 1)];
+    const from = row * (rowLength + 1) + 1;
+    const to = row * rowLength;
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bytesPerPixel ? output[to + i - bytesPerPixel] : 0;
+      const up = row > 0 ? output[to - rowLength + i] : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? output[to - rowLength + i - bytesPerPixel] : 0;
+      let value = data[from + i];
+      if (filter === 1) value += left;
+      else if (filter === 2) value += up;
+      else if (filter === 3) value += (left + up) >> 1;
+      else if (filter === 4) value += paeth(left, up, upLeft);
+      else if (filter !== 0) return null;
+      output[to + i] = value & 0xff;
+    }
+  }
+  return output;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+}
+
+// Components per pixel of an image color space, or 0 for spaces that are not plain gray or RGB
+function colorChannels(space: PDFObject | undefined): number {
+  if (space === PDFName.of('DeviceGray') || space === PDFName.of('CalGray')) return 1;
+  if (space === PDFName.of('DeviceRGB') || space === PDFName.of('CalRGB')) return 3;
+  if (!(space instanceof PDFArray) || space.size() === 0) return 0;
+  const family = space.lookup(0);
+  if (family === PDFName.of('CalGray')) return 1;
+  if (family === PDFName.of('CalRGB')) return 3;
+  if (family === PDFName.of('ICCBased')) {
+    const profile = space.lookup(1);
+    const components = profile instanceof PDFStream ? numberValue(profile.dict.lookup(PDFName.of('N'))) : 0;
+    return components === 1 || components === 3 ? components : 0;
+  }
+  return 0;
+}
+
+// Drop resources no content refers to. A resource dictionary can be shared, so names are gathered
+// from everything that uses it; one used by anything other than pages and forms, or by content
+// that cannot be read, is kept whole. Forms without resources of their own use those of whatever
+// draws them, so their names count for every dictionary.
+function pruneResources(context: PDFContext) {
+  const users = new Map<PDFDict, string[] | null>();
+  let borrowed: string[] | null = [];
+  context.enumerateIndirectObjects().forEach(([, object]) => {
+    const dict = object instanceof PDFStream ? object.dict : object instanceof PDFDict ? object : undefined;
+    const resources = dict ? dict.lookup(PDFName.of('Resources')) : undefined;
+    if (object instanceof PDFStream && !resources && object.dict.lookup(PDFName.of('Subtype')) === PDFName.of('Form')) {
+      const names = contentNames(context, object);
+      borrowed = borrowed && names ? borrowed.concat(names) : null;
+    }
+    if (!dict || !(resources instanceof PDFDict)) return;
+
+    const type = dict.lookup(PDFName.of('Type'));
+    let names: string[] | null = null;
+    if (!(object instanceof PDFStream) && type === PDFName.of('Page')) {
+      names = contentNames(context, dict.lookup(PDFName.of('Contents')));
+    } else if (object instanceof PDFStream && dict.lookup(PDFName.of('Subtype')) === PDFName.of('Form')) {
+      names = contentNames(context, object);
+    }
+
+    const known = users.has(resources) ? users.get(resources) : [];
+    users.set(resources, known && names ? known.concat(names) : null);
+  });
+
+  const shared = borrowed;
+  if (!shared) return;
+  users.forEach((names, resources) => {
+    if (!names) return;
+    const used = names.concat(shared);
+    PRUNED_RESOURCES.forEach(category => {
+      const entries = resources.lookup(PDFName.of(category));
+      if (!(entries instanceof PDFDict)) return;
+      entries.keys().forEach(key => {
+        if (used.indexOf(key.decodeText()) === -1) entries.delete(key);
+      });
+    });
+  });
+}
+
+// Every name a content stream mentions, or null when it cannot be decoded. Names inside strings
+// or inline images are counted too, which can only keep a resource that is not needed.
+function contentNames(context: PDFContext, contents: PDFObject | undefined): string[] | null {
+  const streams = contents instanceof PDFArray ? contents.asArray().map(item => context.lookup(item)) : [contents];
+  const names: string[] = [];
+  for (const stream of streams) {
+    if (!stream) continue;
+    if (!(stream instanceof PDFRawStream)) return null;
+    let bytes: Uint8Array;
+    try {
+      bytes = decodePDFRawStream(stream).decode();
+    } catch (error) {
+      return null;
+    }
+    const text = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('latin1');
+    const pattern = /\/([^\s\/\[\]()<>{}%]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      names.push(match[1].replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))));
+    }
+  }
+  return names;
+}
+
+// Compress streams that were stored as plain bytes. XMP metadata is left readable, as the
+// PDF specification recommends.
+function deflateStreams(context: PDFContext) {
+  context.enumerateIndirectObjects().forEach(([ref, object]) => {
+    if (!(object instanceof PDFRawStream) || object.dict.has(PDFName.of('Filter'))) return;
+    if (object.contents.length < MIN_DEFLATE_BYTES || object.dict.lookup(PDFName.of('Type')) === PDFName.of('Metadata')) return;
+    const deflated = deflateSync(Buffer.from(object.contents));
+    if (deflated.length >= object.contents.length) return;
+    const dict = object.dict.clone(context);
+    dict.set(PDFName.of('Filter'), PDFName.of('FlateDecode'));
+    dict.delete(PDFName.of('DecodeParms'));
+    context.assign(ref, PDFRawStream.of(dict, new Uint8Array(deflated)));
+  });
+}
+
+// Point every reference to a repeated stream, font or graphics state at one copy. Merging can make
+// the objects that refer to them identical as well, so this repeats until nothing changes.
+function mergeDuplicates(context: PDFContext): number {
+  let merged = 0;
+  for (let pass = 0; pass < MAX_DEPTH; pass++) {
+    const seen = new Map<string, PDFRef[]>();
+    const replacements = new Map<PDFRef, PDFRef>();
+    context.enumerateIndirectObjects().forEach(([ref, object]) => {
+      const key = duplicateKey(object);
+      if (!key) return;
+      const candidates = seen.get(key) || [];
+      const match = candidates.find(candidate => sameContents(context.lookup(candidate), object));
+      if (match) {
+        replacements.set(ref, match);
+      } else {
+        candidates.push(ref);
+        seen.set(key, candidates);
+      }
+    });
+    if (replacements.size === 0) break;
+
+    context.enumerateIndirectObjects().forEach(([, object]) => replaceRefs(object, replacements, 0));
+    replacements.forEach((_, ref) => context.delete(ref));
+    merged += replacements.size;
+  }
+  return merged;
+}
+
+function duplicateKey(object: PDFObject): string | null {
+  if (object instanceof PDFRawStream) {
+    return `stream ${object.dict.toString()} ${object.contents.length} ${hashBytes(object.contents)}`;
+  }
+  if (object instanceof PDFDict && !(object instanceof PDFStream)) {
+    const type = object.lookup(PDFName.of('Type'));
+    if (type === PDFName.of('Font') || type === PDFName.of('FontDescriptor') || type === PDFName.of('ExtGState')) {
+      return `dict ${object.toString()}`;
+    }
+  }
+  return null;
+}
+
+// The key already covers the dictionary, so only stream data needs comparing in full
+function sameContents(a: PDFObject | undefined, b: PDFObject): boolean {
+  if (!(a instanceof PDFRawStream) || !(b instanceof PDFRawStream)) return true;
+  if (a.contents.length !== b.contents.length) return false;
+  for (let i = 0; i < a.contents.length; i++) {
+    if (a.contents[i] !== b.contents[i]) return false;
+  }
+  return true;
+}
+
+// FNV-1a
+function hashBytes(bytes: Uint8Array): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function replaceRefs(object: PDFObject, replacements: Map<PDFRef, PDFRef>, depth: number) {
+  if (depth > MAX_DEPTH * 10) return;
+  if (object instanceof PDFStream) {
+    replaceRefs(object.dict, replacements, depth + 1);
+  } else if (object instanceof PDFDict) {
+    object.entries().forEach(([key, value]) => {
+      const replacement = value instanceof PDFRef ? replacements.get(value) : undefined;
+      if (replacement) object.set(key, replacement);
+      else replaceRefs(value, replacements, depth + 1);
+    });
+  } else if (object instanceof PDFArray) {
+    object.asArray().forEach((value, index) => {
+      const replacement = value instanceof PDFRef ? replacements.get(value) : undefined;
+      if (replacement) object.set(index, replacement);
+      else replaceRefs(value, replacements, depth + 1);
+    });
+  }
+}
+
+// pdf-lib writes every object it holds, so anything the document no longer reaches is deleted
+function removeUnreachable(context: PDFContext): number {
+  const reachable = new Set<PDFRef>();
+  const { Root, Info, Encrypt } = context.trailerInfo;
+  const pending: (PDFObject | undefined)[] = [Root, Info, Encrypt];
+  while (pending.length > 0) {
+    const object = pending.pop();
+    if (object instanceof PDFRef) {
+      if (reachable.has(object)) continue;
+      reachable.add(object);
+      pending.push(context.lookup(object));
+    } else if (object instanceof PDFStream) {
+      pending.push(object.dict);
+    } else if (object instanceof PDFDict) {
+      object.values().forEach(value => pending.push(value));
+    } else if (object instanceof PDFArray) {
+      object.asArray().forEach(value => pending.push(value));
+    }
+  }
+
+  let removed = 0;
+  context.enumerateIndirectObjects().forEach(([ref]) => {
+    if (!reachable.has(ref)) {
+      context.delete(ref);
+      removed++;
+    }
+  });
+  return removed;
+}
+
+// Resources are inherited from the page tree when a page has none of its own
+function pageResources(node: PDFDict): PDFDict | undefined {
+  let current: PDFObject | undefined = node;
+  for (let depth = 0; current instanceof PDFDict && depth < MAX_DEPTH * 10; depth++) {
+    const resources = current.lookup(PDFName.of('Resources'));
+    if (resources instanceof PDFDict) return resources;
+    current = current.lookup(PDFName.of('Parent'));
+  }
+  return undefined;
+}
+
+function hasEntries(resources: PDFDict | undefined, category: string): boolean {
+  const entries = resources ? resources.lookup(PDFName.of(category)) : undefined;
+  return entries instanceof PDFDict && entries.keys().length > 0;
+}
+
+function numberValue(value: PDFObject | undefined): number {
+  return value instanceof PDFNumber ? value.asNumber() : 0;
+}
@@ -0,0 +1,567 @@
+import { writeFile, mkdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { PDFDocument, rgb } from 'pdf-lib';
+import { Encryption, saveEncrypted } from './encryption';
+import { embedFonts } from './fonts';
+import { htmlToBlocks } from './html';
+import { IMAGE_EXTENSIONS, decodeImage } from './image';
+import { DEFAULT_HEADER_FOOTER, HeaderFooterTemplate, drawHeaderFooter, headerFooterText, stampValues } from './header-footer';
+import { Block, HeadingAnchor, Margins, renderBlocks } from './layout';
+import { MAX_FILE_SIZE, formatMegabytes } from './limits';
+import { markdownToBlocks } from './markdown';
+import { DocumentMetadata, applyMetadata, titleFromFileName } from './metadata';
+import { addOutline, withContents } from './outline';
+import { PageSetup } from './page-setup';
+import { parsePresentation, renderSlides } from './presentation';
+import { parseRtf } from './rtf';
+import { parseSpreadsheet } from './spreadsheet';
+import { PREFORMATTED_EXTENSIONS, preformattedTextToBlocks, textToBlocks } from './text';
+import { parseWordDocument } from './word';
+
+export const SUPPORTED_EXTENSIONS = [
+  'doc', 'docx', 'xls', 'xlsx', 'ods', 'csv', 'ppt', 'pptx', 'odp', 'txt', 'md', 'rtf', 'html',
+].concat(IMAGE_EXTENSIONS, PREFORMATTED_EXTENSIONS);
+
+// Files that can be shown as plain text when the caller forces preformatted mode
+const PLAIN_TEXT_EXTENSIONS = ['txt', 'md', 'csv', 'html'].concat(PREFORMATTED_EXTENSIONS);
+
+// Uploads and converted files live here until they are downloaded
+export const TEMP_DIR = join(tmpdir(), 'document-converter');
+
+// The steps of a conversion, reported as they start so callers can show progress
+export type ConversionStage = 'reading' | 'parsing' | 'rendering' | 'saving';
+
+export type StageReporter = (stage: ConversionStage) => void;
+
+export interface ConversionOptions {
+  setup: PageSetup;
+  includeNotes: boolean;
+  preformatted?: boolean; // left out, it is chosen by extension
+  lineNumbers?: boolean;
+  tableOfContents?: boolean; // documents laid out from headings and text only
+  metadata?: DocumentMetadata;
+  headerFooter?: HeaderFooterTemplate | null; // left out, each format keeps its own
+  encryption?: Encryption | null;
+  onStage?: StageReporter;
+}
+
+// What every converter needs to finish its PDF: the properties to write, the header and footer to stamp
+// and the passwords to protect it with
+interface PdfOutput {
+  fileName: string;
+  metadata: DocumentMetadata;
+  headerFooter: HeaderFooterTemplate | null;
+  encryption: Encryption | null;
+  margins: Margins;
+}
+
+// The placeholder page keeps its own footer line with the app name under it
+const PLACEHOLDER_FOOTER: HeaderFooterTemplate = { ...DEFAULT_HEADER_FOOTER, footer: { center: 'Stapler • {date}' } };
+
+// Read the conversion switches shared by the single and batch endpoints
+export function parseConversionFlags(
+  formData: FormData
+): Pick<ConversionOptions, 'includeNotes' | 'preformatted' | 'lineNumbers' | 'tableOfContents'> {
+  const preformatted = formData.get('preformatted');
+  return {
+    includeNotes: formData.get('speakerNotes') === 'true',
+    preformatted: preformatted === 'true' ? true : preformatted === 'false' ? false : undefined,
+    lineNumbers: formData.get('lineNumbers') === 'true',
+    tableOfContents: formData.get('tableOfContents') === 'true',
+  };
+}
+
+export function fileExtension(fileName: string): string {
+  return (fileName.split('.').pop() || '').toLowerCase();
+}
+
+// Why an upload cannot be converted, or null when it can
+export function uploadError(file: File): string | null {
+  if (file.size > MAX_FILE_SIZE) {
+    return `File size exceeds the ${formatMegabytes(MAX_FILE_SIZE)} limit`;
+  }
+  const extension = fileExtension(file.name);
+  if (!SUPPORTED_EXTENSIONS.includes(extension)) {
+    return `File type .${extension} is not supported`;
+  }
+  return null;
+}
+
+export async function ensureTempDir() {
+  if (!existsSync(TEMP_DIR)) {
+    await mkdir(TEMP_DIR, { recursive: true });
+  }
+}
+
+// Convert one uploaded file to a PDF at outputPath, choosing the converter by extension
+export async function convertFile(
+  inputPath: string,
+  outputPath: string,
+  extension: string,
+  fileName: string,
+  options: ConversionOptions
+) {
+  const { setup } = options;
+  const tableOfContents = !!options.tableOfContents;
+  // Untitled documents are named after the uploaded file
+  const output: PdfOutput = {
+    fileName,
+    metadata: {
+      ...options.metadata,
+      title: (options.metadata && options.metadata.title) || titleFromFileName(fileName),
+    },
+    headerFooter: options.headerFooter || null,
+    encryption: options.encryption || null,
+    margins: setup.margins,
+  };
+  const report: StageReporter = options.onStage || (() => undefined);
+  report('reading');
+  const preformatted = options.preformatted !== undefined
+    ? options.preformatted && PLAIN_TEXT_EXTENSIONS.includes(extension)
+    : PREFORMATTED_EXTENSIONS.includes(extension);
+  if (preformatted) {
+    // Logs, data and source code keep their lines and spacing exactly
+    const mode = { preformatted, lineNumbers: !!options.lineNumbers };
+    await convertTextToPdf(inputPath, outputPath, fileName, mode, setup, tableOfContents, output, report);
+  } else if (IMAGE_EXTENSIONS.includes(extension)) {
+    // For images, convert to PDF
+    await convertImageToPdf(inputPath, outputPath, extension, setup, output, report);
+  } else if (extension === 'html') {
+    // HTML is parsed so its markup becomes formatting instead of literal text
+    await convertHtmlToPdf(inputPath, outputPath, setup, tableOfContents, output, report);
+  } else if (extension === 'rtf') {
+    // RTF control words are interpreted rather than printed
+    await convertRtfToPdf(inputPath, outputPath, setup, tableOfContents, output, report);
+  } else if (extension === 'txt' || PREFORMATTED_EXTENSIONS.includes(extension)) {
+    // For text files, create a simple PDF with the text content
+    const mode = { preformatted: false, lineNumbers: false };
+    await convertTextToPdf(inputPath, outputPath, fileName, mode, setup, tableOfContents, output, report);
+  } else if (extension === 'md') {
+    // Markdown is rendered rather than printed as source
+    await convertMarkdownToPdf(inputPath, outputPath, setup, tableOfContents, output, report);
+  } else if (['doc', 'docx'].includes(extension)) {
+    // Word documents are parsed and laid out with pdf-lib
+    await convertWordToPdf(inputPath, outputPath, extension, setup, tableOfContents, output, report);
+  } else if (['xls', 'xlsx', 'ods', 'csv'].includes(extension)) {
+    // Spreadsheets become paginated tables, one section per sheet
+    await convertSpreadsheetToPdf(inputPath, outputPath, extension, setup, output, report);
+  } else if (['ppt', 'pptx', 'odp'].includes(extension)) {
+    // Presentations get one page per slide, with speaker notes on request
+    await convertPresentationToPdf(inputPath, outputPath, extension, options.includeNotes, setup, output, report);
+  } else {
+    // Anything without a dedicated converter gets a placeholder page
+    await createPlaceholderPdf(outputPath, fileName, setup, output, report);
+  }
+}
+
+// Convert an image to PDF using pdf-lib, one page per image (multi-page TIFFs have several)
+async function convertImageToPdf(
+  imagePath: string,
+  outputPath: string,
+  extension: string,
+  setup: PageSetup,
+  output: PdfOutput,
+  report: StageReporter
+) {
+  try {
+    // Create a new PDF document
+    const pdfDoc = await PDFDocument.create();
+    
+    // Read the image file
+    const imageBytes = await readFile(imagePath);
+    
+    // Decode it into images pdf-lib can embed, turned upright per their EXIF orientation
+    report('parsing');
+    const pageImages = await decodeImage(imageBytes, extension);
+    
+    report('rendering');
+    for (const pageImage of pageImages) {
+      const image = pageImage.format === 'jpg'
+        ? await pdfDoc.embedJpg(pageImage.bytes)
+        : await pdfDoc.embedPng(pageImage.bytes);
+      
+      // Add a blank page
+      const page = pdfDoc.addPage(setup.pageSize);
+      
+      // Calculate dimensions to fit the image on the page
+      const { width, height } = page.getSize();
+      const imgDims = image.scale(1);
+      
+      // Scale the image to fit the page (with margins)
+      const { margins } = setup;
+      const contentWidth = width - margins.left - margins.right;
+      const contentHeight = height - margins.top - margins.bottom;
+      const scaleFactor = Math.min(
+        contentWidth / imgDims.width,
+        contentHeight / imgDims.height
+      );
+      
+      const scaledWidth = imgDims.width * scaleFactor;
+      const scaledHeight = imgDims.height * scaleFactor;
+      
+      // Center the image within the margins
+      const x = margins.left + (contentWidth - scaledWidth) / 2;
+      const y = margins.bottom + (contentHeight - scaledHeight) / 2;
+      
+      // Draw the image
+      page.drawImage(image, {
+        x,
+        y,
+        width: scaledWidth,
+        height: scaledHeight,
+      });
+    }
+    
+    // Save the PDF
+    report('saving');
+    await savePdf(pdfDoc, outputPath, output);
+  } catch (error) {
+    console.error('Error converting image to PDF:', error);
+    throw error;
+  }
+}
+
+// Convert a text file to PDF, titled after the uploaded file
+async function convertTextToPdf(
+  textPath: string,
+  outputPath: string,
+  fileName: string,
+  mode: { preformatted: boolean; lineNumbers: boolean },
+  setup: PageSetup,
+  tableOfContents: boolean,
+  output: PdfOutput,
+  report: StageReporter
+) {
+  try {
+    const textContent = await readFile(textPath, 'utf8');
+    report('parsing');
+    const title = fileName.replace(/\.\w+$/, '') || 'Document';
+    const blocks = mode.preformatted
+      ? preformattedTextToBlocks(textContent, title, mode.lineNumbers)
+      : textToBlocks(textContent, title);
+    await saveBlocksAsPdf(blocks, outputPath, setup, tableOfContents, output, report);
+  } catch (error) {
+    console.error('Error converting text to PDF:', error);
+    throw error;
+  }
+}
+
+// Convert a Markdown file to PDF with the same layout as text and HTML files
+async function convertMarkdownToPdf(
+  markdownPath: string,
+  outputPath: string,
+  setup: PageSetup,
+  tableOfContents: boolean,
+  output: PdfOutput,
+  report: StageReporter
+) {
+  try {
+    const markdown = await readFile(markdownPath, 'utf8');
+    report('parsing');
+    await saveBlocksAsPdf(markdownToBlocks(markdown), outputPath, setup, tableOfContents, output, report);
+  } catch (error) {
+    console.error('Error converting Markdown to PDF:', error);
+    throw error;
+  }
+}
+
+// Convert a DOC/DOCX file to PDF, keeping its headings, lists, tables and images
+async function convertWordToPdf(
+  documentPath: string,
+  outputPath: string,
+  extension: string,
+  setup: PageSetup,
+  tableOfContents: boolean,
+  output: PdfOutput,
+  report: StageReporter
+) {
+  try {
+    const documentBytes = await readFile(documentPath);
+    report('parsing');
+    const blocks = await parseWordDocument(documentBytes, extension);
+    await saveBlocksAsPdf(blocks, outputPath, setup, tableOfContents, output, report);
+  } catch (error) {
+    console.error('Error converting Word document to PDF:', error);
+    throw error;
+  }
+}
+
+// Convert an HTML file to PDF, mapping its markup to headings, lists, tables and styled text
+async function convertHtmlToPdf(
+  htmlPath: string,
+  outputPath: string,
+  setup: PageSetup,
+  tableOfContents: boolean,
+  output: PdfOutput,
+  report: StageReporter
+) {
+  try {
+    const html = await readFile(htmlPath, 'utf8');
+    report('parsing');
+    await saveBlocksAsPdf(htmlToBlocks(html), outputPath, setup, tableOfContents, output, report);
+  } catch (error) {
+    console.error('Error converting HTML to PDF:', error);
+    throw error;
+  }
+}
+
+// Convert an RTF file to PDF, keeping its character formatting, colors and tables
+async function convertRtfToPdf(
+  rtfPath: string,
+  outputPath: string,
+  setup: PageSetup,
+  tableOfContents: boolean,
+  output: PdfOutput,
+  report: StageReporter
+) {
+  try {
+    const rtfBytes = await readFile(rtfPath);
+    report('parsing');
+    await saveBlocksAsPdf(parseRtf(rtfBytes), outputPath, setup, tableOfContents, output, report);
+  } catch (error) {
+    console.error('Error converting RTF to PDF:', error);
+    throw error;
+  }
+}
+
+// Convert a spreadsheet to PDF, switching wide sheets to landscape pages
+async function convertSpreadsheetToPdf(
+  spreadsheetPath: string,
+  outputPath: string,
+  extension: string,
+  setup: PageSetup,
+  output: PdfOutput,
+  report: StageReporter
+) {
+  try {
+    const spreadsheetBytes = await readFile(spreadsheetPath);
+    report('parsing');
+    const [pageWidth, pageHeight] = setup.pageSize;
+    const contentWidth = pageWidth - setup.margins.left - setup.margins.right;
+    const sections = parseSpreadsheet(spreadsheetBytes, extension, contentWidth, setup.fontSize);
+    
+    // Sheets too wide for the page turn it to landscape, unless it already is
+    const landscape: [number, number] = [Math.max(pageWidth, pageHeight), Math.min(pageWidth, pageHeight)];
+    report('rendering');
+    const pdfDoc = await PDFDocument.create();
+    let headings: HeadingAnchor[] = [];
+    for (const section of sections) {
+      const sectionHeadings = await renderBlocks(pdfDoc, section.blocks, {
+        ...setup,
+        pageSize: section.landscape ? landscape : setup.pageSize,
+      });
+      headings = headings.concat(sectionHeadings);
+    }
+    // Each named sheet gets a bookmark
+    addOutline(pdfDoc, headings);
+    
+    report('saving');
+    await savePdf(pdfDoc, outputPath, output, DEFAULT_HEADER_FOOTER);
+  } catch (error) {
+    console.error('Error converting spreadsheet to PDF:', error);
+    throw error;
+  }
+}
+
+// Convert a presentation to PDF, drawing each slide at its own size
+async function convertPresentationToPdf(
+  presentationPath: string,
+  outputPath: string,
+  extension: string,
+  includeNotes: boolean,
+  setup: PageSetup,
+  output: PdfOutput,
+  report: StageReporter
+) {
+  try {
+    const presentationBytes = await readFile(presentationPath);
+    report('parsing');
+    const presentation = await parsePresentation(presentationBytes, extension);
+    
+    report('rendering');
+    const pdfDoc = await PDFDocument.create();
+    const { fontFamily, fontSize, lineHeight } = setup;
+    await renderSlides(pdfDoc, presentation, includeNotes, { fontFamily, fontSize, lineHeight });
+    
+    report('saving');
+    await savePdf(pdfDoc, outputPath, output);
+  } catch (error) {
+    console.error('Error converting presentation to PDF:', error);
+    throw error;
+  }
+}
+
+// Lay out parsed document blocks, bookmark their headings, number the pages and write the PDF
+async function saveBlocksAsPdf(
+  blocks: Block[],
+  outputPath: string,
+  setup: PageSetup,
+  tableOfContents: boolean,
+  output: PdfOutput,
+  report: StageReporter
+) {
+  report('rendering');
+  const pdfDoc = await PDFDocument.create();
+  const headings = await renderBlocks(pdfDoc, tableOfContents ? withContents(blocks) : blocks, setup);
+  addOutline(pdfDoc, headings);
+  
+  report('saving');
+  await savePdf(pdfDoc, outputPath, output, DEFAULT_HEADER_FOOTER);
+}
+
+// Create a placeholder PDF for document types that need server-side conversion
+async function createPlaceholderPdf(
+  outputPath: string,
+  fileName: string,
+  setup: PageSetup,
+  output: PdfOutput,
+  report: StageReporter
+) {
+  try {
+    // Create a new PDF document
+    report('rendering');
+    const pdfDoc = await PDFDocument.create();
+    
+    // Add a page to the document
+    const page = pdfDoc.addPage(setup.pageSize);
+    
+    // Embed fonts, with fallbacks for the icon and any file name outside WinAnsi
+    const fonts = await embedFonts(pdfDoc, `📄${fileName}`);
+    const titleFont = fonts.bold;
+    const regularFont = fonts.regular;
+    const italicFont = fonts.italic;
+    
+    // Get page dimensions
+    const { width, height } = page.getSize();
+    const { margins } = setup;
+    
+    // Add a header with a light gray background
+    page.drawRectangle({
+      x: 0,
+      y: height - 120,
+      width: width,
+      height: 120,
+      color: rgb(0.95, 0.95, 0.95),
+    });
+    
+    // Draw a title
+    titleFont.drawText(page, 'Document Conversion', {
+      x: margins.left,
+      y: height - 70,
+      size: 28,
+      color: rgb(0.2, 0.2, 0.6),
+    });
+    
+    // Draw a horizontal line
+    page.drawLine({
+      start: { x: margins.left, y: height - 90 },
+      end: { x: width - margins.right, y: height - 90 },
+      thickness: 1,
+      color: rgb(0.7, 0.7, 0.7),
+    });
+    
+    // Draw the file name with icon-like prefix
+    regularFont.drawText(page, '📄', {
+      x: margins.left,
+      y: height - 150,
+      size: 16,
+    });
+    
+    regularFont.drawText(page, `Original file: ${fileName}`, {
+      x: margins.left + 25,
+      y: height - 150,
+      size: 14,
+      color: rgb(0, 0, 0),
+    });
+    
+    // Add information box with light blue background
+    page.drawRectangle({
+      x: margins.left,
+      y: height - 350,
+      width: width - margins.left - margins.right,
+      height: 180,
+      color: rgb(0.9, 0.95, 1),
+      borderColor: rgb(0.7, 0.8, 0.9),
+      borderWidth: 1,
+      opacity: 0.8,
+    });
+    
+    // Draw information title
+    titleFont.drawText(page, 'Conversion Information', {
+      x: margins.left + 10,
+      y: height - 180,
+      size: 16,
+      color: rgb(0.2, 0.4, 0.6),
+    });
+    
+    // Draw a message about server-side conversion
+    const messages = [
+      'This file type requires server-side conversion with specialized libraries.',
+      'In a production environment, this would use a complete server-side',
+      'implementation with libraries like OpenPDF or a document conversion service.',
+      '',
+      'The converted document would preserve:',
+      '• Document structure and formatting',
+      '• Images and tables',
+      '• Headers and footers',
+      '• Text styles and fonts',
+      '• Page layout and margins'
+    ];
+    
+    let y = height - 210;
+    for (const message of messages) {
+      if (message === '') {
+        y -= 15;
+        continue;
+      }
+      
+      const font = message.startsWith('•') ? italicFont : regularFont;
+      const color = message.includes('OpenPDF') ? rgb(0.2, 0.4, 0.7) : rgb(0.2, 0.2, 0.2);
+      
+      font.drawText(page, message, {
+        x: margins.left + 15,
+        y,
+        size: 12,
+        color,
+      });
+      
+      y -= 20;
+    }
+    
+    // Add a footer
+    page.drawLine({
+      start: { x: margins.left, y: margins.bottom + 30 },
+      end: { x: width - margins.right, y: margins.bottom + 30 },
+      thickness: 1,
+      color: rgb(0.7, 0.7, 0.7),
+    });
+    
+    // Save the PDF, with the app name and date under the line
+    report('saving');
+    await savePdf(pdfDoc, outputPath, output, PLACEHOLDER_FOOTER);
+  } catch (error) {
+    console.error('Error creating placeholder PDF:', error);
+    throw error;
+  }
+} 
+
+// Stamp the header and footer, falling back to the converter's own when none was asked for,
+// then write the document properties and save, encrypting last when a password was given
+async function savePdf(
+  pdfDoc: PDFDocument,
+  outputPath: string,
+  output: PdfOutput,
+  defaultHeaderFooter: HeaderFooterTemplate | null = null
+) {
+  const template = output.headerFooter || defaultHeaderFooter;
+  if (template) {
+    const values = stampValues(output.fileName, output.metadata.title || '', output.metadata.author);
+    const fonts = await embedFonts(pdfDoc, headerFooterText(template, values, pdfDoc.getPageCount()), template.fontFamily);
+    drawHeaderFooter(pdfDoc, template, values, fonts.regular, output.margins);
+  }
+  applyMetadata(pdfDoc, output.metadata);
+  const pdfBytes = output.encryption ? await saveEncrypted(pdfDoc, output.encryption) : await pdfDoc.save();
+  await writeFile(outputPath, pdfBytes);
+}
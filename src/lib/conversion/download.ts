@@ -0,0 +1,67 @@
+import { Stats } from 'fs';
+
+// A byte range of a file, both ends inclusive as in Content-Range
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Turn a requested output name into a safe file name with the given extension,
+// falling back to the upload's own name when nothing usable was requested
+export function outputFileName(requested: string | null, fileName: string, extension: string): string {
+  const clean = (name: string) => name
+    .replace(/^.*[\\/]/, '')
+    .replace(/[\u0000-\u001f\u007f"<>:|?*]/g, '')
+    .trim();
+  const base = (clean(requested || '') || clean(fileName)).replace(/\.[^.]*$/, '').trim() || 'converted-document';
+  return `${base.slice(0, 200)}.${extension}`;
+}
+
+// Content-Disposition with a plain ASCII name for old clients and the real name
+// RFC 5987-encoded for everyone else
+export function contentDisposition(type: 'attachment' | 'inline', fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+// Strong validator from the file's size and modification time; outputs are never rewritten in place
+export function fileETag(stats: Stats): string {
+  return `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+}
+
+// Whether an If-None-Match header matches the file, so a 304 can be sent
+export function etagMatches(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  return header.split(',').some(tag => {
+    const value = tag.trim();
+    return value === '*' || value.replace(/^W\//, '') === etag;
+  });
+}
+
+// Parse a Range header for a file of the given size. Returns null when the whole file should be
+// sent (no header, another unit or several ranges) and 'unsatisfiable' for a 416 response.
+export function parseRange(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!header) return null;
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end = size - 1;
+  if (!match[1]) {
+    // bytes=-500 is the last 500 bytes
+    const length = parseInt(match[2], 10);
+    if (length === 0) return 'unsatisfiable';
+    start = Math.max(size - length, 0);
+  } else {
+    start = parseInt(match[1], 10);
+    if (match[2]) {
+      // A range that ends before it starts is invalid, and invalid ranges are ignored
+      const last = parseInt(match[2], 10);
+      if (last < start) return null;
+      end = Math.min(last, end);
+    }
+  }
+
+  return start >= size || end < start ? 'unsatisfiable' : { start, end };
+}
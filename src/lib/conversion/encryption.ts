@@ -0,0 +1,587 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFHeader,
+  PDFHexString,
+  PDFInvalidObject,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFObjectParser,
+  PDFObjectStreamParser,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+} from 'pdf-lib';
+
+// Password protection for generated and uploaded PDFs, shared by the server converters and the
+// browser tools. Documents are encrypted with AES-256 under the standard security handler of
+// PDF 2.0 (revision 6), using Web Crypto so the same code runs in both places. Uploads protected
+// by older revisions, with RC4 or AES-128, can be decrypted as well.
+
+export interface PdfPermissions {
+  printing: boolean;
+  copying: boolean;
+  editing: boolean;
+  annotating: boolean;
+}
+
+export interface Encryption {
+  userPassword: string; // needed to open the document; blank lets anyone open it
+  ownerPassword: string; // lifts the restrictions; blank means no one can
+  permissions: PdfPermissions;
+}
+
+// The fields as typed into a form or sent to the conversion endpoint; permissions are allowed unless 'false'
+export const ENCRYPTION_FIELDS = [
+  'userPassword', 'ownerPassword', 'allowPrinting', 'allowCopying', 'allowEditing', 'allowAnnotating',
+] as const;
+
+export type EncryptionInput = Partial<Record<(typeof ENCRYPTION_FIELDS)[number], string>>;
+
+export type EncryptionResult = { encryption: Encryption | null } | { error: string };
+
+// Whether the pages of a decrypted document may be put into another one
+export type DecryptionResult = { assemblyAllowed: boolean } | { error: string; incorrectPassword: boolean };
+
+export const PERMISSION_LABELS: Record<keyof PdfPermissions, string> = {
+  printing: 'Printing',
+  copying: 'Copying text and images',
+  editing: 'Editing and page assembly',
+  annotating: 'Comments and form filling',
+};
+
+const MAX_PASSWORD_BYTES = 127;
+
+// The bits of /P each permission sets, numbered from 1 as in the specification
+const PERMISSION_BITS: Record<keyof PdfPermissions, number[]> = {
+  printing: [3, 12], // print, and print at full quality
+  editing: [4, 11], // change the content, and insert, rotate or delete pages
+  copying: [5], // copy text and graphics
+  annotating: [6, 9], // add comments, and fill in forms
+};
+
+// Bits 7, 8 and 13 to 32 must be set. Bit 10, extraction for accessibility, is always allowed
+// so screen readers keep working.
+const REQUIRED_BITS = 0xfffff0c0 | (1 << 9);
+
+// Check the password fields. No password at all means the caller did not ask for encryption.
+export function parseEncryption(input: EncryptionInput): EncryptionResult {
+  const userPassword = input.userPassword || '';
+  const ownerPassword = input.ownerPassword || '';
+  if (!userPassword && !ownerPassword) return { encryption: null };
+  if (passwordBytes(userPassword).length > MAX_PASSWORD_BYTES || passwordBytes(ownerPassword).length > MAX_PASSWORD_BYTES) {
+    return { error: `Passwords must be at most ${MAX_PASSWORD_BYTES} bytes long` };
+  }
+  if (userPassword && userPassword === ownerPassword) {
+    return { error: 'The owner password must be different from the open password, or the restrictions would not apply' };
+  }
+  return {
+    encryption: {
+      userPassword,
+      ownerPassword,
+      permissions: {
+        printing: input.allowPrinting !== 'false',
+        copying: input.allowCopying !== 'false',
+        editing: input.allowEditing !== 'false',
+        annotating: input.allowAnnotating !== 'false',
+      },
+    },
+  };
+}
+
+// Read the password fields of an upload to the conversion endpoint
+export function parseEncryptionFields(formData: FormData): EncryptionResult {
+  const input: EncryptionInput = {};
+  for (const name of ENCRYPTION_FIELDS) {
+    const value = formData.get(name);
+    if (typeof value === 'string') input[name] = value;
+  }
+  return parseEncryption(input);
+}
+
+// Encrypt a document and save it. This has to be the last change: everything is encrypted in
+// place, so the document cannot be saved again without the key.
+export async function saveEncrypted(pdfDoc: PDFDocument, encryption: Encryption): Promise<Uint8Array> {
+  // Fonts and images are only written into the document when it is flushed
+  await pdfDoc.flush();
+  const context = pdfDoc.context;
+
+  const fileKey = randomBytes(32);
+  const encryptDict = await securityHandler(context, encryption, fileKey);
+  const encryptRef = context.register(encryptDict);
+
+  const key = await crypto.subtle.importKey('raw', fileKey, 'AES-CBC', false, ['encrypt']);
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (ref === encryptRef) continue;
+    if (object instanceof PDFStream) {
+      const contents = object.getContents();
+      await transformStrings(object.dict, bytes => encryptData(key, bytes), 0);
+      context.assign(ref, PDFRawStream.of(object.dict, await encryptData(key, contents)));
+    } else {
+      await transformStrings(object, bytes => encryptData(key, bytes), 0);
+    }
+  }
+
+  // AES-256 needs PDF 1.7 with Adobe's extension level 8, or PDF 2.0
+  context.header = PDFHeader.forVersion(1, 7);
+  const extensions = pdfDoc.catalog.lookup(PDFName.of('Extensions'));
+  const adobe = context.obj({ BaseVersion: PDFName.of('1.7'), ExtensionLevel: 8 });
+  if (extensions instanceof PDFDict) extensions.set(PDFName.of('ADBE'), adobe);
+  else pdfDoc.catalog.set(PDFName.of('Extensions'), context.obj({ ADBE: adobe }));
+
+  const id = PDFHexString.of(toHex(randomBytes(16)));
+  context.trailerInfo.Encrypt = encryptRef;
+  context.trailerInfo.ID = context.obj([id, id]);
+
+  // Object streams would hold strings that are encrypted on their own, which the format does not allow
+  return pdfDoc.save({ useObjectStreams: false, updateFieldAppearances: false, addDefaultPage: false });
+}
+
+// Encrypt a PDF made by another library (html2pdf, jsPDF) or built earlier in the pipeline
+export async function withEncryption(pdfBytes: ArrayBuffer | Uint8Array, encryption: Encryption): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  return saveEncrypted(pdfDoc, encryption);
+}
+
+// How the strings or the streams of an encrypted document are encrypted
+type Cipher = 'none' | 'rc4' | 'aes';
+
+// The key that decrypts a document, and whether it was unlocked with the owner password
+interface UnlockedKey {
+  fileKey: Uint8Array;
+  owner: boolean;
+}
+
+// The padding of passwords under revisions 2 to 4 of the standard security handler
+const PASSWORD_PADDING = new Uint8Array([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+// Decrypt a document loaded with ignoreEncryption in place, so it can be saved or have its pages
+// copied like any other. Either password opens it, but without the owner password the document's
+// own permissions decide whether its pages may be taken out.
+export async function decryptDocument(pdfDoc: PDFDocument, password: string): Promise<DecryptionResult> {
+  const context = pdfDoc.context;
+  const encryptRef = context.trailerInfo.Encrypt;
+  const encrypt = context.lookup(encryptRef);
+  if (!(encrypt instanceof PDFDict)) return { assemblyAllowed: true };
+  if (encrypt.lookup(PDFName.of('Filter')) !== PDFName.of('Standard')) {
+    return { error: 'It is protected with certificates rather than a password, which is not supported.', incorrectPassword: false };
+  }
+
+  const version = numberEntry(encrypt, 'V');
+  const revision = numberEntry(encrypt, 'R');
+  if (revision < 2 || revision > 6) {
+    return { error: `Its encryption (revision ${revision}) is not supported.`, incorrectPassword: false };
+  }
+  const unlocked = revision >= 5
+    ? await unlockAes256(encrypt, password, revision)
+    : unlockRc4(encrypt, password, revision, version === 4 ? 16 : (numberEntry(encrypt, 'Length') || 40) / 8, firstId(context));
+  if (!unlocked) return { error: 'Incorrect password.', incorrectPassword: true };
+
+  const strings = cipherFor(encrypt, 'StrF', version);
+  const streams = cipherFor(encrypt, 'StmF', version);
+  const metadataEncrypted = encrypt.lookup(PDFName.of('EncryptMetadata')) !== PDFBool.False;
+  const decryptWith = (cipher: Cipher, ref: PDFRef) => {
+    const key = objectKey(unlocked.fileKey, ref, cipher, revision);
+    return (bytes: Uint8Array) => decipher(cipher, key, bytes);
+  };
+
+  // Object streams could not be read while encrypted, so the parser kept them as invalid objects
+  const objectStreams: [PDFRef, PDFInvalidObject][] = [];
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (ref === encryptRef) continue;
+    if (object instanceof PDFInvalidObject) {
+      objectStreams.push([ref, object]);
+    } else if (object instanceof PDFRawStream) {
+      await transformStrings(object.dict, decryptWith(strings, ref), 0);
+      const type = object.dict.lookup(PDFName.of('Type'));
+      if (type === PDFName.of('XRef') || (type === PDFName.of('Metadata') && !metadataEncrypted)) continue;
+      context.assign(ref, PDFRawStream.of(object.dict, await decryptWith(streams, ref)(object.getContents())));
+    } else if (object instanceof PDFString || object instanceof PDFHexString) {
+      context.assign(ref, PDFHexString.of(toHex(await decryptWith(strings, ref)(object.asBytes()))));
+    } else {
+      await transformStrings(object, decryptWith(strings, ref), 0);
+    }
+  }
+
+  // The objects inside an object stream are encrypted only as part of the stream
+  for (const [ref, object] of objectStreams) {
+    const data = new Uint8Array(object.sizeInBytes());
+    object.copyBytesInto(data, 0);
+    try {
+      const stream = PDFObjectParser.forBytes(data, context).parseObject();
+      if (!(stream instanceof PDFRawStream) || stream.dict.lookup(PDFName.of('Type')) !== PDFName.of('ObjStm')) continue;
+      const contents = await decryptWith(streams, ref)(stream.getContents());
+      await PDFObjectStreamParser.forStream(PDFRawStream.of(stream.dict, contents)).parseIntoContext();
+      context.delete(ref);
+    } catch (error) {
+      console.error(`Error reading object stream ${ref}:`, error);
+    }
+  }
+
+  delete context.trailerInfo.Encrypt;
+  if (encryptRef instanceof PDFRef) context.delete(encryptRef);
+
+  // Bit 11 allows assembling pages; revision 2 has no such bit and uses bit 4, editing, instead
+  const p = numberEntry(encrypt, 'P');
+  return { assemblyAllowed: unlocked.owner || (p & (1 << (revision === 2 ? 3 : 10))) !== 0 };
+}
+
+// The /Encrypt dictionary: password checks and the file key wrapped under each password
+async function securityHandler(context: PDFContext, encryption: Encryption, fileKey: Uint8Array): Promise<PDFDict> {
+  const user = passwordBytes(encryption.userPassword);
+  // Without an owner password the restrictions are locked behind a random one
+  const owner = encryption.ownerPassword ? passwordBytes(encryption.ownerPassword) : randomBytes(32);
+  const none = new Uint8Array(0);
+  const zeroIv = new Uint8Array(16);
+
+  const userSalts = randomBytes(16);
+  const u = concat(await hardenedHash(user, userSalts.subarray(0, 8), none), userSalts);
+  const ue = await aesNoPadding(await hardenedHash(user, userSalts.subarray(8), none), zeroIv, fileKey);
+
+  const ownerSalts = randomBytes(16);
+  const o = concat(await hardenedHash(owner, ownerSalts.subarray(0, 8), u), ownerSalts);
+  const oe = await aesNoPadding(await hardenedHash(owner, ownerSalts.subarray(8), u), zeroIv, fileKey);
+
+  const p = permissionFlags(encryption.permissions);
+  const perms = new Uint8Array(16);
+  perms.set([p & 0xff, (p >>> 8) & 0xff, (p >>> 16) & 0xff, (p >>> 24) & 0xff, 0xff, 0xff, 0xff, 0xff]);
+  perms.set([0x54, 0x61, 0x64, 0x62], 8); // 'T' for encrypted metadata, then 'adb'
+  perms.set(randomBytes(4), 12);
+
+  return context.obj({
+    Filter: 'Standard',
+    V: 5,
+    R: 6,
+    Length: 256,
+    CF: { StdCF: { AuthEvent: 'DocOpen', CFM: 'AESV3', Length: 32 } },
+    StmF: 'StdCF',
+    StrF: 'StdCF',
+    O: PDFHexString.of(toHex(o)),
+    U: PDFHexString.of(toHex(u)),
+    OE: PDFHexString.of(toHex(oe)),
+    UE: PDFHexString.of(toHex(ue)),
+    P: PDFNumber.of(p),
+    Perms: PDFHexString.of(toHex(await aesNoPadding(fileKey, zeroIv, perms))),
+  });
+}
+
+function permissionFlags(permissions: PdfPermissions): number {
+  let flags = REQUIRED_BITS;
+  (Object.keys(PERMISSION_BITS) as (keyof PdfPermissions)[]).forEach(name => {
+    if (permissions[name]) PERMISSION_BITS[name].forEach(bit => { flags |= 1 << (bit - 1); });
+  });
+  return flags | 0;
+}
+
+// Algorithm 2.B of ISO 32000-2: a hash made slow by at least 64 rounds of AES and SHA-2
+async function hardenedHash(password: Uint8Array, salt: Uint8Array, userKey: Uint8Array): Promise<Uint8Array> {
+  let k = await digest('SHA-256', concat(password, salt, userKey));
+  let e: Uint8Array = new Uint8Array(0);
+  for (let round = 0; round < 64 || e[e.length - 1] > round - 32; round++) {
+    const block = concat(password, k, userKey);
+    const repeated = new Uint8Array(block.length * 64);
+    for (let i = 0; i < 64; i++) repeated.set(block, i * block.length);
+    e = await aesNoPadding(k.subarray(0, 16), k.subarray(16, 32), repeated);
+    let sum = 0;
+    for (let i = 0; i < 16; i++) sum += e[i];
+    k = await digest(['SHA-256', 'SHA-384', 'SHA-512'][sum % 3], e);
+  }
+  return k.subarray(0, 32);
+}
+
+// Web Crypto always pads, so the padding block is cut off again; the data is a whole number of blocks
+async function aesNoPadding(keyBytes: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', keyBytes, 'AES-CBC', false, ['encrypt']);
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-CBC', iv }, key, data);
+  return new Uint8Array(encrypted, 0, data.length);
+}
+
+// Strings and streams are stored as a random IV followed by the AES-CBC ciphertext
+async function encryptData(key: CryptoKey, data: Uint8Array): Promise<Uint8Array> {
+  const iv = randomBytes(16);
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-CBC', iv }, key, data);
+  return concat(iv, new Uint8Array(encrypted));
+}
+
+// Encrypt or decrypt every string inside an object, except the contents of a signature, which are
+// never encrypted
+async function transformStrings(object: PDFObject, transform: (bytes: Uint8Array) => Promise<Uint8Array>, depth: number) {
+  if (depth > 100) return;
+  if (object instanceof PDFDict) {
+    const signature = object.has(PDFName.of('ByteRange'));
+    for (const [name, value] of object.entries()) {
+      if (value instanceof PDFString || value instanceof PDFHexString) {
+        if (signature && name === PDFName.of('Contents')) continue;
+        object.set(name, PDFHexString.of(toHex(await transform(value.asBytes()))));
+      } else {
+        await transformStrings(value, transform, depth + 1);
+      }
+    }
+  } else if (object instanceof PDFArray) {
+    for (let index = 0; index < object.size(); index++) {
+      const value = object.get(index);
+      if (value instanceof PDFString || value instanceof PDFHexString) {
+        object.set(index, PDFHexString.of(toHex(await transform(value.asBytes()))));
+      } else if (!(value instanceof PDFRef)) {
+        await transformStrings(value, transform, depth + 1);
+      }
+    }
+  }
+}
+
+// Revisions 5 and 6: the password is checked against a hash, and the file key is stored wrapped
+// under a key derived from each password
+async function unlockAes256(encrypt: PDFDict, password: string, revision: number): Promise<UnlockedKey | null> {
+  const secret = passwordBytes(password).subarray(0, MAX_PASSWORD_BYTES);
+  const o = stringBytes(encrypt, 'O');
+  const u = stringBytes(encrypt, 'U');
+  const userKey = u.subarray(0, 48);
+  const none = new Uint8Array(0);
+  const zeroIv = new Uint8Array(16);
+  // Revision 5 was an Adobe extension with a single round of SHA-256
+  const hash = (salt: Uint8Array, key: Uint8Array) => revision === 6
+    ? hardenedHash(secret, salt, key)
+    : digest('SHA-256', concat(secret, salt, key));
+
+  if (o.length >= 48 && u.length >= 48) {
+    if (equalBytes(await hash(o.subarray(32, 40), userKey), o.subarray(0, 32))) {
+      const oe = stringBytes(encrypt, 'OE').subarray(0, 32);
+      return { fileKey: await aesDecryptNoPadding(await hash(o.subarray(40, 48), userKey), zeroIv, oe), owner: true };
+    }
+    if (equalBytes(await hash(u.subarray(32, 40), none), u.subarray(0, 32))) {
+      const ue = stringBytes(encrypt, 'UE').subarray(0, 32);
+      return { fileKey: await aesDecryptNoPadding(await hash(u.subarray(40, 48), none), zeroIv, ue), owner: false };
+    }
+  }
+  return null;
+}
+
+// Revisions 2 to 4: the file key is an MD5 hash of the padded open password, and /O holds the open
+// password encrypted under the owner password
+function unlockRc4(encrypt: PDFDict, password: string, revision: number, keyLength: number, id: Uint8Array): UnlockedKey | null {
+  const o = stringBytes(encrypt, 'O').subarray(0, 32);
+  const u = stringBytes(encrypt, 'U');
+  const p = numberEntry(encrypt, 'P');
+  const metadataEncrypted = encrypt.lookup(PDFName.of('EncryptMetadata')) !== PDFBool.False;
+
+  const fileKey = (padded: Uint8Array) => {
+    const permissions = new Uint8Array([p & 0xff, (p >>> 8) & 0xff, (p >>> 16) & 0xff, (p >>> 24) & 0xff]);
+    const unencryptedMetadata = revision >= 4 && !metadataEncrypted ? new Uint8Array([0xff, 0xff, 0xff, 0xff]) : new Uint8Array(0);
+    let hash = md5(concat(padded, o, permissions, id, unencryptedMetadata));
+    if (revision >= 3) for (let i = 0; i < 50; i++) hash = md5(hash.subarray(0, keyLength));
+    return hash.subarray(0, keyLength);
+  };
+  const opens = (key: Uint8Array) => {
+    if (revision === 2) return equalBytes(rc4(key, PASSWORD_PADDING), u.subarray(0, 32));
+    let check = rc4(key, md5(concat(PASSWORD_PADDING, id)));
+    for (let i = 1; i <= 19; i++) check = rc4(xorKey(key, i), check);
+    return equalBytes(check, u.subarray(0, 16));
+  };
+
+  const padded = padPassword(password);
+  let ownerHash = md5(padded);
+  if (revision >= 3) for (let i = 0; i < 50; i++) ownerHash = md5(ownerHash);
+  const ownerKey = ownerHash.subarray(0, keyLength);
+  let userPassword = o;
+  if (revision === 2) userPassword = rc4(ownerKey, o);
+  else for (let i = 19; i >= 0; i--) userPassword = rc4(xorKey(ownerKey, i), userPassword);
+
+  const ownerFileKey = fileKey(userPassword);
+  if (opens(ownerFileKey)) return { fileKey: ownerFileKey, owner: true };
+  const userFileKey = fileKey(padded);
+  if (opens(userFileKey)) return { fileKey: userFileKey, owner: false };
+  return null;
+}
+
+// Crypt filters name the cipher from version 4 on; before that everything is RC4
+function cipherFor(encrypt: PDFDict, entry: 'StmF' | 'StrF', version: number): Cipher {
+  if (version < 4) return 'rc4';
+  const name = encrypt.lookup(PDFName.of(entry));
+  if (!(name instanceof PDFName) || name === PDFName.of('Identity')) return 'none';
+  const filters = encrypt.lookup(PDFName.of('CF'));
+  const filter = filters instanceof PDFDict ? filters.lookup(name) : undefined;
+  const method = filter instanceof PDFDict ? filter.lookup(PDFName.of('CFM')) : undefined;
+  if (method === PDFName.of('V2')) return 'rc4';
+  if (method === PDFName.of('AESV2') || method === PDFName.of('AESV3')) return 'aes';
+  return 'none';
+}
+
+// Before revision 5 each object has its own key, made from the file key and the object's number
+function objectKey(fileKey: Uint8Array, ref: PDFRef, cipher: Cipher, revision: number): Uint8Array {
+  if (revision >= 5) return fileKey;
+  const { objectNumber, generationNumber } = ref;
+  const hash = md5(concat(
+    fileKey,
+    new Uint8Array([objectNumber & 0xff, (objectNumber >> 8) & 0xff, (objectNumber >> 16) & 0xff, generationNumber & 0xff, (generationNumber >> 8) & 0xff]),
+    cipher === 'aes' ? new Uint8Array([0x73, 0x41, 0x6c, 0x54]) : new Uint8Array(0), // 'sAlT'
+  ));
+  return hash.subarray(0, Math.min(fileKey.length + 5, 16));
+}
+
+async function decipher(cipher: Cipher, key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  if (cipher === 'none') return data;
+  if (cipher === 'rc4') return rc4(key, data);
+  if (data.length < 32) return new Uint8Array(0);
+  const iv = data.subarray(0, 16);
+  const body = data.subarray(16, data.length - (data.length % 16));
+  try {
+    const aesKey = await crypto.subtle.importKey('raw', key, 'AES-CBC', false, ['decrypt']);
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-CBC', iv }, aesKey, body));
+  } catch {
+    // Padding that does not check out is kept rather than losing the data
+    return aesDecryptNoPadding(key, iv, body);
+  }
+}
+
+// Web Crypto insists on padding when decrypting too, so a block that decrypts to a whole block of
+// padding is made for the end of the data and appended
+async function aesDecryptNoPadding(keyBytes: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  if (data.length === 0) return data;
+  const key = await crypto.subtle.importKey('raw', keyBytes, 'AES-CBC', false, ['encrypt', 'decrypt']);
+  const padding = new Uint8Array(16).fill(16);
+  const last = data.subarray(data.length - 16);
+  const paddingBlock = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-CBC', iv: last }, key, padding), 0, 16);
+  return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-CBC', iv }, key, concat(data, paddingBlock)));
+}
+
+// Passwords before revision 5 are in PDFDocEncoding, cut or padded to 32 bytes
+function padPassword(password: string): Uint8Array {
+  const padded = new Uint8Array(32);
+  const length = Math.min(password.length, 32);
+  for (let i = 0; i < length; i++) padded[i] = password.charCodeAt(i) & 0xff;
+  padded.set(PASSWORD_PADDING.subarray(0, 32 - length), length);
+  return padded;
+}
+
+function xorKey(key: Uint8Array, value: number): Uint8Array {
+  return key.map(byte => byte ^ value);
+}
+
+function firstId(context: PDFContext): Uint8Array {
+  const id = context.lookup(context.trailerInfo.ID);
+  const first = id instanceof PDFArray ? id.lookup(0) : undefined;
+  return first instanceof PDFString || first instanceof PDFHexString ? first.asBytes() : new Uint8Array(0);
+}
+
+function numberEntry(dict: PDFDict, name: string): number {
+  const value = dict.lookup(PDFName.of(name));
+  return value instanceof PDFNumber ? value.asNumber() : 0;
+}
+
+function stringBytes(dict: PDFDict, name: string): Uint8Array {
+  const value = dict.lookup(PDFName.of(name));
+  return value instanceof PDFString || value instanceof PDFHexString ? value.asBytes() : new Uint8Array(0);
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+function rc4(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const s = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) s[i] = i;
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key[i % key.length]) & 0xff;
+    const swap = s[i];
+    s[i] = s[j];
+    s[j] = swap;
+  }
+  const result = new Uint8Array(data.length);
+  for (let k = 0, i = 0, j = 0; k < data.length; k++) {
+    i = (i + 1) & 0xff;
+    j = (j + s[i]) & 0xff;
+    const swap = s[i];
+    s[i] = s[j];
+    s[j] = swap;
+    result[k] = data[k] ^ s[(s[i] + s[j]) & 0xff];
+  }
+  return result;
+}
+
+// MD5 is not in Web Crypto, and is only used to read files encrypted by older revisions
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) | 0);
+
+function md5(data: Uint8Array): Uint8Array {
+  const words = new Uint32Array((((data.length + 8) >> 6) + 1) * 16);
+  for (let i = 0; i < data.length; i++) words[i >> 2] |= data[i] << ((i % 4) * 8);
+  words[data.length >> 2] |= 0x80 << ((data.length % 4) * 8);
+  words[words.length - 2] = data.length * 8;
+
+  const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+  for (let block = 0; block < words.length; block += 16) {
+    let [a, b, c, d] = state;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const sum = (a + f + MD5_CONSTANTS[i] + words[block + g]) | 0;
+      const shift = MD5_SHIFTS[(i >> 4) * 4 + (i % 4)];
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+    }
+    state[0] = (state[0] + a) | 0;
+    state[1] = (state[1] + b) | 0;
+    state[2] = (state[2] + c) | 0;
+    state[3] = (state[3] + d) | 0;
+  }
+
+  const hash = new Uint8Array(16);
+  state.forEach((word, i) => {
+    for (let j = 0; j < 4; j++) hash[i * 4 + j] = (word >>> (j * 8)) & 0xff;
+  });
+  return hash;
+}
+
+// Passwords are compared as UTF-8 after Unicode normalization, standing in for SASLprep
+function passwordBytes(password: string): Uint8Array {
+  return new TextEncoder().encode(password.normalize('NFKC'));
+}
+
+function digest(algorithm: string, data: Uint8Array): Promise<Uint8Array> {
+  return crypto.subtle.digest(algorithm, data).then(hash => new Uint8Array(hash));
+}
+
+function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+function toHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) hex += (bytes[i] < 16 ? '0' : '') + bytes[i].toString(16);
+  return hex;
+}
@@ -0,0 +1,269 @@
+import fontkit from '@pdf-lib/fontkit';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { PDFDocument, PDFFont, PDFPage, RGB, StandardFonts } from 'pdf-lib';
+
+export type FontStyle = 'regular' | 'bold' | 'italic' | 'boldItalic' | 'monospace';
+
+export type FontFamily = 'helvetica' | 'times' | 'courier';
+
+export const FONT_FAMILIES: FontFamily[] = ['helvetica', 'times', 'courier'];
+
+export type FontSet = Record<FontStyle, FontStack>;
+
+export interface TextPiece {
+  text: string;
+  font: PDFFont;
+}
+
+interface FontFile {
+  bytes: Uint8Array;
+  characters: Set<number>;
+}
+
+const FONT_ROOT = join(process.cwd(), 'node_modules');
+const DEJAVU = 'dejavu-fonts-ttf/ttf';
+const NOTO_SANS_SC = '@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf';
+const NOTO_SANS_SC_BOLD = '@expo-google-fonts/noto-sans-sc/700Bold/NotoSansSC_700Bold.ttf';
+const NOTO_EMOJI = '@expo-google-fonts/noto-emoji/400Regular/NotoEmoji_400Regular.ttf';
+
+type TextStyle = Exclude<FontStyle, 'monospace'>;
+
+interface Face {
+  standard: StandardFonts;
+  fallback: string;
+}
+
+// Each standard font is paired with the bundled face closest to it in design
+const FAMILIES: Record<FontFamily, Record<TextStyle, Face>> = {
+  helvetica: {
+    regular: { standard: StandardFonts.Helvetica, fallback: `${DEJAVU}/DejaVuSans.ttf` },
+    bold: { standard: StandardFonts.HelveticaBold, fallback: `${DEJAVU}/DejaVuSans-Bold.ttf` },
+    italic: { standard: StandardFonts.HelveticaOblique, fallback: `${DEJAVU}/DejaVuSans-Oblique.ttf` },
+    boldItalic: { standard: StandardFonts.HelveticaBoldOblique, fallback: `${DEJAVU}/DejaVuSans-BoldOblique.ttf` },
+  },
+  times: {
+    regular: { standard: StandardFonts.TimesRoman, fallback: `${DEJAVU}/DejaVuSerif.ttf` },
+    bold: { standard: StandardFonts.TimesRomanBold, fallback: `${DEJAVU}/DejaVuSerif-Bold.ttf` },
+    italic: { standard: StandardFonts.TimesRomanItalic, fallback: `${DEJAVU}/DejaVuSerif-Italic.ttf` },
+    boldItalic: { standard: StandardFonts.TimesRomanBoldItalic, fallback: `${DEJAVU}/DejaVuSerif-BoldItalic.ttf` },
+  },
+  courier: {
+    regular: { standard: StandardFonts.Courier, fallback: `${DEJAVU}/DejaVuSansMono.ttf` },
+    bold: { standard: StandardFonts.CourierBold, fallback: `${DEJAVU}/DejaVuSansMono-Bold.ttf` },
+    italic: { standard: StandardFonts.CourierOblique, fallback: `${DEJAVU}/DejaVuSansMono-Oblique.ttf` },
+    boldItalic: { standard: StandardFonts.CourierBoldOblique, fallback: `${DEJAVU}/DejaVuSansMono-BoldOblique.ttf` },
+  },
+};
+
+const STYLES: FontStyle[] = ['regular', 'bold', 'italic', 'boldItalic', 'monospace'];
+
+// Zero-width joiners, variation selectors and control characters are dropped when no face draws them
+const IGNORABLE = /[\u0000-\u001f\u007f\u200b-\u200f\u2060\ufe00-\ufe0f\ufeff]/;
+
+// Font files are read once per process; fonts are embedded once per document
+const fontFiles = new Map<string, Promise<FontFile>>();
+const documentFonts = new WeakMap<PDFDocument, Map<string, Promise<PDFFont>>>();
+const characterSets = new WeakMap<PDFFont, Set<number>>();
+
+// Embed the fonts needed to draw the given text. Bundled faces are only embedded
+// once some text needs them, and only the glyphs actually drawn are kept.
+export async function embedFonts(
+  pdfDoc: PDFDocument,
+  text = '',
+  family: FontFamily = 'helvetica'
+): Promise<FontSet> {
+  pdfDoc.registerFontkit(fontkit);
+  let embedded = documentFonts.get(pdfDoc);
+  if (!embedded) {
+    embedded = new Map();
+    documentFonts.set(pdfDoc, embedded);
+  }
+  const fonts = embedded;
+  const embedOnce = (key: string, embed: () => Promise<PDFFont>) => {
+    let font = fonts.get(key);
+    if (!font) {
+      font = embed();
+      fonts.set(key, font);
+    }
+    return font;
+  };
+
+  const characters = Array.from(text).filter(char => !IGNORABLE.test(char));
+  const codePoints = Array.from(new Set(characters.map(char => char.codePointAt(0) || 0)));
+  const set = {} as FontSet;
+  for (const style of STYLES) {
+    // The standard fonts cover WinAnsi only; anything else falls back through the bundled faces in order
+    const face = style === 'monospace' ? FAMILIES.courier.regular : FAMILIES[family][style];
+    const bold = style === 'bold' || style === 'boldItalic';
+    const fallbacks = [face.fallback, bold ? NOTO_SANS_SC_BOLD : NOTO_SANS_SC, NOTO_EMOJI];
+    const primary = await embedOnce(face.standard, () => pdfDoc.embedFont(face.standard));
+    const stack = [primary];
+    let missing = codePoints.filter(codePoint => !charactersOf(primary).has(codePoint));
+
+    for (const file of fallbacks) {
+      if (missing.length === 0 && !fonts.has(file)) continue;
+      const fontFile = await loadFontFile(file);
+      if (!fonts.has(file) && !missing.some(codePoint => fontFile.characters.has(codePoint))) continue;
+      stack.push(await embedOnce(file, () => pdfDoc.embedFont(fontFile.bytes, { subset: true })));
+      missing = missing.filter(codePoint => !fontFile.characters.has(codePoint));
+    }
+    set[style] = new FontStack(stack);
+  }
+  return set;
+}
+
+// An ordered list of fonts where each character is drawn with the first font that has it
+export class FontStack {
+  constructor(private fonts: PDFFont[]) {}
+
+  get primary(): PDFFont {
+    return this.fonts[0];
+  }
+
+  // Words stay in a single font where one covers them, so a word is not drawn in a mix
+  // of typefaces just because the first font lacks one of its letters
+  split(text: string): TextPiece[] {
+    const pieces: TextPiece[] = [];
+    const push = (char: string, font: PDFFont) => {
+      const last = pieces[pieces.length - 1];
+      if (last && last.font === font) {
+        last.text += char;
+      } else {
+        pieces.push({ text: char, font });
+      }
+    };
+
+    for (const word of text.split(/(\s+)/)) {
+      if (!word) continue;
+      const chars = Array.from(word);
+      const whole = this.fonts.find(font => hasGlyphs(font, word));
+      for (const char of chars) {
+        const font = whole || this.fonts.find(candidate => hasGlyphs(candidate, char));
+        if (font) {
+          push(char, font);
+        } else if (!IGNORABLE.test(char)) {
+          push('?', this.primary);
+        }
+      }
+    }
+    return pieces;
+  }
+
+  widthOfTextAtSize(text: string, size: number): number {
+    return this.split(text).reduce((width, piece) => width + piece.font.widthOfTextAtSize(piece.text, size), 0);
+  }
+
+  drawText(page: PDFPage, text: string, options: { x: number; y: number; size: number; color?: RGB; opacity?: number }) {
+    let x = options.x;
+    for (const piece of this.split(text)) {
+      page.drawText(piece.text, { ...options, x, font: piece.font });
+      x += piece.font.widthOfTextAtSize(piece.text, options.size);
+    }
+  }
+}
+
+export function hasGlyphs(font: PDFFont, text: string): boolean {
+  const characters = charactersOf(font);
+  return Array.from(text).every(char => characters.has(char.codePointAt(0) || 0));
+}
+
+function charactersOf(font: PDFFont): Set<number> {
+  let characters = characterSets.get(font);
+  if (!characters) {
+    characters = new Set(font.getCharacterSet());
+    characterSets.set(font, characters);
+  }
+  return characters;
+}
+
+function loadFontFile(file: string): Promise<FontFile> {
+  let fontFile = fontFiles.get(file);
+  if (!fontFile) {
+    fontFile = readFile(join(FONT_ROOT, file)).then(data => {
+      const bytes = padGlyphs(new Uint8Array(data));
+      return { bytes, characters: new Set(fontkit.create(bytes).characterSet) };
+    });
+    // A failed read is retried by the next document rather than cached
+    fontFile.catch(() => fontFiles.delete(file));
+    fontFiles.set(file, fontFile);
+  }
+  return fontFile;
+}
+
+// fontkit's subsetter writes glyph offsets in the short loca format, which can only
+// address even offsets. Fonts whose glyph records have odd lengths come out corrupted,
+// so pad every glyph to an even length before the font is embedded.
+function padGlyphs(font: Uint8Array): Uint8Array {
+  const view = new DataView(font.buffer, font.byteOffset, font.byteLength);
+  const tableCount = view.getUint16(4);
+  const tables: { tag: string; offset: number; length: number }[] = [];
+  for (let i = 0; i < tableCount; i++) {
+    const record = 12 + i * 16;
+    tables.push({
+      tag: String.fromCharCode(font[record], font[record + 1], font[record + 2], font[record + 3]),
+      offset: view.getUint32(record + 8),
+      length: view.getUint32(record + 12),
+    });
+  }
+  const table = (tag: string) => tables.find(entry => entry.tag === tag);
+  const head = table('head');
+  const loca = table('loca');
+  const glyf = table('glyf');
+  // Short loca offsets are always even already
+  if (!head || !loca || !glyf || view.getInt16(head.offset + 50) !== 1) return font;
+
+  const glyphCount = loca.length / 4 - 1;
+  const offsets: number[] = [];
+  for (let i = 0; i <= glyphCount; i++) {
+    offsets.push(view.getUint32(loca.offset + i * 4));
+  }
+  let paddedLength = 0;
+  for (let i = 0; i < glyphCount; i++) {
+    const length = offsets[i + 1] - offsets[i];
+    paddedLength += length + (length % 2);
+  }
+  if (paddedLength === offsets[glyphCount]) return font;
+
+  const newGlyf = new Uint8Array(paddedLength);
+  const newLoca = new Uint8Array(loca.length);
+  const locaView = new DataView(newLoca.buffer);
+  let position = 0;
+  for (let i = 0; i < glyphCount; i++) {
+    const length = offsets[i + 1] - offsets[i];
+    locaView.setUint32(i * 4, position);
+    newGlyf.set(font.subarray(glyf.offset + offsets[i], glyf.offset + offsets[i + 1]), position);
+    position += length + (length % 2);
+  }
+  locaView.setUint32(glyphCount * 4, position);
+
+  // Rebuild the file with the tables in their original order, each aligned to four bytes
+  const contents = tables.map(entry =>
+    entry === glyf ? newGlyf : entry === loca ? newLoca : font.subarray(entry.offset, entry.offset + entry.length)
+  );
+  const headerLength = 12 + tableCount * 16;
+  const total = contents.reduce((sum, content) => sum + Math.ceil(content.length / 4) * 4, headerLength);
+  const output = new Uint8Array(total);
+  const outputView = new DataView(output.buffer);
+  output.set(font.subarray(0, headerLength));
+  let offset = headerLength;
+  contents.forEach((content, i) => {
+    const record = 12 + i * 16;
+    output.set(content, offset);
+    outputView.setUint32(record + 4, checksum(output, offset, content.length));
+    outputView.setUint32(record + 8, offset);
+    outputView.setUint32(record + 12, content.length);
+    offset += Math.ceil(content.length / 4) * 4;
+  });
+  return output;
+}
+
+function checksum(bytes: Uint8Array, offset: number, length: number): number {
+  let sum = 0;
+  for (let i = 0; i < length; i += 4) {
+    const word =
+      ((bytes[offset + i] << 24) | (bytes[offset + i + 1] << 16) | (bytes[offset + i + 2] << 8) | bytes[offset + i + 3]) >>> 0;
+    sum = (sum + word) >>> 0;
+  }
+  return sum;
+}
@@ -0,0 +1,232 @@
+import {
+  PDFDocument,
+  PDFFont,
+  PDFPage,
+  RGB,
+  StandardFonts,
+  concatTransformationMatrix,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+} from 'pdf-lib';
+import { FontFamily } from './fonts';
+import { Margins } from './layout';
+import { pageView } from './page-view';
+
+// Header and footer templates shared by the server converters and the browser tools. Each band
+// has left, center and right slots whose text can use the tokens below.
+
+export type SlotPosition = 'left' | 'center' | 'right';
+
+export type Slots = Partial<Record<SlotPosition, string>>;
+
+export interface HeaderFooterTemplate {
+  header: Slots;
+  footer: Slots;
+  fontFamily: FontFamily;
+  fontSize: number;
+  skipFirstPage: boolean; // leave the first page bare, as for a title page
+}
+
+// What the tokens stand for; {page} and {pages} are filled in per page
+export interface StampValues {
+  title: string;
+  filename: string;
+  date: string;
+  author: string;
+}
+
+// The template fields as typed into a form or sent to the conversion endpoint
+export const HEADER_FOOTER_FIELDS = [
+  'headerLeft', 'headerCenter', 'headerRight', 'footerLeft', 'footerCenter', 'footerRight',
+] as const;
+
+export type HeaderFooterInput = Partial<Record<(typeof HEADER_FOOTER_FIELDS)[number], string>> & {
+  headerFooterFont?: string;
+  headerFooterSize?: string;
+  skipFirstPage?: string;
+};
+
+export type HeaderFooterResult = { template: HeaderFooterTemplate | null } | { error: string };
+
+// The font calls a stamp needs. The server passes a font stack with Unicode fallbacks;
+// the browser uses a standard font through standardStampFont.
+export interface StampFont {
+  widthOfTextAtSize(text: string, size: number): number;
+  drawText(page: PDFPage, text: string, options: { x: number; y: number; size: number; color?: RGB; opacity?: number }): void;
+}
+
+export const TOKENS = ['page', 'pages', 'title', 'filename', 'date', 'author'];
+
+// What converted documents had before templates: page numbers at the bottom-left
+export const DEFAULT_HEADER_FOOTER: HeaderFooterTemplate = {
+  header: {},
+  footer: { left: 'Page {page} of {pages}' },
+  fontFamily: 'helvetica',
+  fontSize: 10,
+  skipFirstPage: false,
+};
+
+// Half-inch bands for PDFs made in the browser or uploaded, whose real margins are unknown
+export const STAMP_MARGINS: Margins = { top: 36, right: 36, bottom: 36, left: 36 };
+
+const STANDARD_FONTS: Record<FontFamily, StandardFonts> = {
+  helvetica: StandardFonts.Helvetica,
+  times: StandardFonts.TimesRoman,
+  courier: StandardFonts.Courier,
+};
+
+const STAMP_COLOR = rgb(0.5, 0.5, 0.5);
+const MAX_SLOT_LENGTH = 200;
+const FONT_SIZE_RANGE = [6, 24];
+const POSITIONS: SlotPosition[] = ['left', 'center', 'right'];
+
+// Check the template fields. No slot text at all means the caller did not ask for a template.
+export function parseHeaderFooter(input: HeaderFooterInput): HeaderFooterResult {
+  const template: HeaderFooterTemplate = { ...DEFAULT_HEADER_FOOTER, header: {}, footer: {} };
+  let hasText = false;
+  for (const name of HEADER_FOOTER_FIELDS) {
+    const value = (input[name] || '').trim();
+    if (!value) continue;
+    if (value.length > MAX_SLOT_LENGTH) return { error: `${name} must be at most ${MAX_SLOT_LENGTH} characters` };
+    const unknown = (value.match(/\{[^{}]*\}/g) || []).find(token => TOKENS.indexOf(token.slice(1, -1)) === -1);
+    if (unknown) {
+      return { error: `Unknown token ${unknown} in ${name}. Use ${TOKENS.map(token => `{${token}}`).join(', ')}` };
+    }
+    const band = name.indexOf('header') === 0 ? template.header : template.footer;
+    band[name.replace(/^(header|footer)/, '').toLowerCase() as SlotPosition] = value;
+    hasText = true;
+  }
+  if (!hasText) return { template: null };
+
+  const font = (input.headerFooterFont || '').trim().toLowerCase();
+  if (font) {
+    if (!STANDARD_FONTS.hasOwnProperty(font)) {
+      return { error: `Unsupported header and footer font "${font}". Use one of: ${Object.keys(STANDARD_FONTS).join(', ')}` };
+    }
+    template.fontFamily = font as FontFamily;
+  }
+  const size = (input.headerFooterSize || '').trim();
+  if (size) {
+    const fontSize = Number(size);
+    if (isNaN(fontSize) || fontSize < FONT_SIZE_RANGE[0] || fontSize > FONT_SIZE_RANGE[1]) {
+      return { error: `Header and footer size must be a number from ${FONT_SIZE_RANGE[0]} to ${FONT_SIZE_RANGE[1]}` };
+    }
+    template.fontSize = fontSize;
+  }
+  template.skipFirstPage = input.skipFirstPage === 'true';
+  return { template };
+}
+
+// Read the template fields of an upload to the conversion endpoints
+export function parseHeaderFooterFields(formData: FormData): HeaderFooterResult {
+  const input: Record<string, string> = {};
+  for (const name of ['headerFooterFont', 'headerFooterSize', 'skipFirstPage'].concat(HEADER_FOOTER_FIELDS)) {
+    const value = formData.get(name);
+    if (typeof value === 'string') input[name] = value;
+  }
+  return parseHeaderFooter(input);
+}
+
+export function stampValues(fileName: string, title: string, author = ''): StampValues {
+  return { title, filename: fileName, date: new Date().toISOString().slice(0, 10), author };
+}
+
+// All the text the template will draw, so the fonts it needs can be embedded up front
+export function headerFooterText(template: HeaderFooterTemplate, values: StampValues, pageCount: number): string {
+  let text = '';
+  for (let page = 1; page <= pageCount; page++) {
+    if (page === 1 && template.skipFirstPage) continue;
+    for (const band of [template.header, template.footer]) {
+      POSITIONS.forEach(position => {
+        text += fillTokens(band[position] || '', values, page, pageCount);
+      });
+    }
+  }
+  return text;
+}
+
+// Draw the header and footer on every page, inside the margins: the header centred in the top margin
+// and the footer's baseline halfway up the bottom one
+export function drawHeaderFooter(
+  pdfDoc: PDFDocument,
+  template: HeaderFooterTemplate,
+  values: StampValues,
+  font: StampFont,
+  margins: Margins
+) {
+  const pages = pdfDoc.getPages();
+  const size = template.fontSize;
+  pages.forEach((page, index) => {
+    if (index === 0 && template.skipFirstPage) return;
+    // Placed on the page as a viewer shows it, which for existing PDFs may be rotated or have a
+    // crop box that does not start at the origin
+    const view = pageView(page);
+    const angle = (view.turn * Math.PI) / 180;
+    const bands: [Slots, number][] = [
+      [template.header, view.height - margins.top / 2 - size * 0.35],
+      [template.footer, margins.bottom / 2],
+    ];
+    for (const [band, v] of bands) {
+      for (const position of POSITIONS) {
+        const text = fillTokens(band[position] || '', values, index + 1, pages.length);
+        if (!text) continue;
+        const width = font.widthOfTextAtSize(text, size);
+        const u =
+          position === 'left' ? margins.left :
+          position === 'center' ? (view.width - width) / 2 :
+          view.width - margins.right - width;
+        const [x, y] = view.toPage(u, v);
+        if (view.turn === 0) {
+          font.drawText(page, text, { x, y, size, color: STAMP_COLOR });
+          continue;
+        }
+        page.pushOperators(
+          pushGraphicsState(),
+          concatTransformationMatrix(Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), x, y)
+        );
+        font.drawText(page, text, { x: 0, y: 0, size, color: STAMP_COLOR });
+        page.pushOperators(popGraphicsState());
+      }
+    }
+  });
+}
+
+// Stamp with a standard font, for the browser where the bundled Unicode fonts are not available
+export async function stampHeaderFooter(
+  pdfDoc: PDFDocument,
+  template: HeaderFooterTemplate,
+  values: StampValues,
+  margins: Margins
+) {
+  const font = await pdfDoc.embedFont(STANDARD_FONTS[template.fontFamily]);
+  drawHeaderFooter(pdfDoc, template, values, standardStampFont(font), margins);
+}
+
+// Stamp a finished PDF, keeping its existing document properties
+export async function withHeaderFooter(
+  pdfBytes: ArrayBuffer | Uint8Array,
+  template: HeaderFooterTemplate,
+  values: StampValues,
+  margins = STAMP_MARGINS
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  await stampHeaderFooter(pdfDoc, template, values, margins);
+  return pdfDoc.save();
+}
+
+// Characters the standard font cannot encode are drawn as '?' instead of failing the whole stamp
+export function standardStampFont(font: PDFFont): StampFont {
+  const characters = new Set(font.getCharacterSet());
+  const encodable = (text: string) =>
+    Array.from(text).map(char => (characters.has(char.codePointAt(0) || 0) ? char : '?')).join('');
+  return {
+    widthOfTextAtSize: (text, size) => font.widthOfTextAtSize(encodable(text), size),
+    drawText: (page, text, options) => page.drawText(encodable(text), { ...options, font }),
+  };
+}
+
+function fillTokens(text: string, values: StampValues, page: number, pages: number): string {
+  const tokens: Record<string, string> = { ...values, page: String(page), pages: String(pages) };
+  return text.replace(/\{(\w+)\}/g, (match, name) => (tokens.hasOwnProperty(name) ? tokens[name] : match)).trim();
+}
@@ -0,0 +1,232 @@
+import { parse, HTMLElement, Node, NodeType, TextNode } from 'node-html-parser';
+import { Block, LINK_COLOR, ListItem, TableCell, TextRun } from './layout';
+
+type RunStyle = Omit<TextRun, 'text'>;
+type Alignment = 'left' | 'center' | 'right';
+
+const HEADING_TAGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+const CONTAINER_TAGS = [
+  'div', 'section', 'article', 'main', 'header', 'footer', 'nav', 'aside',
+  'figure', 'figcaption', 'address', 'center', 'dl', 'dt', 'dd', 'form', 'fieldset',
+];
+const BLOCK_TAGS = [
+  'p', 'li', 'ul', 'ol', 'table', 'img', 'blockquote', 'pre', 'hr',
+  ...HEADING_TAGS,
+  ...CONTAINER_TAGS,
+];
+// Elements whose content is never meant to be read as document text
+const IGNORED_TAGS = [
+  'script', 'style', 'noscript', 'template', 'head', 'title', 'svg',
+  'iframe', 'object', 'embed', 'canvas', 'button', 'select', 'input', 'textarea',
+];
+
+// Convert an HTML fragment or document into layout blocks
+export function htmlToBlocks(html: string): Block[] {
+  // Parse <pre> as markup so highlighted code keeps its text; scripts and styles stay opaque
+  const root = parse(html, {
+    comment: false,
+    blockTextElements: { script: true, style: true, noscript: true },
+  });
+  const body = root.querySelector('body') || root;
+  return collectBlocks(body.childNodes);
+}
+
+// Walks a sequence of nodes, gathering inline content into paragraphs
+// and flushing them whenever a block-level element starts
+function collectBlocks(nodes: Node[]): Block[] {
+  const blocks: Block[] = [];
+  let runs: TextRun[] = [];
+  let align: Alignment | undefined;
+
+  const flush = () => {
+    const trimmed = trimRuns(runs);
+    if (trimmed.length > 0) {
+      blocks.push(align ? { type: 'paragraph', runs: trimmed, align } : { type: 'paragraph', runs: trimmed });
+    }
+    runs = [];
+  };
+
+  const visit = (node: Node, style: RunStyle) => {
+    if (node.nodeType === NodeType.TEXT_NODE) {
+      const text = (node as TextNode).text.replace(/\s+/g, ' ');
+      if (text) runs.push({ ...style, text });
+      return;
+    }
+    if (node.nodeType !== NodeType.ELEMENT_NODE) return;
+
+    const element = node as HTMLElement;
+    const tag = element.tagName.toLowerCase();
+    if (IGNORED_TAGS.includes(tag)) return;
+
+    if (!BLOCK_TAGS.includes(tag)) {
+      if (tag === 'br') {
+        runs.push({ ...style, text: '\n' });
+        return;
+      }
+      const childStyle = inlineStyle(element, style);
+      element.childNodes.forEach(child => visit(child, childStyle));
+      return;
+    }
+
+    flush();
+    if (HEADING_TAGS.includes(tag)) {
+      const headingRuns = trimRuns(collectRuns(element.childNodes, style));
+      if (headingRuns.length > 0) {
+        blocks.push({ type: 'heading', level: Number(tag.charAt(1)), runs: headingRuns });
+      }
+    } else if (tag === 'ul' || tag === 'ol') {
+      blocks.push(listBlock(element));
+    } else if (tag === 'table') {
+      blocks.push(tableBlock(element));
+    } else if (tag === 'img') {
+      const image = imageBlock(element);
+      if (image) blocks.push(image);
+    } else if (tag === 'blockquote') {
+      blocks.push({ type: 'quote', blocks: collectBlocks(element.childNodes) });
+    } else if (tag === 'pre') {
+      // The newline directly after <pre> is not part of the content
+      blocks.push({ type: 'code', text: element.text.replace(/^\r?\n/, '').replace(/\s+$/, '') });
+    } else if (tag === 'hr') {
+      blocks.push({ type: 'rule' });
+    } else {
+      const outerAlign = align;
+      align = alignmentOf(element) || (tag === 'center' ? 'center' : align);
+      element.childNodes.forEach(child => visit(child, style));
+      flush();
+      align = outerAlign;
+    }
+  };
+
+  nodes.forEach(node => visit(node, {}));
+  flush();
+  return blocks;
+}
+
+// Flatten inline content into runs, turning nested paragraphs into line breaks
+function collectRuns(nodes: Node[], style: RunStyle): TextRun[] {
+  const runs: TextRun[] = [];
+  nodes.forEach(node => {
+    if (node.nodeType === NodeType.TEXT_NODE) {
+      runs.push({ ...style, text: (node as TextNode).text.replace(/\s+/g, ' ') });
+      return;
+    }
+    if (node.nodeType !== NodeType.ELEMENT_NODE) return;
+
+    const element = node as HTMLElement;
+    const tag = element.tagName.toLowerCase();
+    if (IGNORED_TAGS.includes(tag)) return;
+    if (tag === 'br') {
+      runs.push({ ...style, text: '\n' });
+    } else if (BLOCK_TAGS.includes(tag)) {
+      if (runs.length > 0) runs.push({ ...style, text: '\n' });
+      runs.push(...trimRuns(collectRuns(element.childNodes, style)));
+    } else {
+      runs.push(...collectRuns(element.childNodes, inlineStyle(element, style)));
+    }
+  });
+  return runs;
+}
+
+function inlineStyle(element: HTMLElement, style: RunStyle): RunStyle {
+  const tag = element.tagName.toLowerCase();
+  switch (tag) {
+    case 'strong':
+    case 'b':
+      return { ...style, bold: true };
+    case 'em':
+    case 'i':
+      return { ...style, italic: true };
+    case 'u':
+    case 'ins':
+      return { ...style, underline: true };
+    case 'code':
+    case 'kbd':
+    case 'samp':
+    case 'tt':
+      return { ...style, monospace: true };
+    case 'a': {
+      // Only web and mail links become clickable, anchors and script URLs stay plain text
+      const href = (element.getAttribute('href') || '').trim();
+      if (!/^(https?:|mailto:)/i.test(href)) return style;
+      return { ...style, link: href, color: LINK_COLOR, underline: true };
+    }
+    default:
+      return style;
+  }
+}
+
+function alignmentOf(element: HTMLElement): Alignment | undefined {
+  const style = element.getAttribute('style') || '';
+  const match = style.match(/text-align\s*:\s*(left|center|right)/i);
+  const value = (match ? match[1] : element.getAttribute('align') || '').toLowerCase();
+  return value === 'left' || value === 'center' || value === 'right' ? value : undefined;
+}
+
+function listBlock(element: HTMLElement): Block {
+  const items: ListItem[] = element.childNodes
+    .filter(child => child instanceof HTMLElement && child.tagName.toLowerCase() === 'li')
+    .map(child => ({ blocks: collectBlocks(child.childNodes) }));
+
+  return {
+    type: 'list',
+    ordered: element.tagName.toLowerCase() === 'ol',
+    start: Number(element.getAttribute('start')) || 1,
+    items,
+  };
+}
+
+function tableBlock(table: HTMLElement): Block {
+  const rows: TableCell[][] = [];
+  let headerRows = 0;
+  let countingHeaders = true;
+
+  // Nested tables belong to their own cell, so only take rows owned by this table
+  const ownRows = table.querySelectorAll('tr').filter(row => row.closest('table') === table);
+
+  for (const row of ownRows) {
+    const cells = row.childNodes
+      .filter((child): child is HTMLElement => child instanceof HTMLElement)
+      .filter(child => ['td', 'th'].includes(child.tagName.toLowerCase()))
+      .map(cell => ({
+        runs: trimRuns(collectRuns(cell.childNodes, {})),
+        header: cell.tagName.toLowerCase() === 'th',
+      }));
+    if (cells.length === 0) continue;
+
+    const inHead = row.parentNode && row.parentNode.tagName.toLowerCase() === 'thead';
+    if (countingHeaders && (inHead || cells.every(cell => cell.header))) {
+      headerRows++;
+    } else {
+      countingHeaders = false;
+    }
+    rows.push(cells);
+  }
+
+  return { type: 'table', rows, headerRows };
+}
+
+// Only inline data URIs can be embedded; remote images are never fetched
+function imageBlock(element: HTMLElement): Block | null {
+  const match = (element.getAttribute('src') || '').match(/^data:image\/(png|jpe?g);base64,(.*)$/i);
+  if (!match) return null;
+
+  return {
+    type: 'image',
+    bytes: new Uint8Array(Buffer.from(match[2], 'base64')),
+    format: match[1].toLowerCase() === 'png' ? 'png' : 'jpg',
+    width: Number(element.getAttribute('width')) || undefined,
+    height: Number(element.getAttribute('height')) || undefined,
+  };
+}
+
+// Drop leading and trailing whitespace so paragraphs do not start with a space
+function trimRuns(runs: TextRun[]): TextRun[] {
+  const result = runs.map(run => ({ ...run }));
+  while (result.length > 0 && result[0].text.trim() === '') result.shift();
+  while (result.length > 0 && result[result.length - 1].text.trim() === '') result.pop();
+  if (result.length > 0) {
+    result[0].text = result[0].text.replace(/^ +/, '');
+    result[result.length - 1].text = result[result.length - 1].text.replace(/ +$/, '');
+  }
+  return result;
+}
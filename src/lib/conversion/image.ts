@@ -0,0 +1,92 @@
+import * as bmp from 'bmp-js';
+import sharp, { Sharp } from 'sharp';
+import { ConversionLimitError, checkPageCount } from './limits';
+
+export const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'bmp', 'webp', 'tif', 'tiff'];
+
+// The most pixels sharp decodes by default (its limitInputPixels), which BMP files are held to as well
+const MAX_IMAGE_PIXELS = 0x3fff * 0x3fff;
+
+// An image pdf-lib can embed directly, already turned the right way up
+export interface PageImage {
+  bytes: Uint8Array;
+  format: 'png' | 'jpg';
+  width: number;
+  height: number;
+}
+
+// Decode an uploaded image into the images to place on pages. JPEG and PNG files that need no
+// rotation are passed through untouched; everything else is re-encoded by sharp, applying the
+// EXIF orientation. A multi-page TIFF gives one image per page; animated GIF and WebP files
+// give their first frame.
+export async function decodeImage(data: Buffer, extension: string): Promise<PageImage[]> {
+  if (extension === 'bmp') {
+    return [await toPageImage(bmpToSharp(data), 'png')];
+  }
+
+  const metadata = await sharp(data).metadata();
+  const upright = !metadata.orientation || metadata.orientation === 1;
+  if (upright && (metadata.format === 'jpeg' || metadata.format === 'png') && metadata.width && metadata.height) {
+    return [{
+      bytes: data,
+      format: metadata.format === 'jpeg' ? 'jpg' : 'png',
+      width: metadata.width,
+      height: metadata.height,
+    }];
+  }
+
+  // Photos stay JPEG when they are rotated; other formats become lossless PNG
+  const format = metadata.format === 'jpeg' ? 'jpg' : 'png';
+  const pageCount = metadata.format === 'tiff' ? metadata.pages || 1 : 1;
+  checkPageCount(pageCount);
+
+  const images: PageImage[] = [];
+  for (let page = 0; page < pageCount; page++) {
+    images.push(await toPageImage(sharp(data, { page }).rotate(), format));
+  }
+  return images;
+}
+
+async function toPageImage(image: Sharp, format: 'png' | 'jpg'): Promise<PageImage> {
+  const encoded = format === 'jpg' ? image.jpeg({ quality: 92 }) : image.png();
+  const { data, info } = await encoded.toBuffer({ resolveWithObject: true });
+  return { bytes: data, format, width: info.width, height: info.height };
+}
+
+// bmp-js decodes to ABGR, with the alpha byte only meaningful in 32-bit files that use it
+function bmpToSharp(data: Buffer): Sharp {
+  checkBmpHeader(data);
+  const decoded = bmp.decode(data);
+  const pixels = Buffer.alloc(decoded.width * decoded.height * 4);
+  let hasAlpha = false;
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (decoded.data[i] !== 0) hasAlpha = true;
+  }
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels[i] = decoded.data[i + 3];
+    pixels[i + 1] = decoded.data[i + 2];
+    pixels[i + 2] = decoded.data[i + 1];
+    pixels[i + 3] = hasAlpha ? decoded.data[i] : 255;
+  }
+  return sharp(pixels, { raw: { width: decoded.width, height: decoded.height, channels: 4 } });
+}
+
+// bmp-js allocates the whole bitmap from the header's size before reading a pixel, so the size is
+// checked first against the pixel limit and, for uncompressed files, against the data actually there
+function checkBmpHeader(data: Buffer) {
+  if (data.length < 34 || data.readUInt32LE(14) < 40) throw new Error('Unsupported BMP header');
+  const width = data.readInt32LE(18);
+  const height = Math.abs(data.readInt32LE(22));
+  const bitsPerPixel = data.readUInt16LE(28);
+  const compression = data.readUInt32LE(30);
+  if (width <= 0 || height === 0) throw new Error('Invalid BMP dimensions');
+  if (width * height > MAX_IMAGE_PIXELS) {
+    throw new ConversionLimitError(`The image is too large to convert: it has more than ${MAX_IMAGE_PIXELS} pixels`);
+  }
+
+  // Rows are padded to whole 4-byte words; RLE-compressed files (1 and 2) have no fixed size
+  const rowBytes = Math.ceil((width * bitsPerPixel) / 32) * 4;
+  if (compression !== 1 && compression !== 2 && data.readUInt32LE(10) + rowBytes * height > data.length) {
+    throw new Error('BMP pixel data is shorter than its header declares');
+  }
+}
@@ -0,0 +1,166 @@
+import type { BatchEntry } from './batch';
+import { ConversionStage } from './convert';
+import { ConversionLimitError } from './limits';
+
+export type JobStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+// What the status endpoint reports for a conversion job
+export interface JobState {
+  jobId: string;
+  fileName: string; // the uploaded file, or how many files a batch has
+  outputName: string; // what the PDF will be called when downloaded
+  status: JobStatus;
+  stage: ConversionStage | null;
+  progress: number; // percent complete
+  error?: string; // why a failed job failed; stage says where
+  file?: JobFile; // for a batch, the file being converted
+  manifest?: BatchEntry[]; // for a batch, what became of each file once it is finished
+  updatedAt: number;
+}
+
+// Which of a batch's files a job is working on
+export interface JobFile {
+  name: string;
+  number: number; // one-based
+  count: number;
+}
+
+// A job that cannot finish for a reason worth showing the user as it is
+export class JobFailure extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobFailure';
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, JobFailure.prototype);
+  }
+}
+
+type JobListener = (state: JobState) => void;
+
+// A job reports each stage it reaches, with the file it is on for a batch, and a batch's manifest
+interface Job {
+  state: JobState;
+  run: (
+    onStage: (stage: ConversionStage, file?: JobFile) => void,
+    setManifest: (manifest: BatchEntry[]) => void
+  ) => Promise<void>;
+  listeners: JobListener[];
+}
+
+// How far along a job is once it reaches each stage
+const STAGE_PROGRESS: Record<ConversionStage, number> = {
+  reading: 10,
+  parsing: 25,
+  rendering: 50,
+  saving: 85,
+};
+
+const FAILURE_REASONS: Record<ConversionStage, string> = {
+  reading: 'The uploaded file could not be read',
+  parsing: 'The file is damaged or is not in the format its extension suggests',
+  rendering: 'The document could not be laid out',
+  saving: 'The PDF could not be saved',
+};
+
+// Finished jobs are forgotten after an hour
+const JOB_RETENTION = 60 * 60 * 1000;
+
+// Next.js may load this module once per route, so the queue lives on the global object
+interface JobStore {
+  jobs: Map<string, Job>;
+  queue: string[];
+  running: boolean;
+}
+
+const globalStore = globalThis as typeof globalThis & { conversionJobs?: JobStore };
+const store: JobStore = globalStore.conversionJobs || (globalStore.conversionJobs = {
+  jobs: new Map(),
+  queue: [],
+  running: false,
+});
+
+// Queue a conversion; jobs run one at a time in the order they were added
+export function enqueueJob(jobId: string, fileName: string, outputName: string, run: Job['run']): JobState {
+  pruneJobs();
+  const job: Job = {
+    state: { jobId, fileName, outputName, status: 'queued', stage: null, progress: 0, updatedAt: Date.now() },
+    run,
+    listeners: [],
+  };
+  store.jobs.set(jobId, job);
+  store.queue.push(jobId);
+  runQueue();
+  return { ...job.state };
+}
+
+export function getJob(jobId: string): JobState | null {
+  const job = store.jobs.get(jobId);
+  return job ? { ...job.state } : null;
+}
+
+export function isFinished(state: JobState): boolean {
+  return state.status === 'done' || state.status === 'failed';
+}
+
+// Call listener on every change to the job until it finishes; returns an unsubscribe function
+export function watchJob(jobId: string, listener: JobListener): () => void {
+  const job = store.jobs.get(jobId);
+  if (!job) return () => undefined;
+  job.listeners.push(listener);
+  return () => {
+    job.listeners = job.listeners.filter(other => other !== listener);
+  };
+}
+
+async function runQueue() {
+  if (store.running) return;
+  store.running = true;
+  try {
+    let jobId: string | undefined;
+    while ((jobId = store.queue.shift()) !== undefined) {
+      const job = store.jobs.get(jobId);
+      if (!job) continue;
+      update(job, { status: 'processing', progress: 5 });
+      try {
+        await job.run(
+          (stage, file) => update(job, { stage, file, progress: stageProgress(stage, file) }),
+          manifest => update(job, { manifest })
+        );
+        update(job, { status: 'done', stage: null, file: undefined, progress: 100 });
+      } catch (error) {
+        console.error(`Error running conversion job ${jobId}:`, error);
+        update(job, { status: 'failed', error: failureReason(error, job.state.stage) });
+      }
+    }
+  } finally {
+    store.running = false;
+  }
+}
+
+function update(job: Job, changes: Partial<JobState>) {
+  job.state = { ...job.state, ...changes, updatedAt: Date.now() };
+  const state = { ...job.state };
+  job.listeners.forEach(listener => listener(state));
+  if (isFinished(state)) job.listeners = [];
+}
+
+// A batch moves through the stages once per file, so each file takes an equal share of the progress
+function stageProgress(stage: ConversionStage, file?: JobFile): number {
+  if (!file) return STAGE_PROGRESS[stage];
+  const start = STAGE_PROGRESS.reading;
+  return Math.round(start + ((file.number - 1 + STAGE_PROGRESS[stage] / 100) / file.count) * (100 - start));
+}
+
+// Library error messages are long and can contain server paths, so the reason is given by stage
+// unless the file hit one of the conversion limits
+function failureReason(error: unknown, stage: ConversionStage | null): string {
+  if (error instanceof ConversionLimitError || error instanceof JobFailure) return error.message;
+  return stage ? FAILURE_REASONS[stage] : 'The file could not be converted';
+}
+
+function pruneJobs() {
+  const cutoff = Date.now() - JOB_RETENTION;
+  store.jobs.forEach((job, jobId) => {
+    if (isFinished(job.state) && job.state.updatedAt < cutoff) store.jobs.delete(jobId);
+  });
+}
@@ -0,0 +1,930 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage, PDFString, RGB, rgb } from 'pdf-lib';
+import { FontFamily, FontSet, FontStack, embedFonts } from './fonts';
+import { checkPageCount } from './limits';
+
+// A run of text that shares one set of character styles
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  monospace?: boolean;
+  size?: number;
+  color?: RGB;
+  link?: string;
+}
+
+export interface ListItem {
+  blocks: Block[];
+}
+
+export interface TableCell {
+  runs: TextRun[];
+  header?: boolean;
+  align?: 'left' | 'center' | 'right';
+}
+
+// Format-neutral document model that every parser produces and the layout engine draws
+export type Block =
+  | { type: 'heading'; level: number; runs: TextRun[] }
+  | { type: 'paragraph'; runs: TextRun[]; align?: 'left' | 'center' | 'right' }
+  | { type: 'list'; ordered: boolean; start?: number; items: ListItem[] }
+  | { type: 'table'; rows: TableCell[][]; headerRows?: number }
+  | { type: 'image'; bytes: Uint8Array; format: 'png' | 'jpg'; width?: number; height?: number }
+  | { type: 'quote'; blocks: Block[] }
+  | { type: 'code'; text: string }
+  | { type: 'preformatted'; text: string; lineNumbers?: boolean }
+  | { type: 'contents' } // lists the headings that follow it, with their page numbers
+  | { type: 'rule' }
+  | { type: 'pageBreak' };
+
+export interface Margins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface LayoutOptions {
+  pageSize: [number, number];
+  margins: Margins;
+  fontFamily: FontFamily;
+  fontSize: number;
+  lineHeight: number;
+  paragraphSpacing: number; // multiple of fontSize left after each paragraph
+}
+
+export const DEFAULT_LAYOUT: LayoutOptions = {
+  pageSize: [612, 792], // Letter size
+  margins: { top: 50, right: 50, bottom: 50, left: 50 },
+  fontFamily: 'helvetica',
+  fontSize: 12,
+  lineHeight: 1.5,
+  paragraphSpacing: 0.75,
+};
+
+// A fixed box on an existing page, such as a text box on a slide
+export interface TextFrame {
+  page: PDFPage;
+  x: number;
+  y: number; // top edge
+  width: number;
+  height: number;
+  verticalAlign?: 'top' | 'middle' | 'bottom';
+}
+
+// Where a heading was drawn, for bookmarks and the table of contents
+export interface HeadingAnchor {
+  level: number;
+  title: string;
+  page: PDFPage;
+  top: number;
+}
+
+const HEADING_SCALE = [1.75, 1.5, 1.25, 1.1, 1, 0.9];
+const LIST_INDENT = 1.5; // in ems of the base font size
+const BULLETS = ['•', '–', '•'];
+const CELL_PADDING = 4;
+const QUOTE_INDENT = 14;
+const TAB_WIDTH = 4;
+const CONTINUATION_MARKER = '\u21aa'; // ↪ starts a preformatted line that did not fit
+const GUTTER_COLOR = rgb(0.55, 0.55, 0.55);
+const CONTENTS_NUMBER_WIDTH = '0000'; // room kept for the page numbers in a table of contents
+const TEXT_COLOR = rgb(0, 0, 0);
+export const LINK_COLOR = rgb(0.1, 0.3, 0.75);
+
+interface Segment {
+  text: string;
+  font: PDFFont;
+  size: number;
+  color: RGB;
+  underline: boolean;
+  link?: string;
+  width: number;
+}
+
+interface Line {
+  segments: Segment[];
+  width: number;
+  size: number;
+}
+
+interface LineStart {
+  page: PDFPage;
+  top: number;
+}
+
+// A table of contents line waiting for the page number of its heading
+interface ContentsSlot {
+  page: PDFPage;
+  top: number;
+  height: number;
+  baseline: number;
+  size: number;
+}
+
+// Lay the blocks out on as many pages as they need, appending to the document, and return
+// where each heading ended up
+export async function renderBlocks(
+  pdfDoc: PDFDocument,
+  blocks: Block[],
+  options: Partial<LayoutOptions> = {}
+): Promise<HeadingAnchor[]> {
+  const layoutOptions = { ...DEFAULT_LAYOUT, ...options };
+  const fonts = await embedFonts(pdfDoc, blocksText(blocks), layoutOptions.fontFamily);
+  const layout = new BlockLayout(pdfDoc, fonts, layoutOptions);
+  await layout.render(blocks);
+  return layout.headings;
+}
+
+// Lay the blocks out inside a fixed frame; text that overflows the frame keeps going below it
+export async function renderBlocksInFrame(
+  pdfDoc: PDFDocument,
+  blocks: Block[],
+  frame: TextFrame,
+  options: Partial<LayoutOptions> = {}
+) {
+  const layoutOptions = { ...DEFAULT_LAYOUT, ...options };
+  const fonts = await embedFonts(pdfDoc, blocksText(blocks), layoutOptions.fontFamily);
+  const layout = new BlockLayout(pdfDoc, fonts, layoutOptions, frame);
+  await layout.render(blocks);
+}
+
+// All the text in the blocks, so the fonts it needs can be embedded up front
+function blocksText(blocks: Block[]): string {
+  const runsText = (runs: TextRun[]) => runs.map(run => run.text).join('');
+  return blocks
+    .map(block => {
+      switch (block.type) {
+        case 'heading':
+        case 'paragraph':
+          return runsText(block.runs);
+        case 'list':
+          return block.items.map(item => blocksText(item.blocks)).join('');
+        case 'table':
+          return block.rows.map(row => row.map(cell => runsText(cell.runs)).join('')).join('');
+        case 'quote':
+          return blocksText(block.blocks);
+        case 'code':
+          return block.text;
+        case 'preformatted':
+          return block.text + CONTINUATION_MARKER;
+        case 'contents':
+          return '.\u20260123456789';
+        default:
+          return '';
+      }
+    })
+    .join('');
+}
+
+function headingTitle(runs: TextRun[]): string {
+  return runs.map(run => run.text).join('').replace(/\s+/g, ' ').trim();
+}
+
+// The headings listed by a contents block: every one after it, in the order they are laid out
+function contentsEntries(blocks: Block[]): { level: number; title: string }[] {
+  let entries: { level: number; title: string }[] = [];
+  const walk = (children: Block[]) => {
+    for (const block of children) {
+      if (block.type === 'contents') {
+        entries = [];
+      } else if (block.type === 'heading') {
+        const title = headingTitle(block.runs);
+        if (title) entries.push({ level: block.level, title });
+      } else if (block.type === 'quote') {
+        walk(block.blocks);
+      } else if (block.type === 'list') {
+        block.items.forEach(item => walk(item.blocks));
+      }
+    }
+  };
+  walk(blocks);
+  return entries;
+}
+
+class BlockLayout {
+  readonly headings: HeadingAnchor[] = [];
+
+  private page: PDFPage | null = null;
+  private y = 0;
+  private top: number;
+  private bottom: number;
+  private left: number;
+  private width: number;
+  private pendingMarker: string | null = null;
+  private listDepth = 0;
+  private quoteBars: number[] = [];
+  private lineBackground: RGB | null = null;
+  private trailingSpace = 0;
+  private dryRun = false;
+  private images = new Map<Uint8Array, PDFImage | null>();
+  private contents: { level: number; title: string }[] = [];
+  private contentsStart = 0;
+  private contentsSlots: ContentsSlot[] = [];
+
+  constructor(
+    private pdfDoc: PDFDocument,
+    private fonts: FontSet,
+    private options: LayoutOptions,
+    private frame: TextFrame | null = null
+  ) {
+    if (frame) {
+      // Frames never paginate, so there is no bottom edge to break at
+      this.page = frame.page;
+      this.top = frame.y;
+      this.bottom = -Infinity;
+      this.left = frame.x;
+      this.width = frame.width;
+    } else {
+      const { margins } = options;
+      this.top = options.pageSize[1] - margins.top;
+      this.bottom = margins.bottom;
+      this.left = margins.left;
+      this.width = options.pageSize[0] - margins.left - margins.right;
+    }
+    this.y = this.top;
+  }
+
+  async render(blocks: Block[]) {
+    const frame = this.frame;
+    if (frame && frame.verticalAlign && frame.verticalAlign !== 'top') {
+      // Measure with a dry run first so the content can be centred or bottom-aligned
+      this.dryRun = true;
+      await this.renderAll(blocks);
+      this.dryRun = false;
+
+      const used = this.top - this.y - this.trailingSpace;
+      const free = Math.max(0, frame.height - used);
+      this.top = frame.y - (frame.verticalAlign === 'middle' ? free / 2 : free);
+      this.y = this.top;
+    }
+
+    this.ensurePage();
+    this.contents = contentsEntries(blocks);
+    await this.renderAll(blocks);
+    this.fillContents();
+  }
+
+  private async renderAll(blocks: Block[]) {
+    for (const block of blocks) {
+      await this.renderBlock(block);
+    }
+  }
+
+  private space(amount: number) {
+    this.y -= amount;
+    this.trailingSpace = amount;
+  }
+
+  private async renderBlock(block: Block) {
+    const { fontSize, paragraphSpacing } = this.options;
+
+    switch (block.type) {
+      case 'heading': {
+        const size = fontSize * (HEADING_SCALE[block.level - 1] || 1);
+        // No gap above a heading that opens a page or frame
+        if (this.y < this.top) this.y -= size * 0.5;
+        const start = this.drawLines(this.wrapRuns(block.runs, this.width, size, true), 'left', true);
+        const title = headingTitle(block.runs);
+        if (start && title && !this.dryRun) this.headings.push({ level: block.level, title, page: start.page, top: start.top });
+        this.space(size * 0.4);
+        break;
+      }
+      case 'paragraph':
+        this.drawLines(this.wrapRuns(block.runs, this.width, fontSize), block.align || 'left');
+        // Paragraphs inside list items sit closer together than body paragraphs
+        this.space(this.listDepth > 0 ? fontSize * 0.25 : fontSize * paragraphSpacing);
+        break;
+      case 'list':
+        await this.renderList(block.items, block.ordered, block.start || 1);
+        this.space(fontSize * 0.5);
+        break;
+      case 'table':
+        this.renderTable(block.rows, block.headerRows || 0);
+        this.space(fontSize * 0.75);
+        break;
+      case 'image':
+        await this.renderImage(block.bytes, block.format, block.width, block.height);
+        this.space(fontSize * 0.75);
+        break;
+      case 'quote':
+        this.quoteBars.push(this.left + 2);
+        this.left += QUOTE_INDENT;
+        this.width -= QUOTE_INDENT;
+        for (const child of block.blocks) {
+          await this.renderBlock(child);
+        }
+        this.left -= QUOTE_INDENT;
+        this.width += QUOTE_INDENT;
+        this.quoteBars.pop();
+        break;
+      case 'code':
+        this.renderCode(block.text);
+        this.space(fontSize * 0.75);
+        break;
+      case 'preformatted':
+        this.renderPreformatted(block.text, !!block.lineNumbers);
+        this.space(fontSize * 0.75);
+        break;
+      case 'contents':
+        // Page numbers only make sense on paginated output
+        if (!this.frame) {
+          this.renderContents();
+          this.space(fontSize * 0.75);
+        }
+        break;
+      case 'rule':
+        this.renderRule();
+        break;
+      case 'pageBreak':
+        if (!this.frame) this.newPage();
+        break;
+    }
+  }
+
+  private async renderList(items: ListItem[], ordered: boolean, start: number) {
+    const depth = this.listDepth++;
+    const indent = this.listIndent();
+    this.left += indent;
+    this.width -= indent;
+
+    for (let i = 0; i < items.length; i++) {
+      this.pendingMarker = ordered ? `${start + i}.` : BULLETS[depth % BULLETS.length];
+      for (const block of items[i].blocks) {
+        await this.renderBlock(block);
+      }
+      // An item with no text of its own still needs its marker
+      if (this.pendingMarker !== null) {
+        this.drawLines([{ segments: [], width: 0, size: this.options.fontSize }], 'left');
+      }
+    }
+
+    this.listDepth--;
+    this.left -= indent;
+    this.width += indent;
+  }
+
+  // Code keeps its own line breaks and spacing, wrapping only lines wider than the page
+  private renderCode(text: string) {
+    const size = this.options.fontSize * 0.85;
+    const runs = text
+      .replace(/\t/g, '    ')
+      .split(/\r?\n/)
+      .map(line => ({ text: line.replace(/ /g, '\u00a0') + '\n', monospace: true }));
+    if (runs.length > 0) {
+      runs[runs.length - 1].text = runs[runs.length - 1].text.replace(/\n$/, '');
+    }
+
+    this.lineBackground = rgb(0.95, 0.95, 0.95);
+    this.drawLines(this.wrapRuns(runs, this.width - CELL_PADDING * 2, size), 'left', false, CELL_PADDING);
+    this.lineBackground = null;
+  }
+
+  // Preformatted text keeps every line and space exactly. Lines too wide for the page continue on the
+  // next line after a marker, and optional line numbers count source lines rather than wrapped ones.
+  private renderPreformatted(text: string, lineNumbers: boolean) {
+    const size = this.options.fontSize * 0.85;
+    const fonts = this.fonts.monospace;
+    const sourceLines = text.replace(/\r\n?/g, '\n').replace(/\n$/, '').split('\n');
+    const numberWidth = lineNumbers ? String(sourceLines.length).length : 0;
+    const gutter = numberWidth + (lineNumbers ? 2 : 0);
+    const indent = Math.max(gutter, 2); // continuation lines leave room for the marker
+    const charWidth = this.measure(' ', fonts, size);
+    const textWidth = this.width - gutter * charWidth;
+    const continuedWidth = this.width - indent * charWidth;
+
+    const runs: TextRun[] = [];
+    let lineCount = 0;
+    const push = (prefix: string, line: string) => {
+      if (lineCount++ > 0) runs.push({ text: '\n', monospace: true });
+      if (prefix) runs.push({ text: prefix.replace(/ /g, '\u00a0'), monospace: true, color: GUTTER_COLOR });
+      // Non-breaking spaces keep runs of spaces from collapsing when the line is wrapped into segments
+      if (line) runs.push({ text: line.replace(/ /g, '\u00a0'), monospace: true });
+    };
+
+    sourceLines.forEach((sourceLine, index) => {
+      const chunks = this.splitToWidth(expandTabs(sourceLine), fonts, size, textWidth, continuedWidth);
+      const number = lineNumbers ? String(index + 1).padStart(numberWidth) + '  ' : '';
+      chunks.forEach((chunk, chunkIndex) => {
+        push(chunkIndex === 0 ? number : CONTINUATION_MARKER.padStart(indent - 1) + ' ', chunk);
+      });
+    });
+
+    this.drawLines(this.wrapRuns(runs, Infinity, size), 'left');
+  }
+
+  // Cut a line into pieces that fit; the first piece gets firstWidth and the rest restWidth
+  private splitToWidth(line: string, fonts: FontStack, size: number, firstWidth: number, restWidth: number): string[] {
+    const chunks: string[] = [];
+    let chunk = '';
+    let width = 0;
+    for (const char of Array.from(line)) {
+      const charWidth = this.measure(char, fonts, size);
+      const limit = chunks.length === 0 ? firstWidth : restWidth;
+      if (chunk && width + charWidth > limit) {
+        chunks.push(chunk);
+        chunk = '';
+        width = 0;
+      }
+      chunk += char;
+      width += charWidth;
+    }
+    chunks.push(chunk);
+    return chunks;
+  }
+
+  // One line per heading, indented by level, with dot leaders running to a page number column.
+  // The numbers and links are added by fillContents once every heading has been placed.
+  private renderContents() {
+    const size = this.options.fontSize;
+    const fonts = this.fonts.regular;
+    const numberWidth = this.measure(CONTENTS_NUMBER_WIDTH, fonts, size);
+    const dotWidth = this.measure('.', fonts, size);
+    const topLevel = Math.min(...this.contents.map(entry => entry.level));
+    this.contentsStart = this.headings.length;
+
+    for (const entry of this.contents) {
+      const indent = (entry.level - topLevel) * this.listIndent();
+      const available = this.width - indent - numberWidth;
+      let title = entry.title;
+      if (this.measure(title, fonts, size) > available) {
+        const characters = Array.from(title);
+        while (characters.length > 1 && this.measure(characters.join('') + '\u2026', fonts, size) > available) {
+          characters.pop();
+        }
+        title = characters.join('').trimEnd() + '\u2026';
+      }
+      const dots = Math.max(0, Math.floor((available - this.measure(title + ' ', fonts, size)) / dotWidth));
+      const runs: TextRun[] = [{ text: title + ' ' }, { text: '.'.repeat(dots), color: GUTTER_COLOR }];
+      const lines = this.wrapRuns(runs, Infinity, size);
+
+      const start = this.drawLines(lines, 'left', false, indent);
+      if (start && !this.dryRun) {
+        const height = this.lineHeight(lines[0]);
+        this.contentsSlots.push({ ...start, height, baseline: this.baseline(start.top, lines[0]), size });
+      }
+    }
+  }
+
+  // Write each contents line's page number and make the whole line jump to its heading
+  private fillContents() {
+    const pages = this.pdfDoc.getPages();
+    const right = this.left + this.width;
+    this.contentsSlots.forEach((slot, index) => {
+      const heading = this.headings[this.contentsStart + index];
+      if (!heading) return;
+      const label = String(pages.indexOf(heading.page) + 1);
+      this.fonts.regular.drawText(slot.page, label, {
+        x: right - this.measure(label, this.fonts.regular, slot.size),
+        y: slot.baseline,
+        size: slot.size,
+        color: TEXT_COLOR,
+      });
+      const annotation = this.pdfDoc.context.obj({
+        Type: 'Annot',
+        Subtype: 'Link',
+        Rect: [this.left, slot.top - slot.height, right, slot.top],
+        Border: [0, 0, 0],
+        Dest: [heading.page.ref, 'XYZ', null, heading.top, null],
+      });
+      slot.page.node.addAnnot(this.pdfDoc.context.register(annotation));
+    });
+  }
+
+  private renderRule() {
+    const { fontSize } = this.options;
+    if (this.y - fontSize < this.bottom) {
+      this.newPage();
+    }
+    this.y -= fontSize * 0.5;
+    const y = this.y;
+    this.paint(page =>
+      page.drawLine({
+        start: { x: this.left, y },
+        end: { x: this.left + this.width, y },
+        thickness: 0.75,
+        color: rgb(0.7, 0.7, 0.7),
+      })
+    );
+    this.space(fontSize);
+  }
+
+  private renderTable(rows: TableCell[][], headerRows: number) {
+    const columnCount = Math.max(0, ...rows.map(row => row.length));
+    if (columnCount === 0) return;
+
+    const size = this.options.fontSize * 0.9;
+    const columnWidths = this.measureColumns(rows, columnCount, size);
+    const headers = rows.slice(0, headerRows);
+
+    const repeatHeaders = () => {
+      headers.forEach(header => {
+        this.drawRow(header, this.wrapRow(header, columnCount, columnWidths, size), columnWidths, true);
+      });
+    };
+
+    rows.forEach((row, index) => {
+      const isHeader = index < headerRows;
+      let cellLines = this.wrapRow(row, columnCount, columnWidths, size);
+
+      // Move to a fresh page when the row does not fit, unless it cannot fit on any page
+      if (this.y - this.rowHeight(cellLines) < this.bottom && this.y < this.top) {
+        this.newPage();
+        if (!isHeader) repeatHeaders();
+      }
+
+      while (cellLines.some(lines => lines.length > 0)) {
+        // Split the row when a cell is taller than the space left on the page
+        const available = this.y - this.bottom - CELL_PADDING * 2;
+        let fragment = cellLines.map(lines => {
+          let height = 0;
+          let count = 0;
+          while (count < lines.length && height + this.lineHeight(lines[count]) <= available) {
+            height += this.lineHeight(lines[count]);
+            count++;
+          }
+          return lines.slice(0, count);
+        });
+        if (fragment.every(lines => lines.length === 0)) {
+          fragment = cellLines.map(lines => lines.slice(0, 1));
+        }
+
+        this.drawRow(row, fragment, columnWidths, isHeader);
+        cellLines = cellLines.map((lines, i) => lines.slice(fragment[i].length));
+        if (cellLines.some(lines => lines.length > 0)) {
+          this.newPage();
+          if (!isHeader) repeatHeaders();
+        }
+      }
+    });
+  }
+
+  private measureColumns(rows: TableCell[][], columnCount: number, size: number): number[] {
+    const natural: number[] = new Array(columnCount).fill(0);
+    const minimum: number[] = new Array(columnCount).fill(0);
+
+    for (const row of rows) {
+      row.forEach((cell, column) => {
+        const fonts = this.fontFor(cell.header ? { text: '', bold: true } : { text: '' });
+        const text = cell.runs.map(run => run.text).join('');
+        for (const line of text.split('\n')) {
+          natural[column] = Math.max(natural[column], this.measure(line, fonts, size));
+        }
+        for (const word of text.split(/\s+/)) {
+          minimum[column] = Math.max(minimum[column], this.measure(word, fonts, size));
+        }
+      });
+    }
+
+    const padded = (widths: number[]) => widths.map(width => width + CELL_PADDING * 2);
+    const naturalWidths = padded(natural);
+    const minimumWidths = padded(minimum);
+    const naturalTotal = naturalWidths.reduce((sum, width) => sum + width, 0);
+    const minimumTotal = minimumWidths.reduce((sum, width) => sum + width, 0);
+
+    // Short tables stretch to the full width, wide ones give each column its longest word first
+    if (naturalTotal <= this.width) {
+      return naturalWidths.map(width => (width / naturalTotal) * this.width);
+    }
+    if (minimumTotal >= this.width) {
+      return minimumWidths.map(width => (width / minimumTotal) * this.width);
+    }
+    const slack = naturalTotal - minimumTotal;
+    return minimumWidths.map(
+      (width, column) => width + ((naturalWidths[column] - width) / slack) * (this.width - minimumTotal)
+    );
+  }
+
+  private wrapRow(row: TableCell[], columnCount: number, columnWidths: number[], size: number): Line[][] {
+    const lines: Line[][] = [];
+    for (let column = 0; column < columnCount; column++) {
+      const cell = row[column];
+      const runs = cell ? cell.runs.map(run => ({ ...run, bold: run.bold || cell.header })) : [];
+      lines.push(this.wrapRuns(runs, columnWidths[column] - CELL_PADDING * 2, size));
+    }
+    return lines;
+  }
+
+  private rowHeight(cellLines: Line[][]): number {
+    const contentHeight = Math.max(
+      this.options.fontSize,
+      ...cellLines.map(lines => lines.reduce((sum, line) => sum + this.lineHeight(line), 0))
+    );
+    return contentHeight + CELL_PADDING * 2;
+  }
+
+  private drawRow(row: TableCell[], cellLines: Line[][], columnWidths: number[], isHeader: boolean) {
+    const height = this.rowHeight(cellLines);
+    const top = this.y;
+    let x = this.left;
+
+    cellLines.forEach((lines, column) => {
+      const width = columnWidths[column];
+      const shaded = isHeader || (row[column] && row[column].header);
+      const cellX = x;
+      this.paint(page =>
+        page.drawRectangle({
+          x: cellX,
+          y: top - height,
+          width,
+          height,
+          color: shaded ? rgb(0.95, 0.95, 0.95) : undefined,
+          borderColor: rgb(0.8, 0.8, 0.8),
+          borderWidth: 0.75,
+        })
+      );
+
+      const align = row[column] && row[column].align;
+      let lineTop = top - CELL_PADDING;
+      for (const line of lines) {
+        const free = width - CELL_PADDING * 2 - line.width;
+        const offset = align === 'right' ? free : align === 'center' ? free / 2 : 0;
+        this.drawLine(line, x + CELL_PADDING + offset, lineTop);
+        lineTop -= this.lineHeight(line);
+      }
+      x += width;
+    });
+
+    this.y = top - height;
+  }
+
+  private async renderImage(bytes: Uint8Array, format: 'png' | 'jpg', width?: number, height?: number) {
+    const image = await this.embedImage(bytes, format);
+    if (!image) return;
+
+    // HTML sizes are CSS pixels, which are 0.75pt
+    const naturalWidth = width ? width * 0.75 : image.width * 0.75;
+    const naturalHeight = height ? height * 0.75 : (naturalWidth / image.width) * image.height;
+    const bodyHeight = this.top - this.bottom;
+    const scale = Math.min(1, this.width / naturalWidth, bodyHeight / naturalHeight);
+    const drawWidth = naturalWidth * scale;
+    const drawHeight = naturalHeight * scale;
+
+    if (this.y - drawHeight < this.bottom) {
+      this.newPage();
+    }
+
+    const y = this.y - drawHeight;
+    this.paint(page => page.drawImage(image, { x: this.left, y, width: drawWidth, height: drawHeight }));
+    this.y -= drawHeight;
+  }
+
+  // Each distinct image is embedded once, even when a frame is measured before drawing
+  private async embedImage(bytes: Uint8Array, format: 'png' | 'jpg'): Promise<PDFImage | null> {
+    if (!this.images.has(bytes)) {
+      try {
+        this.images.set(bytes, format === 'png' ? await this.pdfDoc.embedPng(bytes) : await this.pdfDoc.embedJpg(bytes));
+      } catch (error) {
+        console.warn('Skipping image that could not be embedded:', error);
+        this.images.set(bytes, null);
+      }
+    }
+    return this.images.get(bytes) || null;
+  }
+
+  // Break styled runs into lines no wider than maxWidth
+  private wrapRuns(runs: TextRun[], maxWidth: number, size: number, bold = false): Line[] {
+    const lines: Line[] = [];
+    let current: Line = { segments: [], width: 0, size: 0 };
+    let pendingSpace = false;
+
+    // A line is as tall as its largest text; empty lines take the block's size
+    const pushLine = () => {
+      lines.push({ ...current, size: current.size || size });
+      current = { segments: [], width: 0, size: 0 };
+      pendingSpace = false;
+    };
+
+    // Each piece of text is drawn with the first font in the run's stack that has its glyphs
+    const append = (raw: string, run: TextRun, fonts: FontStack) => {
+      const runSize = run.size || size;
+      const color = run.color || TEXT_COLOR;
+      const underline = !!run.underline;
+      const link = run.link;
+      for (const { text, font } of fonts.split(raw)) {
+        const width = font.widthOfTextAtSize(text, runSize);
+        const last = current.segments[current.segments.length - 1];
+        if (
+          last &&
+          last.font === font &&
+          last.color === color &&
+          last.underline === underline &&
+          last.link === link &&
+          last.size === runSize
+        ) {
+          last.text += text;
+          last.width += width;
+        } else {
+          current.segments.push({ text, font, size: runSize, color, underline, link, width });
+        }
+        current.width += width;
+      }
+      current.size = Math.max(current.size, runSize);
+    };
+
+    // Word gaps take the style of whichever neighbour is not underlined, so decorations stop at the word
+    const appendSpace = (run: TextRun, fonts: FontStack) => {
+      const last = current.segments[current.segments.length - 1];
+      const style =
+        (last.underline || last.link) && !(run.underline || run.link)
+          ? run
+          : { text: '', size: last.size, color: last.color, underline: last.underline, link: last.link };
+      append(' ', style, fonts);
+    };
+
+    for (const run of runs) {
+      const fonts = this.fontFor({ ...run, bold: run.bold || bold });
+      const runSize = run.size || size;
+      const spaceWidth = this.measure(' ', fonts, runSize);
+      const tokens = run.text.replace(/\t/g, ' ').split(/(\n| +)/);
+
+      for (const token of tokens) {
+        if (token === '') continue;
+        if (token === '\n') {
+          pushLine();
+          continue;
+        }
+        if (token.trim() === '') {
+          pendingSpace = current.segments.length > 0;
+          continue;
+        }
+
+        const wordWidth = this.measure(token, fonts, runSize);
+        const leading = pendingSpace ? spaceWidth : 0;
+        if (current.width + leading + wordWidth <= maxWidth) {
+          if (pendingSpace) appendSpace(run, fonts);
+          append(token, run, fonts);
+        } else if (wordWidth <= maxWidth) {
+          pushLine();
+          append(token, run, fonts);
+        } else {
+          // A single word wider than the line is broken between characters
+          if (current.segments.length > 0) pushLine();
+          let piece = '';
+          for (const char of Array.from(token)) {
+            if (piece && this.measure(piece + char, fonts, runSize) > maxWidth) {
+              append(piece, run, fonts);
+              pushLine();
+              piece = '';
+            }
+            piece += char;
+          }
+          append(piece, run, fonts);
+        }
+        pendingSpace = false;
+      }
+    }
+
+    if (current.segments.length > 0 || lines.length === 0) {
+      pushLine();
+    }
+    return lines;
+  }
+
+  private drawLines(
+    lines: Line[],
+    align: 'left' | 'center' | 'right',
+    keepWithNext = false,
+    inset = 0
+  ): LineStart | null {
+    const nextLine = this.options.fontSize * this.options.lineHeight;
+    let start: LineStart | null = null;
+    lines.forEach((line, index) => {
+      const height = this.lineHeight(line);
+      // Headings move to the next page rather than being stranded at the bottom
+      const needed = keepWithNext && index === lines.length - 1 ? height + nextLine : height;
+      if (this.y - needed < this.bottom) {
+        this.newPage();
+      }
+
+      let x = this.left + inset;
+      if (align === 'center') x += (this.width - line.width) / 2;
+      if (align === 'right') x += this.width - line.width;
+
+      const top = this.y;
+      if (index === 0 && this.page) start = { page: this.page, top };
+      const background = this.lineBackground;
+      const marker = this.pendingMarker;
+      this.pendingMarker = null;
+      this.paint(page => {
+        if (background) {
+          page.drawRectangle({ x: this.left, y: top - height, width: this.width, height, color: background });
+        }
+        for (const barX of this.quoteBars) {
+          page.drawLine({
+            start: { x: barX, y: top },
+            end: { x: barX, y: top - height },
+            thickness: 2,
+            color: rgb(0.8, 0.8, 0.8),
+          });
+        }
+        if (marker !== null) {
+          this.fonts.regular.drawText(page, marker, {
+            x: this.left - this.listIndent() + line.size * 0.3,
+            y: this.baseline(top, line),
+            size: line.size,
+            color: TEXT_COLOR,
+          });
+        }
+      });
+
+      this.drawLine(line, x, top);
+      this.y -= height;
+      this.trailingSpace = 0;
+    });
+    return start;
+  }
+
+  private drawLine(line: Line, x: number, top: number) {
+    const y = this.baseline(top, line);
+    this.paint(page => {
+      for (const segment of line.segments) {
+        page.drawText(segment.text, {
+          x,
+          y,
+          size: segment.size,
+          font: segment.font,
+          color: segment.color,
+        });
+        if (segment.underline) {
+          page.drawLine({
+            start: { x, y: y - segment.size * 0.12 },
+            end: { x: x + segment.width, y: y - segment.size * 0.12 },
+            thickness: segment.size / 16,
+            color: segment.color,
+          });
+        }
+        if (segment.link) {
+          this.addLink(page, segment.link, [x, top - this.lineHeight(line), x + segment.width, top]);
+        }
+        x += segment.width;
+      }
+    });
+  }
+
+  // All drawing goes through here so a dry run can measure without marking the page
+  private paint(draw: (page: PDFPage) => void) {
+    if (!this.dryRun) draw(this.ensurePage());
+  }
+
+  private listIndent(): number {
+    return this.options.fontSize * LIST_INDENT;
+  }
+
+  private addLink(page: PDFPage, url: string, rect: number[]) {
+    const annotation = this.pdfDoc.context.obj({
+      Type: 'Annot',
+      Subtype: 'Link',
+      Rect: rect,
+      Border: [0, 0, 0],
+      A: { Type: 'Action', S: 'URI', URI: PDFString.of(url) },
+    });
+    page.node.addAnnot(this.pdfDoc.context.register(annotation));
+  }
+
+  private lineHeight(line: Line): number {
+    return line.size * this.options.lineHeight;
+  }
+
+  private baseline(top: number, line: Line): number {
+    return top - this.lineHeight(line) / 2 - line.size * 0.3;
+  }
+
+  private fontFor(run: TextRun): FontStack {
+    if (run.monospace) return this.fonts.monospace;
+    if (run.bold && run.italic) return this.fonts.boldItalic;
+    if (run.bold) return this.fonts.bold;
+    if (run.italic) return this.fonts.italic;
+    return this.fonts.regular;
+  }
+
+  private measure(text: string, fonts: FontStack, size: number): number {
+    return fonts.widthOfTextAtSize(text, size);
+  }
+
+  private ensurePage(): PDFPage {
+    if (!this.page) {
+      this.newPage();
+    }
+    return this.page as PDFPage;
+  }
+
+  private newPage() {
+    checkPageCount(this.pdfDoc.getPageCount() + 1);
+    this.page = this.pdfDoc.addPage(this.options.pageSize);
+    this.y = this.top;
+  }
+}
+
+// Replace tabs with spaces up to the next tab stop so columns line up as they did in an editor
+function expandTabs(line: string): string {
+  let column = 0;
+  return line.replace(/[^\t]*\t/g, match => {
+    const before = match.slice(0, -1);
+    column += Array.from(before).length;
+    const spaces = TAB_WIDTH - (column % TAB_WIDTH);
+    column += spaces;
+    return before + ' '.repeat(spaces);
+  });
+}
@@ -0,0 +1,39 @@
+// Limits on what a single upload may contain and produce, configurable through the environment
+
+// Largest upload accepted (CONVERSION_MAX_FILE_SIZE_MB)
+export const MAX_FILE_SIZE = numberFromEnv('CONVERSION_MAX_FILE_SIZE_MB', 10) * 1024 * 1024;
+
+// Most pages a converted PDF may have (CONVERSION_MAX_PAGES)
+export const MAX_PAGES = Math.floor(numberFromEnv('CONVERSION_MAX_PAGES', 500));
+
+// Most data a ZIP-based document (DOCX, XLSX, PPTX, ODS, ODP) may unpack to (CONVERSION_MAX_UNCOMPRESSED_MB)
+export const MAX_UNCOMPRESSED_SIZE = numberFromEnv('CONVERSION_MAX_UNCOMPRESSED_MB', 100) * 1024 * 1024;
+
+// Most files a ZIP-based document may contain (CONVERSION_MAX_ARCHIVE_ENTRIES)
+export const MAX_ARCHIVE_ENTRIES = Math.floor(numberFromEnv('CONVERSION_MAX_ARCHIVE_ENTRIES', 5000));
+
+// A file that is valid but too big to convert; its message is safe to show to the user
+export class ConversionLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConversionLimitError';
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, ConversionLimitError.prototype);
+  }
+}
+
+// Called before a page is added, so runaway documents stop as soon as they pass the limit
+export function checkPageCount(pages: number) {
+  if (pages > MAX_PAGES) {
+    throw new ConversionLimitError(`The converted document would have more than ${MAX_PAGES} pages`);
+  }
+}
+
+export function formatMegabytes(bytes: number): string {
+  return `${Math.round((bytes / (1024 * 1024)) * 10) / 10}MB`;
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return value > 0 ? value : fallback;
+}
@@ -0,0 +1,10 @@
+import { marked } from 'marked';
+import { Block } from './layout';
+import { htmlToBlocks } from './html';
+
+// Parse GitHub-flavoured Markdown into layout blocks by way of its HTML rendering,
+// so headings, lists, tables, quotes and code share the HTML converter's mapping
+export function markdownToBlocks(markdown: string): Block[] {
+  const html = marked.parse(markdown.replace(/^\uFEFF/, ''), { gfm: true, async: false });
+  return htmlToBlocks(html);
+}
@@ -0,0 +1,86 @@
+import { PDFDocument } from 'pdf-lib';
+
+// Document properties written into every PDF, shared by the server converters and the browser tools
+
+export const CREATOR = 'Stapler';
+
+export const METADATA_FIELDS = ['title', 'author', 'subject', 'keywords', 'language'] as const;
+
+export type MetadataField = (typeof METADATA_FIELDS)[number];
+
+// The fields as typed into a form; keywords are separated by commas
+export type MetadataInput = Partial<Record<MetadataField, string>>;
+
+export interface DocumentMetadata {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string[];
+  language?: string; // a BCP 47 tag such as en or en-GB
+}
+
+export type MetadataResult = { metadata: DocumentMetadata } | { error: string };
+
+const MAX_FIELD_LENGTH = 500;
+const LANGUAGE_TAG = /^[a-z]{2,3}(-[a-z0-9]{1,8})*$/i;
+
+// Check the optional property fields; anything left blank falls back to the defaults
+export function parseMetadata(input: MetadataInput): MetadataResult {
+  const metadata: DocumentMetadata = {};
+  for (const name of METADATA_FIELDS) {
+    const value = (input[name] || '').trim();
+    if (!value) continue;
+    if (value.length > MAX_FIELD_LENGTH) {
+      return { error: `The ${name} must be at most ${MAX_FIELD_LENGTH} characters` };
+    }
+    if (name === 'keywords') {
+      metadata.keywords = value.split(/[,;]/).map(keyword => keyword.trim()).filter(Boolean);
+    } else if (name === 'language') {
+      if (!LANGUAGE_TAG.test(value)) return { error: 'Language must be a language tag such as en or en-GB' };
+      metadata.language = value;
+    } else {
+      metadata[name] = value;
+    }
+  }
+  return { metadata };
+}
+
+// Read the property fields of an upload to the conversion endpoints
+export function parseMetadataFields(formData: FormData): MetadataResult {
+  const input: MetadataInput = {};
+  for (const name of METADATA_FIELDS) {
+    const value = formData.get(name);
+    if (typeof value === 'string') input[name] = value;
+  }
+  return parseMetadata(input);
+}
+
+// A PDF without a given title is named after its file, without the folder or extension
+export function titleFromFileName(fileName: string): string {
+  return fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]*$/, '').trim() || 'Document';
+}
+
+// Write the document properties. Creator, producer and dates always describe this conversion.
+export function applyMetadata(pdfDoc: PDFDocument, metadata: DocumentMetadata, defaultTitle = 'Document') {
+  const now = new Date();
+  pdfDoc.setTitle(metadata.title || defaultTitle, { showInWindowTitleBar: true });
+  if (metadata.author) pdfDoc.setAuthor(metadata.author);
+  if (metadata.subject) pdfDoc.setSubject(metadata.subject);
+  if (metadata.keywords && metadata.keywords.length > 0) pdfDoc.setKeywords(metadata.keywords);
+  if (metadata.language) pdfDoc.setLanguage(metadata.language);
+  pdfDoc.setCreator(CREATOR);
+  pdfDoc.setProducer(CREATOR);
+  pdfDoc.setCreationDate(now);
+  pdfDoc.setModificationDate(now);
+}
+
+// Rewrite a PDF made by another library (html2pdf, jsPDF) with the document properties
+export async function withMetadata(
+  pdfBytes: ArrayBuffer | Uint8Array,
+  metadata: DocumentMetadata,
+  defaultTitle: string
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  applyMetadata(pdfDoc, metadata, defaultTitle);
+  return pdfDoc.save();
+}
@@ -0,0 +1,486 @@
+import JSZip from 'jszip';
+import { RGB, rgb } from 'pdf-lib';
+import { Block, TableCell, TextRun } from './layout';
+import { Box, DEFAULT_SLIDE_SIZE, Presentation, ShapeKind, Slide, SlideElement, imageFormat } from './presentation';
+import { Element, attribute, childElement, childElements, findAll, forEachChild, parseXml } from './xml';
+
+interface TextStyle {
+  align?: 'center' | 'right';
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  size: number;
+  color?: RGB;
+}
+
+interface PageContext {
+  zip: JSZip;
+  styles: StyleSheet;
+  media: Map<string, Promise<Uint8Array | null>>;
+}
+
+const DEFAULT_FONT_SIZE = 18;
+
+const UNITS: { [unit: string]: number } = { pt: 1, in: 72, cm: 72 / 2.54, mm: 72 / 25.4, pc: 12, px: 0.75 };
+
+const CUSTOM_SHAPES: { [type: string]: ShapeKind } = {
+  rectangle: 'rect',
+  'round-rectangle': 'rect',
+  'flowchart-process': 'rect',
+  ellipse: 'ellipse',
+  circle: 'ellipse',
+  'flowchart-connector': 'ellipse',
+  'isosceles-triangle': 'triangle',
+  'right-triangle': 'rtTriangle',
+  diamond: 'diamond',
+  'flowchart-decision': 'diamond',
+};
+
+// Parse an OpenDocument presentation
+export async function parseOdp(data: Buffer): Promise<Presentation> {
+  const zip = await JSZip.loadAsync(data);
+  const contentFile = zip.file('content.xml');
+  if (!contentFile) {
+    throw new Error('Presentation is missing content.xml');
+  }
+  const content = parseXml(await contentFile.async('string'));
+  const stylesFile = zip.file('styles.xml');
+  const stylesRoot = stylesFile ? parseXml(await stylesFile.async('string')) : null;
+
+  const styles = new StyleSheet([
+    childElement(content, 'automatic-styles'),
+    childElement(stylesRoot, 'automatic-styles'),
+    childElement(stylesRoot, 'styles'),
+  ]);
+  const masterPages = new Map<string, Element>();
+  childElements(childElement(stylesRoot, 'master-styles'), 'master-page').forEach(master => {
+    masterPages.set(attribute(master, 'name') || '', master);
+  });
+
+  const context: PageContext = { zip, styles, media: new Map() };
+  const pages = findAll(childElement(content, 'body'), 'page');
+  const firstMaster = pages.length > 0 ? masterPages.get(attribute(pages[0], 'master-page-name') || '') : undefined;
+  const pageLayout = childElement(styles.get(attribute(firstMaster, 'page-layout-name')), 'page-layout-properties');
+  const width = length(attribute(pageLayout, 'page-width')) || DEFAULT_SLIDE_SIZE.width;
+  const height = length(attribute(pageLayout, 'page-height')) || DEFAULT_SLIDE_SIZE.height;
+
+  const slides: Slide[] = [];
+  for (const page of pages) {
+    const pageStyle = attribute(page, 'style-name');
+    if (styles.property(pageStyle, 'drawing-page-properties', 'visibility') === 'hidden') continue;
+
+    const master = masterPages.get(attribute(page, 'master-page-name') || '');
+    const elements: SlideElement[] = [];
+    // Master pages carry shared decorations; their placeholders are only prompts
+    if (master) await readShapes(childElements(master), context, elements, true);
+    await readShapes(childElements(page), context, elements, false);
+
+    const notesFrame = findAll(childElement(page, 'notes'), 'frame').find(
+      frame => attribute(frame, 'class') === 'notes'
+    );
+    slides.push({
+      background: pageFill(pageStyle, styles) || pageFill(attribute(master, 'style-name'), styles),
+      elements,
+      notes: notesFrame ? textBlocks(childElement(notesFrame, 'text-box'), { size: DEFAULT_FONT_SIZE }, styles, true) : [],
+    });
+  }
+
+  return { width, height, slides };
+}
+
+// Styles resolve through their parents, with content styles taking precedence over shared ones
+class StyleSheet {
+  private styles = new Map<string, Element>();
+  private defaults = new Map<string, Element>();
+
+  constructor(containers: (Element | null)[]) {
+    containers.forEach(container =>
+      childElements(container).forEach(style => {
+        if (style.localName === 'default-style') {
+          const family = attribute(style, 'family') || '';
+          if (!this.defaults.has(family)) this.defaults.set(family, style);
+          return;
+        }
+        const name = attribute(style, 'name');
+        if (name && !this.styles.has(name)) this.styles.set(name, style);
+      })
+    );
+  }
+
+  get(name: string | null): Element | null {
+    return (name && this.styles.get(name)) || null;
+  }
+
+  // Paragraph and span styles only override what they set, so they skip the family defaults
+  property(name: string | null, properties: string, key: string, useDefaults = false): string | null {
+    let style = this.get(name);
+    let family: string | null = null;
+    for (let depth = 0; style && depth < 20; depth++) {
+      family = family || attribute(style, 'family');
+      const value = attribute(childElement(style, properties), key);
+      if (value !== null) return value;
+      style = this.get(attribute(style, 'parent-style-name'));
+    }
+    if (!useDefaults) return null;
+    // Presentation placeholders fall back to the graphic defaults like any other drawing
+    const defaults = this.defaults.get(family === 'presentation' || !family ? 'graphic' : family);
+    return attribute(childElement(defaults || null, properties), key);
+  }
+
+  listKind(name: string | null, level: number): 'bullet' | 'number' | 'none' {
+    const levelStyle = childElements(this.get(name)).find(child => attribute(child, 'level') === String(level));
+    if (!levelStyle) return 'bullet';
+    if (levelStyle.localName === 'list-level-style-number') {
+      return attribute(levelStyle, 'num-format') ? 'number' : 'none';
+    }
+    return levelStyle.localName === 'list-level-style-bullet' && attribute(levelStyle, 'bullet-char') === ''
+      ? 'none'
+      : 'bullet';
+  }
+}
+
+async function readShapes(nodes: Element[], context: PageContext, elements: SlideElement[], decorationsOnly: boolean) {
+  for (const node of nodes) {
+    if (decorationsOnly && attribute(node, 'class')) continue;
+    // Empty placeholders show prompt text in the editor but nothing in a slide show
+    if (attribute(node, 'placeholder') === 'true') continue;
+
+    switch (node.localName) {
+      case 'frame':
+        await readFrame(node, context, elements);
+        break;
+      case 'rect':
+      case 'ellipse':
+      case 'circle':
+      case 'custom-shape': {
+        const geometry = childElement(node, 'enhanced-geometry');
+        const kind =
+          node.localName === 'custom-shape'
+            ? CUSTOM_SHAPES[attribute(geometry, 'type') || '']
+            : node.localName === 'rect'
+              ? 'rect'
+              : 'ellipse';
+        readShape(node, kind, context, elements);
+        break;
+      }
+      case 'line':
+      case 'connector':
+        readLine(node, context, elements);
+        break;
+      case 'g':
+        // Group members are positioned on the page already
+        await readShapes(childElements(node), context, elements, decorationsOnly);
+        break;
+    }
+  }
+}
+
+async function readFrame(frame: Element, context: PageContext, elements: SlideElement[]) {
+  const box = readBox(frame);
+  const styleName = graphicStyle(frame);
+  // Frames only have a background when their own style gives them one
+  pushFill(box, 'rect', styleName, context.styles, elements, false);
+
+  const image = childElement(frame, 'image');
+  const textBox = childElement(frame, 'text-box');
+  const table = childElement(frame, 'table');
+  if (image) {
+    const href = attribute(image, 'href') || '';
+    const bytes = href && !/^[a-z]+:/i.test(href) ? await readMedia(context, href.replace(/^\.\//, '')) : null;
+    const format = bytes && imageFormat(bytes);
+    if (bytes && format) elements.push({ type: 'image', box, bytes, format });
+  } else if (textBox) {
+    pushText(box, textBox, styleName, false, context.styles, elements);
+  } else if (table) {
+    const rows: TableCell[][] = findAll(table, 'table-row').map(row =>
+      childElements(row)
+        .filter(cell => cell.localName === 'table-cell' || cell.localName === 'covered-table-cell')
+        .map(cell => ({ runs: cellRuns(cell, context.styles) }))
+    );
+    if (rows.length > 0) {
+      elements.push({
+        type: 'text',
+        box,
+        blocks: [{ type: 'table', rows, headerRows: attribute(table, 'use-first-row-styles') === 'true' ? 1 : 0 }],
+        fontSize: DEFAULT_FONT_SIZE,
+      });
+    }
+  }
+}
+
+function readShape(node: Element, kind: ShapeKind | undefined, context: PageContext, elements: SlideElement[]) {
+  const box = readBox(node);
+  const styleName = graphicStyle(node);
+  if (kind) pushFill(box, kind, styleName, context.styles, elements, true);
+  pushText(box, node, styleName, true, context.styles, elements);
+}
+
+function readLine(node: Element, context: PageContext, elements: SlideElement[]) {
+  const x1 = length(attribute(node, 'x1'));
+  const y1 = length(attribute(node, 'y1'));
+  const x2 = length(attribute(node, 'x2'));
+  const y2 = length(attribute(node, 'y2'));
+  const stroke = readStroke(graphicStyle(node), context.styles, true);
+  if (!stroke.stroke) return;
+  elements.push({
+    type: 'shape',
+    shape: 'line',
+    box: {
+      x: Math.min(x1, x2),
+      y: Math.min(y1, y2),
+      width: Math.abs(x2 - x1),
+      height: Math.abs(y2 - y1),
+      flipH: x2 < x1,
+      flipV: y2 < y1,
+    },
+    ...stroke,
+  });
+}
+
+// Placeholders are styled through the presentation namespace, other drawings through the drawing one
+function graphicStyle(node: Element): string | null {
+  return attribute(node, 'style-name', /:presentation:/) || attribute(node, 'style-name', /:drawing:/);
+}
+
+// Rotation is stored as a transform matrix rather than an angle, so shapes are drawn upright
+function readBox(node: Element): Box {
+  return {
+    x: length(attribute(node, 'x')),
+    y: length(attribute(node, 'y')),
+    width: length(attribute(node, 'width')),
+    height: length(attribute(node, 'height')),
+  };
+}
+
+function pushFill(
+  box: Box,
+  shape: ShapeKind,
+  styleName: string | null,
+  styles: StyleSheet,
+  elements: SlideElement[],
+  useDefaults: boolean
+) {
+  const fill = styles.property(styleName, 'graphic-properties', 'fill', useDefaults) === 'solid'
+    ? parseColor(styles.property(styleName, 'graphic-properties', 'fill-color', useDefaults))
+    : undefined;
+  const stroke = readStroke(styleName, styles, useDefaults);
+  if (fill || stroke.stroke) {
+    elements.push({ type: 'shape', shape, box, fill, ...stroke });
+  }
+}
+
+function readStroke(
+  styleName: string | null,
+  styles: StyleSheet,
+  useDefaults: boolean
+): { stroke?: RGB; strokeWidth?: number } {
+  const kind = styles.property(styleName, 'graphic-properties', 'stroke', useDefaults);
+  if (!kind || kind === 'none') return {};
+  const width = length(styles.property(styleName, 'graphic-properties', 'stroke-width', useDefaults));
+  return {
+    stroke: parseColor(styles.property(styleName, 'graphic-properties', 'stroke-color', useDefaults)) || rgb(0, 0, 0),
+    strokeWidth: width || 0.75,
+  };
+}
+
+// Text in drawn shapes is centred both ways unless its style says otherwise, text in frames starts top-left
+function pushText(
+  box: Box,
+  container: Element,
+  styleName: string | null,
+  isShape: boolean,
+  styles: StyleSheet,
+  elements: SlideElement[]
+) {
+  const base = textStyle(styleName, { size: DEFAULT_FONT_SIZE }, styles, true);
+  base.align = alignment(styles.property(styleName, 'paragraph-properties', 'text-align', true)) || (isShape ? 'center' : undefined);
+  const blocks = textBlocks(container, base, styles, false);
+  if (blocks.length === 0) return;
+
+  const padding = (side: string) => length(styles.property(styleName, 'graphic-properties', `padding-${side}`, true));
+  const align = styles.property(styleName, 'graphic-properties', 'textarea-vertical-align', true);
+  elements.push({
+    type: 'text',
+    box: {
+      x: box.x + padding('left'),
+      y: box.y + padding('top'),
+      width: Math.max(1, box.width - padding('left') - padding('right')),
+      height: Math.max(1, box.height - padding('top') - padding('bottom')),
+    },
+    blocks,
+    fontSize: base.size,
+    verticalAlign: align === 'top' || align === 'middle' || align === 'bottom' ? align : isShape ? 'middle' : 'top',
+  });
+}
+
+// Text
+
+function textBlocks(container: Element | null, style: TextStyle, styles: StyleSheet, plain: boolean): Block[] {
+  const blocks: Block[] = [];
+  childElements(container).forEach(child => {
+    if (child.localName === 'p' || child.localName === 'h') {
+      const paragraph = paragraphBlock(child, style, styles, plain);
+      if (paragraph) blocks.push(paragraph);
+    } else if (child.localName === 'list') {
+      blocks.push(...listBlocks(child, attribute(child, 'style-name'), 1, style, styles, plain));
+    }
+  });
+  return blocks;
+}
+
+// Nested lists take their bullets from the outermost list's style
+function listBlocks(
+  list: Element,
+  listStyle: string | null,
+  level: number,
+  style: TextStyle,
+  styles: StyleSheet,
+  plain: boolean
+): Block[] {
+  const items = childElements(list).filter(item => item.localName === 'list-item' || item.localName === 'list-header');
+  const itemBlocks = items.map(item => {
+    const blocks: Block[] = [];
+    childElements(item).forEach(child => {
+      if (child.localName === 'list') {
+        blocks.push(...listBlocks(child, listStyle, level + 1, style, styles, plain));
+      } else if (child.localName === 'p' || child.localName === 'h') {
+        const paragraph = paragraphBlock(child, style, styles, plain);
+        if (paragraph) blocks.push(paragraph);
+      }
+    });
+    return blocks;
+  });
+
+  const kind = styles.listKind(listStyle, level);
+  if (kind === 'none') {
+    return itemBlocks.reduce((all, blocks) => all.concat(blocks), []);
+  }
+  return [{ type: 'list', ordered: kind === 'number', items: itemBlocks.map(blocks => ({ blocks })) }];
+}
+
+function paragraphBlock(paragraph: Element, base: TextStyle, styles: StyleSheet, plain: boolean): Block | null {
+  const styleName = attribute(paragraph, 'style-name');
+  const style = textStyle(styleName, base, styles);
+  const runs = inlineRuns(paragraph, style, styles, plain);
+
+  if (runs.every(run => !run.text.trim())) {
+    // Empty paragraphs still take up a line on the slide
+    return plain ? null : { type: 'paragraph', runs: [{ text: ' ', size: style.size }] };
+  }
+
+  const textAlign = styles.property(styleName, 'paragraph-properties', 'text-align');
+  const align = textAlign ? alignment(textAlign) : base.align;
+  return align ? { type: 'paragraph', runs, align } : { type: 'paragraph', runs };
+}
+
+function alignment(textAlign: string | null): 'center' | 'right' | undefined {
+  if (textAlign === 'center') return 'center';
+  return textAlign === 'end' || textAlign === 'right' ? 'right' : undefined;
+}
+
+function cellRuns(cell: Element, styles: StyleSheet): TextRun[] {
+  const runs: TextRun[] = [];
+  childElements(cell, 'p').forEach(paragraph => {
+    if (runs.length > 0) runs.push({ text: '\n' });
+    runs.push(...inlineRuns(paragraph, { size: DEFAULT_FONT_SIZE }, styles, false));
+  });
+  return runs;
+}
+
+function inlineRuns(element: Element, style: TextStyle, styles: StyleSheet, plain: boolean, link?: string): TextRun[] {
+  const runs: TextRun[] = [];
+  const push = (text: string) => {
+    const run: TextRun = { text };
+    if (style.bold) run.bold = true;
+    if (style.italic) run.italic = true;
+    if (style.underline || link) run.underline = true;
+    if (link) run.link = link;
+    if (!plain) {
+      run.size = style.size;
+      if (style.color) run.color = style.color;
+    }
+    runs.push(run);
+  };
+
+  forEachChild(element, child => {
+    if (typeof child === 'string') {
+      // Whitespace in ODF text collapses as it does in HTML; explicit spaces use <text:s>
+      const text = child.replace(/\s+/g, ' ');
+      if (text) push(text);
+      return;
+    }
+    switch (child.localName) {
+      case 's':
+        push(' '.repeat(Number(attribute(child, 'c')) || 1));
+        break;
+      case 'tab':
+        push(' ');
+        break;
+      case 'line-break':
+        push('\n');
+        break;
+      case 'span':
+        runs.push(...inlineRuns(child, textStyle(attribute(child, 'style-name'), style, styles), styles, plain, link));
+        break;
+      case 'a': {
+        const href = attribute(child, 'href') || '';
+        runs.push(...inlineRuns(child, style, styles, plain, /^(https?:|mailto:)/i.test(href) ? href : link));
+        break;
+      }
+      case 'note':
+      case 'annotation':
+        break;
+      default:
+        // Fields such as page numbers and dates hold their current value as text
+        runs.push(...inlineRuns(child, style, styles, plain, link));
+    }
+  });
+  return runs;
+}
+
+function textStyle(styleName: string | null, base: TextStyle, styles: StyleSheet, useDefaults = false): TextStyle {
+  const get = (key: string) => styles.property(styleName, 'text-properties', key, useDefaults);
+  const style = { ...base };
+
+  const size = get('font-size');
+  if (size) style.size = size.endsWith('%') ? (base.size * parseFloat(size)) / 100 : length(size) || base.size;
+  const weight = get('font-weight');
+  if (weight) style.bold = weight === 'bold' || Number(weight) >= 600;
+  const fontStyle = get('font-style');
+  if (fontStyle) style.italic = fontStyle === 'italic' || fontStyle === 'oblique';
+  const underline = get('text-underline-style');
+  if (underline) style.underline = underline !== 'none';
+  const color = parseColor(get('color'));
+  if (color) style.color = color;
+  return style;
+}
+
+// Pages and media
+
+function pageFill(styleName: string | null, styles: StyleSheet): RGB | undefined {
+  if (styles.property(styleName, 'drawing-page-properties', 'fill') !== 'solid') return undefined;
+  return parseColor(styles.property(styleName, 'drawing-page-properties', 'fill-color'));
+}
+
+function readMedia(context: PageContext, path: string): Promise<Uint8Array | null> {
+  let bytes = context.media.get(path);
+  if (!bytes) {
+    const file = context.zip.file(path);
+    bytes = file ? file.async('uint8array') : Promise.resolve(null);
+    context.media.set(path, bytes);
+  }
+  return bytes;
+}
+
+function length(value: string | null): number {
+  const match = /^(-?[\d.]+)([a-z]*)$/i.exec((value || '').trim());
+  if (!match) return 0;
+  return parseFloat(match[1]) * (UNITS[match[2].toLowerCase()] || 1);
+}
+
+function parseColor(value: string | null): RGB | undefined {
+  const match = /^#([0-9a-f]{6})$/i.exec(value || '');
+  if (!match) return undefined;
+  const color = parseInt(match[1], 16);
+  return rgb((color >> 16) / 255, ((color >> 8) & 0xff) / 255, (color & 0xff) / 255);
+}
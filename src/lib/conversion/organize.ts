@@ -0,0 +1,74 @@
+import { PDFDocument, degrees } from 'pdf-lib';
+import { applyMetadata, titleFromFileName } from './metadata';
+
+// The page list behind the Organize Pages tool. Every edit returns a new list, so the tool can
+// keep old lists for undo; nothing touches the PDF until it is saved.
+
+export interface PageItem {
+  id: string;
+  source: number; // zero-based page in the original PDF
+  rotation: number; // degrees clockwise added to the page's own rotation
+}
+
+let nextId = 0;
+
+function newId(): string {
+  nextId += 1;
+  return `page-${nextId}`;
+}
+
+export function initialPages(pageCount: number): PageItem[] {
+  const pages: PageItem[] = [];
+  for (let source = 0; source < pageCount; source++) pages.push({ id: newId(), source, rotation: 0 });
+  return pages;
+}
+
+// Move the given pages, keeping their order, to just before the target page (or to the end)
+export function movePages(pages: PageItem[], ids: string[], beforeId: string | null): PageItem[] {
+  const moving = pages.filter(page => ids.indexOf(page.id) !== -1);
+  const rest = pages.filter(page => ids.indexOf(page.id) === -1);
+  const index = beforeId === null ? -1 : rest.findIndex(page => page.id === beforeId);
+  const at = index === -1 ? rest.length : index;
+  return rest.slice(0, at).concat(moving, rest.slice(at));
+}
+
+export function rotatePages(pages: PageItem[], ids: string[], delta: number): PageItem[] {
+  return pages.map(page =>
+    ids.indexOf(page.id) !== -1 ? { ...page, rotation: (((page.rotation + delta) % 360) + 360) % 360 } : page
+  );
+}
+
+export function deletePages(pages: PageItem[], ids: string[]): PageItem[] {
+  return pages.filter(page => ids.indexOf(page.id) === -1);
+}
+
+// Each copy goes straight after its original
+export function duplicatePages(pages: PageItem[], ids: string[]): PageItem[] {
+  const result: PageItem[] = [];
+  pages.forEach(page => {
+    result.push(page);
+    if (ids.indexOf(page.id) !== -1) result.push({ ...page, id: newId() });
+  });
+  return result;
+}
+
+// Write the pages, in list order and with their rotations, into a new PDF that keeps the
+// original's title, author, subject and keywords
+export async function buildOrganizedPdf(source: PDFDocument, pages: PageItem[], fileName: string): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const copies = await pdfDoc.copyPages(source, pages.map(page => page.source));
+  copies.forEach((copy, index) => {
+    const rotation = pages[index].rotation;
+    if (rotation) copy.setRotation(degrees((copy.getRotation().angle + rotation) % 360));
+    pdfDoc.addPage(copy);
+  });
+
+  const keywords = source.getKeywords();
+  applyMetadata(pdfDoc, {
+    title: source.getTitle(),
+    author: source.getAuthor(),
+    subject: source.getSubject(),
+    keywords: keywords ? keywords.split(/\s*[,;]\s*/).filter(keyword => keyword) : undefined,
+  }, titleFromFileName(fileName));
+  return pdfDoc.save();
+}
@@ -0,0 +1,69 @@
+import { PDFContext, PDFDocument, PDFHexString, PDFName, PDFRef } from 'pdf-lib';
+import { Block, HeadingAnchor } from './layout';
+
+interface OutlineNode {
+  heading: HeadingAnchor;
+  children: OutlineNode[];
+}
+
+// Put a table of contents after the document's title (or first, when it has none) and start the
+// body on a fresh page. Documents without headings to list are left as they are.
+export function withContents(blocks: Block[]): Block[] {
+  const hasTitle = blocks.length > 0 && blocks[0].type === 'heading';
+  const body = hasTitle ? blocks.slice(1) : blocks;
+  if (!body.some(block => block.type === 'heading')) return blocks;
+
+  const contents: Block[] = [
+    { type: 'heading', level: hasTitle ? 2 : 1, runs: [{ text: 'Contents' }] },
+    { type: 'contents' },
+    { type: 'pageBreak' },
+  ];
+  return hasTitle ? [blocks[0]].concat(contents, body) : contents.concat(body);
+}
+
+// Add a bookmark for every heading, nested by level, and have viewers show the bookmarks on opening.
+// A heading sits under the closest heading before it with a lower level, so skipped levels still nest.
+export function addOutline(pdfDoc: PDFDocument, headings: HeadingAnchor[]) {
+  if (headings.length === 0) return;
+
+  const roots: OutlineNode[] = [];
+  const open: OutlineNode[] = [];
+  for (const heading of headings) {
+    while (open.length > 0 && open[open.length - 1].heading.level >= heading.level) open.pop();
+    const node: OutlineNode = { heading, children: [] };
+    (open.length > 0 ? open[open.length - 1].children : roots).push(node);
+    open.push(node);
+  }
+
+  const context = pdfDoc.context;
+  const outlinesRef = context.nextRef();
+  const items = writeItems(context, roots, outlinesRef);
+  context.assign(outlinesRef, context.obj({ Type: 'Outlines', First: items.first, Last: items.last, Count: items.count }));
+  pdfDoc.catalog.set(PDFName.of('Outlines'), outlinesRef);
+  pdfDoc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
+
+// Write one level of siblings, returning its first and last items and how many items it shows in all.
+// Every item is left expanded.
+function writeItems(context: PDFContext, nodes: OutlineNode[], parent: PDFRef) {
+  const refs = nodes.map(() => context.nextRef());
+  let count = nodes.length;
+  nodes.forEach((node, index) => {
+    const item = context.obj({
+      Title: PDFHexString.fromText(node.heading.title),
+      Parent: parent,
+      Dest: [node.heading.page.ref, 'XYZ', null, node.heading.top, null],
+    });
+    if (index > 0) item.set(PDFName.of('Prev'), refs[index - 1]);
+    if (index < nodes.length - 1) item.set(PDFName.of('Next'), refs[index + 1]);
+    if (node.children.length > 0) {
+      const children = writeItems(context, node.children, refs[index]);
+      item.set(PDFName.of('First'), children.first);
+      item.set(PDFName.of('Last'), children.last);
+      item.set(PDFName.of('Count'), context.obj(children.count));
+      count += children.count;
+    }
+    context.assign(refs[index], item);
+  });
+  return { first: refs[0], last: refs[refs.length - 1], count };
+}
@@ -0,0 +1,48 @@
+// Page ranges as people type them, e.g. "1-3, 5, 8-". Pages are numbered from 1; a range
+// without an end runs to the last page. Shared by the browser tools and the server.
+
+export interface PageRange {
+  start: number;
+  end: number | null;
+}
+
+export type PageRangeResult = { ranges: PageRange[] } | { error: string };
+
+export type PageSelection = { pages: number[] } | { error: string };
+
+// An empty list or "all" means every page
+export function parsePageRanges(spec: string): PageRangeResult {
+  const text = spec.trim().toLowerCase();
+  if (!text || text === 'all') return { ranges: [{ start: 1, end: null }] };
+
+  const ranges: PageRange[] = [];
+  for (const part of text.split(/\s*[,;]\s*/)) {
+    if (!part) continue;
+    const match = part.match(/^(\d+)\s*(?:(-)\s*(\d*))?$/);
+    if (!match) return { error: `"${part}" is not a page number or range. Use a list such as 1-3, 5, 8-` };
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? (match[3] ? parseInt(match[3], 10) : null) : start;
+    if (start < 1) return { error: 'Pages are numbered from 1' };
+    if (end !== null && end < start) return { error: `The range ${part} runs backwards` };
+    ranges.push({ start, end });
+  }
+  if (ranges.length === 0) return { error: 'No pages were given' };
+  return { ranges };
+}
+
+// The zero-based page indexes the ranges pick out of a document, in order and without repeats
+export function selectPages(ranges: PageRange[], pageCount: number): PageSelection {
+  const chosen: boolean[] = [];
+  for (const range of ranges) {
+    if (range.start > pageCount) {
+      return { error: `Page ${range.start} is past the end of this ${pageCount}-page PDF` };
+    }
+    const end = range.end === null ? pageCount : Math.min(range.end, pageCount);
+    for (let page = range.start; page <= end; page++) chosen[page - 1] = true;
+  }
+  const pages: number[] = [];
+  chosen.forEach((isChosen, index) => {
+    if (isChosen) pages.push(index);
+  });
+  return { pages };
+}
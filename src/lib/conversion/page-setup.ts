@@ -0,0 +1,100 @@
+import { PageSizes } from 'pdf-lib';
+import { FONT_FAMILIES, FontFamily } from './fonts';
+import { DEFAULT_LAYOUT, LayoutOptions, Margins } from './layout';
+
+// The parts of the layout a caller can choose when converting a file
+export type PageSetup = Pick<LayoutOptions, 'pageSize' | 'margins' | 'fontFamily' | 'fontSize' | 'lineHeight'>;
+
+export type PageSetupResult = { setup: PageSetup } | { error: string };
+
+// Paper sizes in points, portrait
+export const PAGE_SIZES: Record<string, [number, number]> = {
+  letter: PageSizes.Letter,
+  legal: PageSizes.Legal,
+  tabloid: PageSizes.Tabloid,
+  a3: PageSizes.A3,
+  a4: PageSizes.A4,
+  a5: PageSizes.A5,
+};
+
+// Margins may be given in any of these units; a bare number is in points
+const UNITS: Record<string, number> = {
+  pt: 1,
+  in: 72,
+  mm: 72 / 25.4,
+  cm: 72 / 2.54,
+};
+
+const FONT_SIZE_RANGE = [6, 72];
+const LINE_SPACING_RANGE = [1, 3];
+const MIN_CONTENT_SIZE = 72; // the margins must leave at least an inch for the content
+
+// Read the optional page setup fields of a conversion request, falling back to the default layout
+export function parsePageSetup(formData: FormData): PageSetupResult {
+  const field = (name: string) => {
+    const value = formData.get(name);
+    return typeof value === 'string' && value.trim() ? value.trim().toLowerCase() : null;
+  };
+
+  const sizeName = field('pageSize') || 'letter';
+  const size = PAGE_SIZES[sizeName];
+  if (!size) {
+    return { error: `Unsupported page size "${sizeName}". Use one of: ${Object.keys(PAGE_SIZES).join(', ')}` };
+  }
+
+  const orientation = field('orientation') || 'portrait';
+  if (orientation !== 'portrait' && orientation !== 'landscape') {
+    return { error: 'Orientation must be "portrait" or "landscape"' };
+  }
+  const [shortSide, longSide] = [Math.min(size[0], size[1]), Math.max(size[0], size[1])];
+  const pageSize: [number, number] = orientation === 'landscape' ? [longSide, shortSide] : [shortSide, longSide];
+
+  // A single margin applies to every side, and each side can be overridden on its own
+  const allSides = parseLength(field('margin'));
+  if (allSides === undefined) return { error: 'Margin must be a non-negative length such as 50, 20mm or 1in' };
+  const margins = { ...DEFAULT_LAYOUT.margins };
+  const sides: (keyof Margins)[] = ['top', 'right', 'bottom', 'left'];
+  for (const side of sides) {
+    const name = `margin${side.charAt(0).toUpperCase()}${side.slice(1)}`;
+    const value = parseLength(field(name));
+    if (value === undefined) return { error: `${name} must be a non-negative length such as 50, 20mm or 1in` };
+    margins[side] = value !== null ? value : allSides !== null ? allSides : margins[side];
+  }
+  if (
+    pageSize[0] - margins.left - margins.right < MIN_CONTENT_SIZE ||
+    pageSize[1] - margins.top - margins.bottom < MIN_CONTENT_SIZE
+  ) {
+    return { error: 'The margins leave no room for content on the chosen page size' };
+  }
+
+  const fontFamily = field('fontFamily') || DEFAULT_LAYOUT.fontFamily;
+  if (FONT_FAMILIES.indexOf(fontFamily as FontFamily) === -1) {
+    return { error: `Unsupported font "${fontFamily}". Use one of: ${FONT_FAMILIES.join(', ')}` };
+  }
+
+  const fontSize = parseNumber(field('fontSize'), DEFAULT_LAYOUT.fontSize, FONT_SIZE_RANGE);
+  if (fontSize === undefined) {
+    return { error: `Font size must be a number from ${FONT_SIZE_RANGE[0]} to ${FONT_SIZE_RANGE[1]}` };
+  }
+
+  const lineHeight = parseNumber(field('lineSpacing'), DEFAULT_LAYOUT.lineHeight, LINE_SPACING_RANGE);
+  if (lineHeight === undefined) {
+    return { error: `Line spacing must be a number from ${LINE_SPACING_RANGE[0]} to ${LINE_SPACING_RANGE[1]}` };
+  }
+
+  return { setup: { pageSize, margins, fontFamily: fontFamily as FontFamily, fontSize, lineHeight } };
+}
+
+// Null when the field was left out, undefined when it is not a valid length
+function parseLength(value: string | null): number | null | undefined {
+  if (value === null) return null;
+  const match = value.match(/^(\d+(?:\.\d+)?|\.\d+)\s*(pt|in|mm|cm)?$/);
+  if (!match) return undefined;
+  return parseFloat(match[1]) * UNITS[match[2] || 'pt'];
+}
+
+function parseNumber(value: string | null, fallback: number, range: number[]): number | undefined {
+  if (value === null) return fallback;
+  const number = Number(value);
+  return isNaN(number) || number < range[0] || number > range[1] ? undefined : number;
+}
@@ -0,0 +1,28 @@
+import { PDFPage } from 'pdf-lib';
+
+// A page as a viewer shows it, for stamps on existing PDFs: positions are chosen in this frame and
+// mapped back onto the stored page, so watermarks, headers and footers on rotated (e.g. scanned
+// landscape) pages still come out upright. Shared by the browser tools and the server.
+
+export interface PageView {
+  width: number;
+  height: number;
+  turn: number; // the page's /Rotate, clockwise
+  toPage: (u: number, v: number) => [number, number];
+}
+
+export function pageView(page: PDFPage): PageView {
+  const box = page.getCropBox();
+  const turn = ((page.getRotation().angle % 360) + 360) % 360;
+  const sideways = turn === 90 || turn === 270;
+  return {
+    width: sideways ? box.height : box.width,
+    height: sideways ? box.width : box.height,
+    turn,
+    toPage: (u, v) =>
+      turn === 90 ? [box.x + box.width - v, box.y + u] :
+      turn === 180 ? [box.x + box.width - u, box.y + box.height - v] :
+      turn === 270 ? [box.x + v, box.y + box.height - u] :
+      [box.x + u, box.y + v],
+  };
+}
@@ -0,0 +1,33 @@
+import { EncryptedPDFError, PDFDocument } from 'pdf-lib';
+import { MAX_FILE_SIZE, MAX_PAGES, formatMegabytes } from './limits';
+import { SIGNATURE_LENGTH, signatureError } from './signatures';
+
+export type PdfUpload = { pdfDoc: PDFDocument; bytes: Buffer } | { error: string };
+
+// Check and open a PDF sent to one of the PDF tool endpoints. Every failure comes back
+// as a message that is safe to show to the user.
+export async function readPdfUpload(file: File | null): Promise<PdfUpload> {
+  if (!file) return { error: 'No file provided' };
+  if (file.size > MAX_FILE_SIZE) {
+    return { error: `File size exceeds the ${formatMegabytes(MAX_FILE_SIZE)} limit` };
+  }
+
+  const bytes = Buffer.from(await file.arrayBuffer());
+  const mismatch = signatureError(bytes.subarray(0, SIGNATURE_LENGTH), 'pdf');
+  if (mismatch) return { error: mismatch };
+
+  let pdfDoc: PDFDocument;
+  try {
+    pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false });
+  } catch (error) {
+    if (error instanceof EncryptedPDFError) {
+      return { error: 'This PDF is password-protected. Remove the password and try again.' };
+    }
+    console.error('Error reading uploaded PDF:', error);
+    return { error: 'This PDF is damaged and cannot be read.' };
+  }
+  if (pdfDoc.getPageCount() > MAX_PAGES) {
+    return { error: `This PDF has more than ${MAX_PAGES} pages` };
+  }
+  return { pdfDoc, bytes };
+}
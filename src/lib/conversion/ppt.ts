@@ -0,0 +1,275 @@
+import * as CFB from 'cfb';
+import { Block, TextRun } from './layout';
+import { Box, DEFAULT_SLIDE_SIZE, Presentation, Slide, SlideElement } from './presentation';
+
+interface RecordHeader {
+  container: boolean;
+  instance: number;
+  type: number;
+  offset: number; // start of the record body
+  length: number;
+}
+
+interface SlideText {
+  type: number;
+  text: string;
+}
+
+interface SlideEntry {
+  persistId: number;
+  slideId: number;
+  texts: SlideText[];
+}
+
+const RECORD = {
+  document: 0x03e8,
+  documentAtom: 0x03e9,
+  notesAtom: 0x03f1,
+  slidePersistAtom: 0x03f3,
+  outlineTextRefAtom: 0x0f9e,
+  textHeaderAtom: 0x0f9f,
+  textCharsAtom: 0x0fa0,
+  textBytesAtom: 0x0fa8,
+  slideListWithText: 0x0ff0,
+  userEditAtom: 0x0ff5,
+  persistDirectoryAtom: 0x1772,
+  shapeContainer: 0xf004,
+  clientTextbox: 0xf00d,
+  clientAnchor: 0xf010,
+};
+
+// Text types from the TextHeaderAtom
+const TITLE_TYPES = [0, 6];
+const BULLETED_TYPES = [1, 7, 8];
+const CENTERED_TYPES = [5, 6];
+const NOTES_TYPE = 2;
+
+const MASTER_UNITS_PER_POINT = 8; // 576 master units per inch
+const TITLE_SIZE = 36;
+const BODY_SIZE = 20;
+
+// Parse a legacy binary PowerPoint file. Only slide text and its placement are
+// recovered; pictures and drawings live in structures we do not decode.
+export function parsePpt(data: Buffer): Presentation {
+  const file = CFB.read(data, { type: 'buffer' });
+  const documentEntry = CFB.find(file, 'PowerPoint Document');
+  const currentUserEntry = CFB.find(file, 'Current User');
+  if (!documentEntry || !currentUserEntry) {
+    throw new Error('Not a PowerPoint presentation');
+  }
+  const stream = Buffer.from(documentEntry.content as Uint8Array);
+  const { directory, documentId } = readPersistDirectory(stream, Buffer.from(currentUserEntry.content as Uint8Array));
+
+  const documentRecord = recordAt(stream, directory.get(documentId));
+  if (!documentRecord || documentRecord.type !== RECORD.document) {
+    throw new Error('PowerPoint document record not found');
+  }
+
+  const records = children(stream, documentRecord);
+  const documentAtom = records.find(record => record.type === RECORD.documentAtom);
+  const width = documentAtom ? stream.readInt32LE(documentAtom.offset) / MASTER_UNITS_PER_POINT : DEFAULT_SLIDE_SIZE.width;
+  const height = documentAtom ? stream.readInt32LE(documentAtom.offset + 4) / MASTER_UNITS_PER_POINT : DEFAULT_SLIDE_SIZE.height;
+
+  // Instance 0 lists the slides in presentation order, instance 2 their notes pages
+  const slideList = records.find(record => record.type === RECORD.slideListWithText && record.instance === 0);
+  const notesList = records.find(record => record.type === RECORD.slideListWithText && record.instance === 2);
+
+  const notesBySlide = new Map<number, Block[]>();
+  readSlideList(stream, notesList).forEach(entry => {
+    const notes = recordAt(stream, directory.get(entry.persistId));
+    if (!notes) return;
+    const notesAtom = children(stream, notes).find(record => record.type === RECORD.notesAtom);
+    if (!notesAtom) return;
+    const texts = entry.texts.concat(shapeTexts(stream, notes, []).map(shape => shape.text));
+    const blocks = texts
+      .filter(text => text.type === NOTES_TYPE)
+      .reduce((all: Block[], text) => all.concat(paragraphs(text.text).map(toParagraph)), []);
+    notesBySlide.set(stream.readUInt32LE(notesAtom.offset), blocks);
+  });
+
+  const slides: Slide[] = readSlideList(stream, slideList).map(entry => {
+    const container = recordAt(stream, directory.get(entry.persistId));
+    const shapes = container ? shapeTexts(stream, container, entry.texts) : [];
+    // Text the slide's drawing does not place falls back to the standard title and body areas
+    const placed = shapes.map(shape => shape.text);
+    entry.texts.filter(text => placed.indexOf(text) === -1).forEach(text => shapes.push({ text }));
+
+    return {
+      elements: shapes
+        .map(shape => textElement(shape.text, shape.box || defaultBox(shape.text.type, width, height)))
+        .filter((element): element is SlideElement => element !== null),
+      notes: notesBySlide.get(entry.slideId) || [],
+    };
+  });
+
+  return { width, height, slides };
+}
+
+// Later edits are appended to the stream, so the newest location of each object wins
+function readPersistDirectory(stream: Buffer, currentUser: Buffer) {
+  const directory = new Map<number, number>();
+  let documentId = -1;
+  let editOffset = currentUser.readUInt32LE(16);
+  const visited: number[] = [];
+
+  while (visited.indexOf(editOffset) === -1) {
+    visited.push(editOffset);
+    const edit = recordAt(stream, editOffset);
+    if (!edit || edit.type !== RECORD.userEditAtom) break;
+    if (documentId === -1) documentId = stream.readUInt32LE(edit.offset + 16);
+
+    const persist = recordAt(stream, stream.readUInt32LE(edit.offset + 12));
+    if (persist && persist.type === RECORD.persistDirectoryAtom) {
+      let position = persist.offset;
+      const end = persist.offset + persist.length;
+      while (position + 4 <= end) {
+        const entry = stream.readUInt32LE(position);
+        const firstId = entry & 0xfffff;
+        const count = entry >>> 20;
+        position += 4;
+        for (let i = 0; i < count && position + 4 <= end; i++, position += 4) {
+          if (!directory.has(firstId + i)) directory.set(firstId + i, stream.readUInt32LE(position));
+        }
+      }
+    }
+
+    editOffset = stream.readUInt32LE(edit.offset + 8);
+    if (editOffset === 0) break;
+  }
+  return { directory, documentId };
+}
+
+function readSlideList(stream: Buffer, list: RecordHeader | undefined): SlideEntry[] {
+  const entries: SlideEntry[] = [];
+  let textType = 4;
+  children(stream, list).forEach(record => {
+    if (record.type === RECORD.slidePersistAtom) {
+      entries.push({
+        persistId: stream.readUInt32LE(record.offset),
+        slideId: stream.readUInt32LE(record.offset + 12),
+        texts: [],
+      });
+    } else if (record.type === RECORD.textHeaderAtom) {
+      textType = stream.readUInt32LE(record.offset);
+    } else if (entries.length > 0 && (record.type === RECORD.textCharsAtom || record.type === RECORD.textBytesAtom)) {
+      entries[entries.length - 1].texts.push({ type: textType, text: readText(stream, record) });
+    }
+  });
+  return entries;
+}
+
+// Text boxes in the slide's drawing, with their anchors; placeholder text is
+// referenced by index into the slide list rather than stored in the box
+function shapeTexts(stream: Buffer, container: RecordHeader, outlineTexts: SlideText[]) {
+  const result: { text: SlideText; box?: Box }[] = [];
+  descendants(stream, container, RECORD.shapeContainer).forEach(shape => {
+    const records = children(stream, shape);
+    const textbox = records.find(record => record.type === RECORD.clientTextbox);
+    if (!textbox) return;
+
+    let type = 4;
+    let text: SlideText | undefined;
+    children(stream, textbox).forEach(record => {
+      if (record.type === RECORD.textHeaderAtom) {
+        type = stream.readUInt32LE(record.offset);
+      } else if (record.type === RECORD.textCharsAtom || record.type === RECORD.textBytesAtom) {
+        text = { type, text: readText(stream, record) };
+      } else if (record.type === RECORD.outlineTextRefAtom) {
+        text = outlineTexts[stream.readUInt32LE(record.offset)];
+      }
+    });
+    if (!text) return;
+
+    const anchor = records.find(record => record.type === RECORD.clientAnchor);
+    result.push({ text, box: anchor ? readAnchor(stream, anchor) : undefined });
+  });
+  return result;
+}
+
+function readAnchor(stream: Buffer, anchor: RecordHeader): Box {
+  const wide = anchor.length >= 16;
+  const read = (index: number) =>
+    (wide ? stream.readInt32LE(anchor.offset + index * 4) : stream.readInt16LE(anchor.offset + index * 2)) /
+    MASTER_UNITS_PER_POINT;
+  const [top, left, right, bottom] = [read(0), read(1), read(2), read(3)];
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+function defaultBox(type: number, width: number, height: number): Box {
+  return TITLE_TYPES.indexOf(type) !== -1
+    ? { x: width * 0.06, y: height * 0.05, width: width * 0.88, height: height * 0.18 }
+    : { x: width * 0.06, y: height * 0.26, width: width * 0.88, height: height * 0.66 };
+}
+
+function textElement(text: SlideText, box: Box): SlideElement | null {
+  const isTitle = TITLE_TYPES.indexOf(text.type) !== -1;
+  const size = isTitle ? TITLE_SIZE : BODY_SIZE;
+  const align = CENTERED_TYPES.indexOf(text.type) !== -1 ? 'center' : undefined;
+  const lines = paragraphs(text.text);
+  if (lines.length === 0) return null;
+
+  const toBlock = (line: string): Block => {
+    const runs: TextRun[] = [{ text: line, size }];
+    return align ? { type: 'paragraph', runs, align } : { type: 'paragraph', runs };
+  };
+  const blocks: Block[] =
+    BULLETED_TYPES.indexOf(text.type) !== -1
+      ? [{ type: 'list', ordered: false, items: lines.map(line => ({ blocks: [toBlock(line)] })) }]
+      : lines.map(toBlock);
+
+  return { type: 'text', box, blocks, fontSize: size, verticalAlign: isTitle ? 'middle' : 'top' };
+}
+
+// Paragraphs end with a carriage return; vertical tabs are soft line breaks
+function paragraphs(text: string): string[] {
+  return text
+    .split('\r')
+    .map(paragraph => paragraph.replace(/\x0b/g, '\n').replace(/\t/g, ' '))
+    .filter(paragraph => paragraph.trim());
+}
+
+function toParagraph(text: string): Block {
+  return { type: 'paragraph', runs: [{ text }] };
+}
+
+function readText(stream: Buffer, record: RecordHeader): string {
+  const bytes = stream.subarray(record.offset, record.offset + record.length);
+  return record.type === RECORD.textCharsAtom ? bytes.toString('utf16le') : bytes.toString('latin1');
+}
+
+// Records
+
+function recordAt(stream: Buffer, offset: number | undefined): RecordHeader | null {
+  if (offset === undefined || offset + 8 > stream.length) return null;
+  const versionAndInstance = stream.readUInt16LE(offset);
+  return {
+    container: (versionAndInstance & 0xf) === 0xf,
+    instance: versionAndInstance >> 4,
+    type: stream.readUInt16LE(offset + 2),
+    offset: offset + 8,
+    length: stream.readUInt32LE(offset + 4),
+  };
+}
+
+function children(stream: Buffer, parent: RecordHeader | null | undefined): RecordHeader[] {
+  const result: RecordHeader[] = [];
+  if (!parent || !parent.container) return result;
+  const end = Math.min(stream.length, parent.offset + parent.length);
+  let offset = parent.offset;
+  while (offset + 8 <= end) {
+    const record = recordAt(stream, offset);
+    if (!record) break;
+    result.push(record);
+    offset = record.offset + record.length;
+  }
+  return result;
+}
+
+function descendants(stream: Buffer, parent: RecordHeader, type: number): RecordHeader[] {
+  const result: RecordHeader[] = [];
+  children(stream, parent).forEach(record => {
+    if (record.type === type) result.push(record);
+    if (record.container) result.push(...descendants(stream, record, type));
+  });
+  return result;
+}
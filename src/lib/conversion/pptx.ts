@@ -0,0 +1,738 @@
+import JSZip from 'jszip';
+import { RGB, rgb } from 'pdf-lib';
+import { Block, ListItem, TableCell, TextRun } from './layout';
+import { Box, DEFAULT_SLIDE_SIZE, Presentation, ShapeKind, Slide, SlideElement, imageFormat } from './presentation';
+import { Element, attribute, childElement, childElements, find, findAll, numberAttribute, parseXml } from './xml';
+
+interface Relationship {
+  type: string;
+  target: string;
+  external: boolean;
+}
+
+interface Part {
+  path: string;
+  root: Element;
+  rels: { [id: string]: Relationship };
+}
+
+interface Theme {
+  colors: { [name: string]: string }; // hex values keyed by scheme slot, e.g. dk1 or accent2
+  colorMap: { [name: string]: string }; // tx1, bg1... to scheme slots, from the master
+}
+
+interface SlideContext {
+  pkg: PptxPackage;
+  theme: Theme;
+  layout: Part;
+  master: Part;
+  defaultTextStyle: Element | null;
+}
+
+interface TextOptions {
+  fontScale: number;
+  fallbackColor?: RGB;
+  plain?: boolean; // speaker notes keep their formatting but not their sizes and colours
+}
+
+interface Paragraph {
+  level: number;
+  bullet: 'none' | 'bullet' | 'number';
+  start?: number;
+  block: Block;
+}
+
+type Transform = (box: Box) => Box;
+
+const EMU_PER_POINT = 12700;
+// Transitional and strict documents use different URIs, both ending in "relationships"
+const RELATIONSHIPS = /relationships$/;
+const DEFAULT_FONT_SIZE = 18;
+const DEFAULT_INSETS = { lIns: 91440, tIns: 45720, rIns: 91440, bIns: 45720 };
+
+const ALIGNMENTS: { [value: string]: 'left' | 'center' | 'right' } = { l: 'left', ctr: 'center', r: 'right' };
+const ANCHORS: { [value: string]: 'top' | 'middle' | 'bottom' } = { t: 'top', ctr: 'middle', b: 'bottom' };
+
+// Preset geometries we can draw; everything else keeps its text but not its outline
+const SHAPES: { [preset: string]: ShapeKind } = {
+  rect: 'rect',
+  roundRect: 'rect',
+  snip1Rect: 'rect',
+  flowChartProcess: 'rect',
+  ellipse: 'ellipse',
+  flowChartConnector: 'ellipse',
+  line: 'line',
+  straightConnector1: 'line',
+  triangle: 'triangle',
+  rtTriangle: 'rtTriangle',
+  diamond: 'diamond',
+  flowChartDecision: 'diamond',
+};
+
+const PRESET_COLORS: { [name: string]: string } = {
+  black: '000000',
+  white: 'FFFFFF',
+  red: 'FF0000',
+  green: '008000',
+  blue: '0000FF',
+  yellow: 'FFFF00',
+  gray: '808080',
+};
+
+// Parse a PowerPoint Open XML presentation
+export async function parsePptx(data: Buffer): Promise<Presentation> {
+  const pkg = new PptxPackage(await JSZip.loadAsync(data));
+  const presentation = await pkg.part('ppt/presentation.xml');
+
+  const size = find(presentation.root, 'sldSz');
+  const width = size ? emu(numberAttribute(size, 'cx')) : DEFAULT_SLIDE_SIZE.width;
+  const height = size ? emu(numberAttribute(size, 'cy')) : DEFAULT_SLIDE_SIZE.height;
+  const defaultTextStyle = find(presentation.root, 'defaultTextStyle');
+
+  const slides: Slide[] = [];
+  for (const slideId of findAll(find(presentation.root, 'sldIdLst'), 'sldId')) {
+    const rel = presentation.rels[attribute(slideId, 'id', RELATIONSHIPS) || ''];
+    if (!rel) continue;
+    const slide = await readSlide(pkg, await pkg.part(rel.target), defaultTextStyle);
+    if (slide) slides.push(slide);
+  }
+
+  return { width, height, slides };
+}
+
+class PptxPackage {
+  private parts = new Map<string, Promise<Part>>();
+  private files = new Map<string, Promise<Uint8Array | null>>();
+
+  constructor(private zip: JSZip) {}
+
+  part(path: string): Promise<Part> {
+    let part = this.parts.get(path);
+    if (!part) {
+      part = this.loadPart(path);
+      this.parts.set(path, part);
+    }
+    return part;
+  }
+
+  async related(part: Part, type: string): Promise<Part | null> {
+    const rel = Object.keys(part.rels)
+      .map(id => part.rels[id])
+      .find(candidate => !candidate.external && candidate.type.endsWith(`/${type}`));
+    return rel ? this.part(rel.target) : null;
+  }
+
+  // Media is read once per file so an image repeated on every slide is embedded once
+  media(path: string): Promise<Uint8Array | null> {
+    let bytes = this.files.get(path);
+    if (!bytes) {
+      const file = this.zip.file(path);
+      bytes = file ? file.async('uint8array') : Promise.resolve(null);
+      this.files.set(path, bytes);
+    }
+    return bytes;
+  }
+
+  private async loadPart(path: string): Promise<Part> {
+    const file = this.zip.file(path);
+    if (!file) {
+      throw new Error(`Presentation is missing ${path}`);
+    }
+    const root = parseXml(await file.async('string'));
+
+    const rels: { [id: string]: Relationship } = {};
+    const slash = path.lastIndexOf('/');
+    const relsFile = this.zip.file(`${path.slice(0, slash)}/_rels/${path.slice(slash + 1)}.rels`);
+    if (relsFile) {
+      childElements(parseXml(await relsFile.async('string')), 'Relationship').forEach(rel => {
+        const external = attribute(rel, 'TargetMode') === 'External';
+        const target = attribute(rel, 'Target') || '';
+        rels[attribute(rel, 'Id') || ''] = {
+          type: attribute(rel, 'Type') || '',
+          target: external ? target : resolvePath(path, target),
+          external,
+        };
+      });
+    }
+    return { path, root, rels };
+  }
+}
+
+function resolvePath(base: string, target: string): string {
+  if (target.charAt(0) === '/') return target.slice(1);
+  const parts = base.split('/');
+  parts.pop();
+  target.split('/').forEach(segment => {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  });
+  return parts.join('/');
+}
+
+async function readSlide(pkg: PptxPackage, slide: Part, defaultTextStyle: Element | null): Promise<Slide | null> {
+  // Hidden slides are left out, as PowerPoint does when exporting
+  if (attribute(slide.root, 'show') === '0') return null;
+
+  const layout = await pkg.related(slide, 'slideLayout');
+  const master = layout && (await pkg.related(layout, 'slideMaster'));
+  if (!layout || !master) {
+    throw new Error(`Slide ${slide.path} has no layout`);
+  }
+  const themePart = await pkg.related(master, 'theme');
+  const context: SlideContext = { pkg, theme: readTheme(themePart, master), layout, master, defaultTextStyle };
+
+  const elements: SlideElement[] = [];
+  const identity: Transform = box => box;
+  // Decorations from the master and layout sit behind the slide's own shapes
+  if (attribute(slide.root, 'showMasterSp') !== '0') {
+    if (attribute(layout.root, 'showMasterSp') !== '0') {
+      await readShapes(shapeTree(master), master, context, identity, elements, true);
+    }
+    await readShapes(shapeTree(layout), layout, context, identity, elements, true);
+  }
+  await readShapes(shapeTree(slide), slide, context, identity, elements, false);
+
+  return {
+    background: readBackground([slide, layout, master], context.theme),
+    elements,
+    notes: await readNotes(slide, context),
+  };
+}
+
+function shapeTree(part: Part): Element[] {
+  return childElements(childElement(childElement(part.root, 'cSld'), 'spTree'));
+}
+
+function readTheme(themePart: Part | null, master: Part): Theme {
+  const colors: { [name: string]: string } = {};
+  childElements(find(themePart && themePart.root, 'clrScheme')).forEach(slot => {
+    const color = childElements(slot)[0];
+    const value = color && attribute(color, color.localName === 'sysClr' ? 'lastClr' : 'val');
+    if (value) colors[slot.localName || ''] = value;
+  });
+
+  const colorMap: { [name: string]: string } = { tx1: 'dk1', bg1: 'lt1', tx2: 'dk2', bg2: 'lt2' };
+  const clrMap = childElement(master.root, 'clrMap');
+  if (clrMap) {
+    for (let i = 0; i < clrMap.attributes.length; i++) {
+      const attr = clrMap.attributes.item(i);
+      if (attr && attr.localName) colorMap[attr.localName] = attr.value;
+    }
+  }
+  return { colors, colorMap };
+}
+
+async function readShapes(
+  nodes: Element[],
+  part: Part,
+  context: SlideContext,
+  transform: Transform,
+  elements: SlideElement[],
+  decorationsOnly: boolean
+) {
+  for (const node of nodes) {
+    // Placeholders on masters and layouts are prompts like "Click to add title", not content
+    if (decorationsOnly && placeholderOf(node)) continue;
+
+    switch (node.localName) {
+      case 'sp':
+        readShape(node, part, context, transform, elements);
+        break;
+      case 'cxnSp':
+        readConnector(node, context, transform, elements);
+        break;
+      case 'pic':
+        await readPicture(node, part, context, transform, elements);
+        break;
+      case 'graphicFrame':
+        readTable(node, part, context, transform, elements);
+        break;
+      case 'grpSp': {
+        const xfrm = childElement(childElement(node, 'grpSpPr'), 'xfrm');
+        const groupTransform = xfrm ? childTransform(xfrm, transform) : transform;
+        await readShapes(childElements(node), part, context, groupTransform, elements, decorationsOnly);
+        break;
+      }
+      case 'AlternateContent':
+        // The fallback branch always uses the baseline schema
+        await readShapes(childElements(childElement(node, 'Fallback')), part, context, transform, elements, decorationsOnly);
+        break;
+    }
+  }
+}
+
+function readShape(sp: Element, part: Part, context: SlideContext, transform: Transform, elements: SlideElement[]) {
+  const placeholder = placeholderOf(sp);
+  const chain = [sp, ...inheritedPlaceholders(placeholder, context)];
+  const xfrm = firstOf(chain.map(shape => childElement(childElement(shape, 'spPr'), 'xfrm')));
+  if (!xfrm) return;
+
+  const box = transform(readXfrm(xfrm));
+  const spPr = childElement(sp, 'spPr');
+  const style = childElement(sp, 'style');
+  const shape = SHAPES[attribute(childElement(spPr, 'prstGeom'), 'prst') || ''];
+  if (shape) {
+    const fill = shape === 'line' ? undefined : shapeFill(spPr, style, context.theme);
+    const outline = shapeOutline(spPr, style, context.theme);
+    if (fill || outline.stroke) {
+      elements.push({ type: 'shape', shape, box, fill, ...outline });
+    }
+  }
+
+  const txBody = childElement(sp, 'txBody');
+  if (!txBody) return;
+
+  const bodyProperties = chain.map(shape => childElement(childElement(shape, 'txBody'), 'bodyPr'));
+  const inset = (name: keyof typeof DEFAULT_INSETS) => {
+    const value = firstOf(bodyProperties.map(bodyPr => numberAttribute(bodyPr, name)));
+    return emu(value === null ? DEFAULT_INSETS[name] : value);
+  };
+  const autofit = childElement(childElement(txBody, 'bodyPr'), 'normAutofit');
+  const fontRef = childElement(style, 'fontRef');
+
+  const text = readTextBody(txBody, textStyles(chain, placeholder, context), part, context, {
+    fontScale: (numberAttribute(autofit, 'fontScale') || 100000) / 100000,
+    fallbackColor: fontRef ? readColor(fontRef, context.theme) : undefined,
+  });
+  if (text.blocks.length === 0) return;
+
+  elements.push({
+    type: 'text',
+    box: {
+      x: box.x + inset('lIns'),
+      y: box.y + inset('tIns'),
+      width: Math.max(1, box.width - inset('lIns') - inset('rIns')),
+      height: Math.max(1, box.height - inset('tIns') - inset('bIns')),
+    },
+    blocks: text.blocks,
+    fontSize: text.fontSize,
+    verticalAlign: ANCHORS[firstOf(bodyProperties.map(bodyPr => attribute(bodyPr, 'anchor'))) || 't'],
+  });
+}
+
+function readConnector(node: Element, context: SlideContext, transform: Transform, elements: SlideElement[]) {
+  const spPr = childElement(node, 'spPr');
+  const xfrm = childElement(spPr, 'xfrm');
+  if (!xfrm) return;
+  const outline = shapeOutline(spPr, childElement(node, 'style'), context.theme);
+  if (outline.stroke) {
+    elements.push({ type: 'shape', shape: 'line', box: transform(readXfrm(xfrm)), ...outline });
+  }
+}
+
+async function readPicture(
+  pic: Element,
+  part: Part,
+  context: SlideContext,
+  transform: Transform,
+  elements: SlideElement[]
+) {
+  const chain = [pic, ...inheritedPlaceholders(placeholderOf(pic), context)];
+  const xfrm = firstOf(chain.map(shape => childElement(childElement(shape, 'spPr'), 'xfrm')));
+  const rel = part.rels[attribute(find(childElement(pic, 'blipFill'), 'blip'), 'embed', RELATIONSHIPS) || ''];
+  if (!xfrm || !rel || rel.external) return;
+
+  // Only PNG and JPEG can be embedded; vector formats such as EMF are skipped
+  const bytes = await context.pkg.media(rel.target);
+  const format = bytes && imageFormat(bytes);
+  if (bytes && format) {
+    elements.push({ type: 'image', box: transform(readXfrm(xfrm)), bytes, format });
+  }
+}
+
+function readTable(frame: Element, part: Part, context: SlideContext, transform: Transform, elements: SlideElement[]) {
+  // Charts, diagrams and embedded objects are graphic frames too, but only tables carry readable content
+  const table = find(frame, 'tbl');
+  const xfrm = childElement(frame, 'xfrm');
+  if (!table || !xfrm) return;
+
+  const options = { fontScale: 1 };
+  const rows: TableCell[][] = childElements(table, 'tr').map(row =>
+    childElements(row, 'tc').map(cell => {
+      // Cells covered by a merge are drawn empty so every row keeps its column count
+      if (attribute(cell, 'hMerge') === '1' || attribute(cell, 'vMerge') === '1') return { runs: [] };
+      const runs: TextRun[] = [];
+      childElements(childElement(cell, 'txBody'), 'p').forEach(paragraph => {
+        if (runs.length > 0) runs.push({ text: '\n' });
+        runs.push(...paragraphRuns(paragraph, [], part, context, options));
+      });
+      return { runs };
+    })
+  );
+  if (rows.length === 0) return;
+
+  const firstRow = attribute(childElement(table, 'tblPr'), 'firstRow');
+  elements.push({
+    type: 'text',
+    box: transform(readXfrm(xfrm)),
+    blocks: [{ type: 'table', rows, headerRows: firstRow === '1' || firstRow === 'true' ? 1 : 0 }],
+    fontSize: DEFAULT_FONT_SIZE,
+  });
+}
+
+async function readNotes(slide: Part, context: SlideContext): Promise<Block[]> {
+  const notes = await context.pkg.related(slide, 'notesSlide');
+  if (!notes) return [];
+  const body = findAll(notes.root, 'sp').find(sp => attribute(placeholderOf(sp), 'type') === 'body');
+  const txBody = childElement(body, 'txBody');
+  return txBody ? readTextBody(txBody, [], notes, context, { fontScale: 1, plain: true }).blocks : [];
+}
+
+function readBackground(parts: Part[], theme: Theme): RGB | undefined {
+  for (const part of parts) {
+    const background = childElement(childElement(part.root, 'cSld'), 'bg');
+    if (!background) continue;
+    const properties = childElement(background, 'bgPr');
+    if (properties) {
+      const fill = childElement(properties, 'solidFill') || firstGradientStop(properties);
+      return fill ? readColor(fill, theme) : undefined;
+    }
+    // Theme background styles are approximated by their base colour
+    const reference = childElement(background, 'bgRef');
+    return reference ? readColor(reference, theme) : undefined;
+  }
+  return undefined;
+}
+
+// Placeholders
+
+function placeholderOf(node: Element): Element | null {
+  return find(childElements(node)[0], 'ph');
+}
+
+// Slides link to layout placeholders by index, and layouts to the master by type
+function inheritedPlaceholders(placeholder: Element | null, context: SlideContext): Element[] {
+  if (!placeholder) return [];
+  const result: Element[] = [];
+  const layoutShape = findPlaceholder(context.layout, attribute(placeholder, 'idx'), attribute(placeholder, 'type'));
+  if (layoutShape) result.push(layoutShape);
+
+  const type = layoutShape ? attribute(placeholderOf(layoutShape), 'type') : attribute(placeholder, 'type');
+  const masterShape = findPlaceholder(context.master, null, type);
+  if (masterShape) result.push(masterShape);
+  return result;
+}
+
+function findPlaceholder(part: Part, idx: string | null, type: string | null): Element | null {
+  const shapes = findAll(part.root, 'sp').filter(shape => placeholderOf(shape));
+  const byIndex = idx !== null && shapes.find(shape => attribute(placeholderOf(shape), 'idx') === idx);
+  if (byIndex) return byIndex;
+  const wanted = masterPlaceholderType(type);
+  return shapes.find(shape => masterPlaceholderType(attribute(placeholderOf(shape), 'type')) === wanted) || null;
+}
+
+function masterPlaceholderType(type: string | null): string {
+  if (type === 'ctrTitle') return 'title';
+  if (!type || type === 'subTitle' || type === 'obj') return 'body';
+  return type;
+}
+
+// List styles from the shape up to the presentation defaults, most specific first
+function textStyles(chain: Element[], placeholder: Element | null, context: SlideContext): Element[] {
+  const styles = chain.map(shape => childElement(childElement(shape, 'txBody'), 'lstStyle'));
+  const type = placeholder ? masterPlaceholderType(attribute(placeholder, 'type')) : null;
+  const masterStyle =
+    type === 'title' ? 'titleStyle' : type && ['dt', 'ftr', 'sldNum'].indexOf(type) === -1 ? 'bodyStyle' : 'otherStyle';
+  styles.push(childElement(find(context.master.root, 'txStyles'), masterStyle), context.defaultTextStyle);
+  return styles.filter((style): style is Element => style !== null);
+}
+
+// Text
+
+function readTextBody(
+  txBody: Element,
+  styles: Element[],
+  part: Part,
+  context: SlideContext,
+  options: TextOptions
+): { blocks: Block[]; fontSize: number } {
+  const paragraphs: Paragraph[] = [];
+  let fontSize = 0;
+
+  childElements(txBody, 'p').forEach(paragraph => {
+    const pPr = childElement(paragraph, 'pPr');
+    const level = Math.min(8, numberAttribute(pPr, 'lvl') || 0);
+    const levelStyles = [pPr, ...styles.map(style => childElement(style, `lvl${level + 1}pPr`))].filter(
+      (style): style is Element => style !== null
+    );
+
+    let runs = paragraphRuns(paragraph, levelStyles, part, context, options);
+    const size = runs.length > 0 ? runs[0].size : runSize([childElement(paragraph, 'endParaRPr'), ...defaults(levelStyles)], options);
+    fontSize = fontSize || size || 0;
+
+    if (runs.every(run => !run.text.trim())) {
+      if (options.plain) return;
+      // Empty paragraphs still take up a line at their own size
+      runs = [{ text: ' ', size }];
+      paragraphs.push({ level, bullet: 'none', block: { type: 'paragraph', runs } });
+      return;
+    }
+
+    const align = ALIGNMENTS[firstOf(levelStyles.map(style => attribute(style, 'algn'))) || ''];
+    const bullet = levelStyles.map(bulletOf).find(value => value !== null) || null;
+    paragraphs.push({
+      level,
+      bullet: bullet ? bullet.kind : 'none',
+      start: bullet ? bullet.start : undefined,
+      block: align && align !== 'left' ? { type: 'paragraph', runs, align } : { type: 'paragraph', runs },
+    });
+  });
+
+  return { blocks: groupLists(paragraphs), fontSize: fontSize || DEFAULT_FONT_SIZE * options.fontScale };
+}
+
+function paragraphRuns(
+  paragraph: Element,
+  levelStyles: Element[],
+  part: Part,
+  context: SlideContext,
+  options: TextOptions
+): TextRun[] {
+  const runs: TextRun[] = [];
+  childElements(paragraph).forEach(node => {
+    if (node.localName === 'br') {
+      runs.push({ text: '\n' });
+      return;
+    }
+    if (node.localName !== 'r' && node.localName !== 'fld') return;
+
+    const textElement = childElement(node, 't');
+    const text = (textElement && textElement.textContent) || '';
+    if (!text) return;
+    const rPr = childElement(node, 'rPr');
+    const chain = [rPr, ...defaults(levelStyles)];
+    const flag = (name: string) => {
+      const value = firstOf(chain.map(properties => attribute(properties, name)));
+      return value === '1' || value === 'true';
+    };
+
+    const run: TextRun = { text: text.replace(/\t/g, ' ') };
+    if (flag('b')) run.bold = true;
+    if (flag('i')) run.italic = true;
+    const underline = firstOf(chain.map(properties => attribute(properties, 'u')));
+    if (underline && underline !== 'none') run.underline = true;
+    if (!options.plain) {
+      run.size = runSize(chain, options);
+      const fill = firstOf(chain.map(properties => childElement(properties, 'solidFill')));
+      const color = fill ? readColor(fill, context.theme) : options.fallbackColor;
+      if (color) run.color = color;
+    }
+
+    const link = part.rels[attribute(childElement(rPr, 'hlinkClick'), 'id', RELATIONSHIPS) || ''];
+    if (link && link.external && /^(https?:|mailto:)/i.test(link.target)) {
+      run.link = link.target;
+      run.underline = true;
+    }
+    runs.push(run);
+  });
+  return runs;
+}
+
+function defaults(levelStyles: Element[]): (Element | null)[] {
+  return levelStyles.map(style => childElement(style, 'defRPr'));
+}
+
+function runSize(chain: (Element | null)[], options: TextOptions): number {
+  const size = firstOf(chain.map(properties => numberAttribute(properties, 'sz')));
+  return ((size === null ? DEFAULT_FONT_SIZE * 100 : size) / 100) * options.fontScale;
+}
+
+function bulletOf(style: Element): { kind: Paragraph['bullet']; start?: number } | null {
+  if (childElement(style, 'buNone')) return { kind: 'none' };
+  const autoNumber = childElement(style, 'buAutoNum');
+  if (autoNumber) return { kind: 'number', start: numberAttribute(autoNumber, 'startAt') || 1 };
+  if (childElement(style, 'buChar') || childElement(style, 'buBlip')) return { kind: 'bullet' };
+  return null;
+}
+
+// Bulleted paragraphs become lists, nested by their outline level
+function groupLists(paragraphs: Paragraph[]): Block[] {
+  const blocks: Block[] = [];
+  let stack: { level: number; ordered: boolean; items: ListItem[] }[] = [];
+
+  paragraphs.forEach(paragraph => {
+    if (paragraph.bullet === 'none') {
+      stack = [];
+      blocks.push(paragraph.block);
+      return;
+    }
+
+    const ordered = paragraph.bullet === 'number';
+    while (stack.length > 0 && stack[stack.length - 1].level > paragraph.level) stack.pop();
+    // Switching between bullets and numbers at the same level starts a new list
+    const top = stack[stack.length - 1];
+    if (top && top.level === paragraph.level && top.ordered !== ordered) stack.pop();
+
+    let current = stack[stack.length - 1];
+    if (!current || current.level < paragraph.level) {
+      const items: ListItem[] = [];
+      const list: Block = { type: 'list', ordered, start: paragraph.start, items };
+      const parentItems = current && current.items;
+      if (parentItems && parentItems.length > 0) {
+        parentItems[parentItems.length - 1].blocks.push(list);
+      } else {
+        blocks.push(list);
+      }
+      current = { level: paragraph.level, ordered, items };
+      stack.push(current);
+    }
+    current.items.push({ blocks: [paragraph.block] });
+  });
+  return blocks;
+}
+
+// Geometry and colour
+
+function readXfrm(xfrm: Element): Box {
+  const offset = childElement(xfrm, 'off');
+  const extent = childElement(xfrm, 'ext');
+  return {
+    x: emu(numberAttribute(offset, 'x')),
+    y: emu(numberAttribute(offset, 'y')),
+    width: emu(numberAttribute(extent, 'cx')),
+    height: emu(numberAttribute(extent, 'cy')),
+    rotation: (numberAttribute(xfrm, 'rot') || 0) / 60000,
+    flipH: attribute(xfrm, 'flipH') === '1',
+    flipV: attribute(xfrm, 'flipV') === '1',
+  };
+}
+
+// Group children are positioned in the group's own coordinate space
+function childTransform(xfrm: Element, parent: Transform): Transform {
+  const group = readXfrm(xfrm);
+  const childOffset = childElement(xfrm, 'chOff');
+  const childExtent = childElement(xfrm, 'chExt');
+  const childX = emu(numberAttribute(childOffset, 'x'));
+  const childY = emu(numberAttribute(childOffset, 'y'));
+  const childWidth = emu(numberAttribute(childExtent, 'cx'));
+  const childHeight = emu(numberAttribute(childExtent, 'cy'));
+  const scaleX = childWidth ? group.width / childWidth : 1;
+  const scaleY = childHeight ? group.height / childHeight : 1;
+
+  return box =>
+    parent({
+      ...box,
+      x: group.x + (box.x - childX) * scaleX,
+      y: group.y + (box.y - childY) * scaleY,
+      width: box.width * scaleX,
+      height: box.height * scaleY,
+    });
+}
+
+function shapeFill(spPr: Element | null, style: Element | null, theme: Theme): RGB | undefined {
+  if (childElement(spPr, 'noFill')) return undefined;
+  const fill = childElement(spPr, 'solidFill') || firstGradientStop(spPr);
+  if (fill) return readColor(fill, theme);
+  const reference = childElement(style, 'fillRef');
+  return reference && attribute(reference, 'idx') !== '0' ? readColor(reference, theme) : undefined;
+}
+
+function shapeOutline(spPr: Element | null, style: Element | null, theme: Theme): { stroke?: RGB; strokeWidth?: number } {
+  const line = childElement(spPr, 'ln');
+  if (childElement(line, 'noFill')) return {};
+  const width = numberAttribute(line, 'w');
+  const strokeWidth = width === null ? 0.75 : emu(width);
+
+  const fill = childElement(line, 'solidFill');
+  if (fill) return { stroke: readColor(fill, theme), strokeWidth };
+  const reference = childElement(style, 'lnRef');
+  return reference && attribute(reference, 'idx') !== '0' ? { stroke: readColor(reference, theme), strokeWidth } : {};
+}
+
+// Gradients are approximated by their first stop
+function firstGradientStop(parent: Element | null): Element | null {
+  return childElement(childElement(childElement(parent, 'gradFill'), 'gsLst'), 'gs');
+}
+
+function readColor(parent: Element, theme: Theme): RGB | undefined {
+  for (const color of childElements(parent)) {
+    let hex: string | null | undefined;
+    switch (color.localName) {
+      case 'srgbClr':
+        hex = attribute(color, 'val');
+        break;
+      case 'sysClr':
+        hex = attribute(color, 'lastClr');
+        break;
+      case 'schemeClr': {
+        const name = attribute(color, 'val') || '';
+        hex = theme.colors[theme.colorMap[name] || name];
+        break;
+      }
+      case 'prstClr':
+        hex = PRESET_COLORS[attribute(color, 'val') || ''];
+        break;
+      default:
+        continue;
+    }
+    return hex ? applyModifiers(hex, color) : undefined;
+  }
+  return undefined;
+}
+
+// Theme colours are usually tinted through luminance modifiers, applied in HSL space
+function applyModifiers(hex: string, color: Element): RGB | undefined {
+  const value = parseInt(hex, 16);
+  if (hex.length !== 6 || isNaN(value)) return undefined;
+  let [red, green, blue] = [(value >> 16) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255];
+
+  const modifier = (name: string) => {
+    const element = childElement(color, name);
+    return element ? (numberAttribute(element, 'val') || 0) / 100000 : null;
+  };
+  const lumMod = modifier('lumMod');
+  const lumOff = modifier('lumOff');
+  if (lumMod !== null || lumOff !== null) {
+    [red, green, blue] = adjustLuminance(red, green, blue, lumMod === null ? 1 : lumMod, lumOff || 0);
+  }
+  const shade = modifier('shade');
+  if (shade !== null) [red, green, blue] = [red * shade, green * shade, blue * shade];
+  const tint = modifier('tint');
+  if (tint !== null) [red, green, blue] = [red, green, blue].map(channel => 1 - (1 - channel) * tint);
+
+  return rgb(clamp(red), clamp(green), clamp(blue));
+}
+
+function adjustLuminance(red: number, green: number, blue: number, scale: number, offset: number): number[] {
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const lightness = (max + min) / 2;
+  let hue = 0;
+  let saturation = 0;
+  if (max !== min) {
+    const delta = max - min;
+    saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+    if (max === red) hue = (green - blue) / delta + (green < blue ? 6 : 0);
+    else if (max === green) hue = (blue - red) / delta + 2;
+    else hue = (red - green) / delta + 4;
+    hue /= 6;
+  }
+
+  const l = clamp(lightness * scale + offset);
+  if (saturation === 0) return [l, l, l];
+  const q = l < 0.5 ? l * (1 + saturation) : l + saturation - l * saturation;
+  const p = 2 * l - q;
+  return [hue + 1 / 3, hue, hue - 1 / 3].map(t => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  });
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function emu(value: number | null): number {
+  return (value || 0) / EMU_PER_POINT;
+}
+
+function firstOf<T>(values: (T | null | undefined)[]): T | null {
+  for (const value of values) {
+    if (value !== null && value !== undefined) return value;
+  }
+  return null;
+}
@@ -0,0 +1,197 @@
+import { PDFDocument, PDFImage, PDFPage, RGB, degrees } from 'pdf-lib';
+import { Block, DEFAULT_LAYOUT, LayoutOptions, renderBlocks, renderBlocksInFrame } from './layout';
+import { checkPageCount } from './limits';
+import { parseOdp } from './odp';
+import { parsePpt } from './ppt';
+import { parsePptx } from './pptx';
+
+// Slide geometry is in points, measured from the top-left corner of the slide
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation?: number; // degrees clockwise
+  flipH?: boolean;
+  flipV?: boolean;
+}
+
+export type ShapeKind = 'rect' | 'ellipse' | 'line' | 'triangle' | 'rtTriangle' | 'diamond';
+
+export type SlideElement =
+  | { type: 'shape'; shape: ShapeKind; box: Box; fill?: RGB; stroke?: RGB; strokeWidth?: number }
+  | { type: 'image'; box: Box; bytes: Uint8Array; format: 'png' | 'jpg' }
+  | { type: 'text'; box: Box; blocks: Block[]; fontSize: number; verticalAlign?: 'top' | 'middle' | 'bottom' };
+
+export interface Slide {
+  background?: RGB;
+  elements: SlideElement[];
+  notes: Block[];
+}
+
+export interface Presentation {
+  width: number;
+  height: number;
+  slides: Slide[];
+}
+
+// Default slide size when a file does not record one: 16:9 at 10 x 5.625 inches
+export const DEFAULT_SLIDE_SIZE = { width: 720, height: 405 };
+
+// Text on slides is set tighter than body text in documents
+const SLIDE_LINE_HEIGHT = 1.2;
+const SLIDE_PARAGRAPH_SPACING = 0.3;
+
+// Parse a presentation into positioned slide elements
+export async function parsePresentation(data: Buffer, extension: string): Promise<Presentation> {
+  if (extension === 'pptx') return parsePptx(data);
+  if (extension === 'odp') return parseOdp(data);
+  return parsePpt(data);
+}
+
+// Draw each slide on its own page at the slide's size, optionally followed by its speaker notes.
+// Slides keep their own type sizes, so only the font family applies to them; notes pages use all the text options.
+export async function renderSlides(
+  pdfDoc: PDFDocument,
+  presentation: Presentation,
+  includeNotes: boolean,
+  textOptions: Partial<Pick<LayoutOptions, 'fontFamily' | 'fontSize' | 'lineHeight'>> = {}
+) {
+  const { width, height, slides } = presentation;
+  const fontFamily = textOptions.fontFamily || DEFAULT_LAYOUT.fontFamily;
+  const images = new Map<Uint8Array, PDFImage | null>();
+
+  if (slides.length === 0) {
+    await renderBlocks(pdfDoc, [{ type: 'paragraph', runs: [{ text: 'This presentation has no slides.', italic: true }] }], {
+      ...textOptions,
+      pageSize: [width, height],
+    });
+    return;
+  }
+
+  for (let index = 0; index < slides.length; index++) {
+    const slide = slides[index];
+    // Checked before each slide is drawn, so a huge deck stops at the limit rather than after rendering
+    checkPageCount(pdfDoc.getPageCount() + 1);
+    const page = pdfDoc.addPage([width, height]);
+    if (slide.background) {
+      page.drawRectangle({ x: 0, y: 0, width, height, color: slide.background });
+    }
+
+    for (const element of slide.elements) {
+      if (element.type === 'shape') {
+        drawShape(page, element.shape, element.box, element.fill, element.stroke, element.strokeWidth);
+      } else if (element.type === 'image') {
+        if (!images.has(element.bytes)) {
+          images.set(element.bytes, await embedImage(pdfDoc, element.bytes, element.format));
+        }
+        const image = images.get(element.bytes);
+        if (image) drawImage(page, image, element.box);
+      } else if (element.blocks.length > 0) {
+        const { box } = element;
+        await renderBlocksInFrame(
+          pdfDoc,
+          element.blocks,
+          { page, x: box.x, y: height - box.y, width: box.width, height: box.height, verticalAlign: element.verticalAlign },
+          {
+            pageSize: [width, height],
+            fontFamily,
+            fontSize: element.fontSize,
+            lineHeight: SLIDE_LINE_HEIGHT,
+            paragraphSpacing: SLIDE_PARAGRAPH_SPACING,
+          }
+        );
+      }
+    }
+
+    if (includeNotes && slide.notes.length > 0) {
+      await renderBlocks(
+        pdfDoc,
+        [{ type: 'heading', level: 2, runs: [{ text: `Notes for slide ${index + 1}` }] }, ...slide.notes],
+        { ...textOptions, pageSize: [width, height] }
+      );
+    }
+  }
+}
+
+async function embedImage(pdfDoc: PDFDocument, bytes: Uint8Array, format: 'png' | 'jpg'): Promise<PDFImage | null> {
+  try {
+    return format === 'png' ? await pdfDoc.embedPng(bytes) : await pdfDoc.embedJpg(bytes);
+  } catch (error) {
+    console.warn('Skipping slide image that could not be embedded:', error);
+    return null;
+  }
+}
+
+// pdf-lib rotates about the point it draws from, so find where that point
+// ends up when the box is rotated about its centre
+function rotatedOrigin(page: PDFPage, box: Box, originX: number, originY: number) {
+  const angle = (-(box.rotation || 0) * Math.PI) / 180;
+  const centerX = box.x + box.width / 2;
+  const centerY = page.getHeight() - (box.y + box.height / 2);
+  const dx = originX - centerX;
+  const dy = originY - centerY;
+  return {
+    x: centerX + dx * Math.cos(angle) - dy * Math.sin(angle),
+    y: centerY + dx * Math.sin(angle) + dy * Math.cos(angle),
+    rotate: degrees(-(box.rotation || 0)),
+  };
+}
+
+function drawImage(page: PDFPage, image: PDFImage, box: Box) {
+  const origin = rotatedOrigin(page, box, box.x, page.getHeight() - box.y - box.height);
+  page.drawImage(image, { ...origin, width: box.width, height: box.height });
+}
+
+function drawShape(page: PDFPage, shape: ShapeKind, box: Box, fill?: RGB, stroke?: RGB, strokeWidth = 0.75) {
+  if (!fill && !stroke) return;
+  const { width, height } = box;
+
+  if (shape === 'line') {
+    if (!stroke) return;
+    const startX = box.flipH ? box.x + width : box.x;
+    const startY = box.flipV ? box.y + height : box.y;
+    const start = rotatedOrigin(page, box, startX, page.getHeight() - startY);
+    const end = rotatedOrigin(page, box, box.x * 2 + width - startX, page.getHeight() - (box.y * 2 + height - startY));
+    page.drawLine({ start, end, thickness: strokeWidth, color: stroke });
+    return;
+  }
+
+  const style = { color: fill, borderColor: stroke, borderWidth: stroke ? strokeWidth : 0 };
+
+  if (shape === 'ellipse') {
+    page.drawEllipse({
+      x: box.x + width / 2,
+      y: page.getHeight() - box.y - height / 2,
+      xScale: width / 2,
+      yScale: height / 2,
+      rotate: degrees(-(box.rotation || 0)),
+      ...style,
+    });
+    return;
+  }
+
+  // The remaining shapes are drawn as SVG paths from the top-left corner, with y pointing down
+  const left = box.flipH ? width : 0;
+  const right = width - left;
+  const top = box.flipV ? height : 0;
+  const bottom = height - top;
+  let path: string;
+  if (shape === 'triangle') {
+    path = `M ${width / 2} ${top} L ${right} ${bottom} L ${left} ${bottom} Z`;
+  } else if (shape === 'rtTriangle') {
+    path = `M ${left} ${top} L ${right} ${bottom} L ${left} ${bottom} Z`;
+  } else if (shape === 'diamond') {
+    path = `M ${width / 2} 0 L ${width} ${height / 2} L ${width / 2} ${height} L 0 ${height / 2} Z`;
+  } else {
+    path = `M 0 0 L ${width} 0 L ${width} ${height} L 0 ${height} Z`;
+  }
+  page.drawSvgPath(path, { ...rotatedOrigin(page, box, box.x, page.getHeight() - box.y), ...style });
+}
+
+// Identify embeddable images by their signature rather than trusting file names
+export function imageFormat(bytes: Uint8Array): 'png' | 'jpg' | null {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpg';
+  return null;
+}
@@ -0,0 +1,150 @@
+import { PDFArray, PDFContext, PDFDict, PDFDocument, PDFName, PDFObject, PDFRef } from 'pdf-lib';
+import { decryptDocument } from './encryption';
+
+// Opening uploaded PDFs that pdf-lib would reject on its own: password-protected files once the
+// password is known, and files with damage that can be worked around, such as a missing header,
+// an end that was cut off or a broken page tree.
+
+export type LoadResult =
+  | { pdfDoc: PDFDocument; repairs: string[] }
+  | { error: string; needsPassword: boolean };
+
+const LOAD_OPTIONS = { ignoreEncryption: true, updateMetadata: false };
+
+// Page attributes a page can take from the page tree above it
+const INHERITED_ATTRIBUTES = ['Resources', 'MediaBox', 'CropBox', 'Rotate'];
+
+const LETTER_SIZE = [0, 0, 612, 792];
+
+// Load a PDF, decrypting it with the password and repairing what can be repaired. Files protected
+// with only an owner password open without one, as they do in any viewer.
+export async function loadPdf(bytes: ArrayBuffer | Uint8Array, password = ''): Promise<LoadResult> {
+  const repairs: string[] = [];
+  let pdfDoc: PDFDocument;
+  try {
+    pdfDoc = await PDFDocument.load(bytes, LOAD_OPTIONS);
+  } catch (error) {
+    console.error('Error loading PDF, trying to repair it:', error);
+    const patched = patchBytes(new Uint8Array(bytes), repairs);
+    if (!patched) return { error: 'It is not a PDF, or is too damaged to open.', needsPassword: false };
+    try {
+      pdfDoc = await PDFDocument.load(patched, LOAD_OPTIONS);
+    } catch (retryError) {
+      console.error('Error loading repaired PDF:', retryError);
+      return { error: 'It is too damaged to open.', needsPassword: false };
+    }
+  }
+
+  let changed = false;
+  if (pdfDoc.isEncrypted) {
+    const unlocked = await decryptDocument(pdfDoc, password);
+    if ('error' in unlocked) {
+      if (!unlocked.incorrectPassword) return { error: unlocked.error, needsPassword: false };
+      return { error: password ? 'Incorrect password.' : 'It is password-protected.', needsPassword: true };
+    }
+    if (!unlocked.assemblyAllowed) {
+      return { error: 'Its owner does not allow its pages to be taken out. Enter the owner password.', needsPassword: true };
+    }
+    changed = true;
+  }
+
+  const pageRepairs = repairPageTree(pdfDoc.context);
+  if (!pageRepairs) return { error: 'It has no pages.', needsPassword: false };
+  if (pageRepairs.length > 0) {
+    repairs.push(...pageRepairs);
+    changed = true;
+  }
+  if (!changed) return { pdfDoc, repairs };
+
+  // Load it again so the document is read from the decrypted and repaired objects
+  const fixed = await pdfDoc.save({ useObjectStreams: false, addDefaultPage: false, updateFieldAppearances: false });
+  return { pdfDoc: await PDFDocument.load(fixed, LOAD_OPTIONS), repairs };
+}
+
+// Put back a missing header, and cut a file that ends partway through an object back to its last
+// whole object. Returns null when neither applies.
+function patchBytes(bytes: Uint8Array, repairs: string[]): Uint8Array | null {
+  const text = new TextDecoder('latin1').decode(bytes);
+  let patched = bytes;
+
+  const lastObject = text.lastIndexOf('endobj');
+  if (lastObject >= 0 && /\d+\s+\d+\s+obj/.test(text.slice(lastObject))) {
+    patched = patched.subarray(0, lastObject + 'endobj'.length);
+    repairs.push('dropped an incomplete object at the end');
+  }
+  if (text.indexOf('%PDF-') < 0 && lastObject >= 0) {
+    const header = new TextEncoder().encode('%PDF-1.7\n');
+    const withHeader = new Uint8Array(header.length + patched.length);
+    withHeader.set(header);
+    withHeader.set(patched, header.length);
+    patched = withHeader;
+    repairs.push('added the missing header');
+  }
+  return repairs.length > 0 ? patched : null;
+}
+
+// Make sure the catalog leads to the pages, gathering every page in the file into a new page tree
+// when the old one is missing, broken or empty. Returns what was repaired, or null without pages.
+function repairPageTree(context: PDFContext): string[] | null {
+  const repairs: string[] = [];
+  let catalog = context.lookup(context.trailerInfo.Root);
+  if (!(catalog instanceof PDFDict)) {
+    // The trailer is lost when the end of the file is
+    const [found] = objectsOfType(context, 'Catalog');
+    if (found) {
+      context.trailerInfo.Root = found[0];
+      catalog = found[1];
+    } else {
+      catalog = context.obj({ Type: 'Catalog' });
+      context.trailerInfo.Root = context.register(catalog);
+    }
+    repairs.push('found the document catalog');
+  }
+  if (!(catalog instanceof PDFDict)) return null;
+  if (countPages(catalog.lookup(PDFName.of('Pages')), 0) > 0) return repairs;
+
+  const pages = objectsOfType(context, 'Page');
+  if (pages.length === 0) return null;
+  const treeRef = context.nextRef();
+  pages.forEach(([, page]) => {
+    // Keep what the page took from its old parents before it is moved
+    for (let parent = page.lookup(PDFName.of('Parent')), depth = 0; parent instanceof PDFDict && depth < 100; depth++) {
+      const node = parent;
+      INHERITED_ATTRIBUTES.forEach(name => {
+        const value = node.get(PDFName.of(name));
+        if (value && !page.has(PDFName.of(name))) page.set(PDFName.of(name), value);
+      });
+      parent = node.lookup(PDFName.of('Parent'));
+    }
+    if (!page.has(PDFName.of('MediaBox'))) page.set(PDFName.of('MediaBox'), context.obj(LETTER_SIZE));
+    page.set(PDFName.of('Parent'), treeRef);
+  });
+  context.assign(treeRef, context.obj({ Type: 'Pages', Kids: pages.map(([ref]) => ref), Count: pages.length }));
+  catalog.set(PDFName.of('Pages'), treeRef);
+  repairs.push('rebuilt the list of pages');
+  return repairs;
+}
+
+// The number of pages under a page tree node, or -1 when part of the tree is missing
+function countPages(node: PDFObject | undefined, depth: number): number {
+  if (!(node instanceof PDFDict) || depth > 100) return -1;
+  const type = node.lookup(PDFName.of('Type'));
+  if (type === PDFName.of('Page')) return 1;
+  const kids = node.lookup(PDFName.of('Kids'));
+  if (type !== PDFName.of('Pages') || !(kids instanceof PDFArray)) return -1;
+  let count = 0;
+  for (let i = 0; i < kids.size(); i++) {
+    const pages = countPages(kids.lookup(i), depth + 1);
+    if (pages < 0) return -1;
+    count += pages;
+  }
+  return count;
+}
+
+function objectsOfType(context: PDFContext, type: string): [PDFRef, PDFDict][] {
+  const objects: [PDFRef, PDFDict][] = [];
+  context.enumerateIndirectObjects().forEach(([ref, object]) => {
+    if (object instanceof PDFDict && object.lookup(PDFName.of('Type')) === PDFName.of(type)) objects.push([ref, object]);
+  });
+  return objects;
+}
@@ -0,0 +1,128 @@
+import { Stats } from 'fs';
+import { readdir, readFile, stat, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { TEMP_DIR } from './convert';
+
+// Converted files are kept for this long after they are written (CONVERSION_OUTPUT_TTL_MINUTES)
+export const OUTPUT_TTL = minutesFromEnv('CONVERSION_OUTPUT_TTL_MINUTES', 60);
+
+// Delete a converted file as soon as it has been downloaded once (CONVERSION_ONE_TIME_DOWNLOAD)
+export const ONE_TIME_DOWNLOAD = process.env.CONVERSION_ONE_TIME_DOWNLOAD === 'true';
+
+// How often the sweeper looks for expired files (CONVERSION_SWEEP_INTERVAL_MINUTES)
+const SWEEP_INTERVAL = minutesFromEnv('CONVERSION_SWEEP_INTERVAL_MINUTES', 5);
+
+// A removed output leaves a small marker behind so downloads can answer 410 instead of 404
+const MARKER_EXTENSION = 'removed';
+const MARKER_RETENTION = 24 * 60 * 60 * 1000;
+
+const OUTPUT_EXTENSIONS = ['pdf', 'zip'];
+
+// The names recorded for an output live beside it in a small JSON file
+const INFO_EXTENSION = 'info';
+
+// File IDs are UUIDs; anything else could point outside the temp directory
+const FILE_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type RemovalReason = 'expired' | 'downloaded';
+
+// What the user uploaded and what they asked the result to be called
+export interface OutputInfo {
+  sourceNames: string[];
+  outputName: string;
+}
+
+export type OutputLookup =
+  | { path: string; extension: string; stats: Stats; info: OutputInfo | null }
+  | { removed: RemovalReason }
+  | null;
+
+// Record the names for a converted file so the download can use them
+export async function saveOutputInfo(fileId: string, info: OutputInfo) {
+  await writeFile(join(TEMP_DIR, `${fileId}.${INFO_EXTENSION}`), JSON.stringify(info));
+}
+
+// Find the converted file for an ID, or why it is gone; null when it never existed
+export async function locateOutput(fileId: string): Promise<OutputLookup> {
+  if (!FILE_ID.test(fileId)) return null;
+
+  for (const extension of OUTPUT_EXTENSIONS) {
+    const path = join(TEMP_DIR, `${fileId}.${extension}`);
+    const stats = await stat(path).catch(() => null);
+    if (!stats) continue;
+    // The sweeper may not have reached it yet
+    if (Date.now() - stats.mtimeMs > OUTPUT_TTL) {
+      await removeOutput(fileId, 'expired');
+      return { removed: 'expired' };
+    }
+    return { path, extension, stats, info: await readOutputInfo(fileId) };
+  }
+
+  const reason = await readFile(markerPath(fileId), 'utf8').catch(() => null);
+  return reason === 'expired' || reason === 'downloaded' ? { removed: reason } : null;
+}
+
+// Delete every output for an ID and leave a marker saying why
+export async function removeOutput(fileId: string, reason: RemovalReason) {
+  const extensions = OUTPUT_EXTENSIONS.concat(INFO_EXTENSION);
+  await Promise.all(extensions.map(extension => removeFile(join(TEMP_DIR, `${fileId}.${extension}`))));
+  await writeFile(markerPath(fileId), reason).catch(error => console.error('Error marking removed file:', error));
+}
+
+// Delete a file that may already be gone
+export async function removeFile(path: string) {
+  await unlink(path).catch(() => undefined);
+}
+
+// Remove expired outputs, uploads left behind by interrupted conversions and old markers
+export async function sweepTempDir() {
+  const names = await readdir(TEMP_DIR).catch(() => [] as string[]);
+  const now = Date.now();
+
+  for (const name of names) {
+    const path = join(TEMP_DIR, name);
+    const stats = await stat(path).catch(() => null);
+    if (!stats || !stats.isFile()) continue;
+
+    const [fileId, extension] = name.split('.');
+    const age = now - stats.mtimeMs;
+    if (extension === MARKER_EXTENSION) {
+      if (age > MARKER_RETENTION) await removeFile(path);
+    } else if (age > OUTPUT_TTL) {
+      if (OUTPUT_EXTENSIONS.indexOf(extension) !== -1) {
+        await removeOutput(fileId, 'expired');
+      } else {
+        await removeFile(path);
+      }
+    }
+  }
+}
+
+// Sweep in the background for as long as the server runs; safe to call on every request
+export function startSweeper() {
+  const globalSweeper = globalThis as typeof globalThis & { conversionSweeper?: ReturnType<typeof setInterval> };
+  if (globalSweeper.conversionSweeper) return;
+
+  const sweep = () => sweepTempDir().catch(error => console.error('Error sweeping temp directory:', error));
+  globalSweeper.conversionSweeper = setInterval(sweep, SWEEP_INTERVAL);
+  // Never keep the process alive just to sweep
+  if (typeof globalSweeper.conversionSweeper.unref === 'function') globalSweeper.conversionSweeper.unref();
+  sweep();
+}
+
+async function readOutputInfo(fileId: string): Promise<OutputInfo | null> {
+  try {
+    return JSON.parse(await readFile(join(TEMP_DIR, `${fileId}.${INFO_EXTENSION}`), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function markerPath(fileId: string): string {
+  return join(TEMP_DIR, `${fileId}.${MARKER_EXTENSION}`);
+}
+
+function minutesFromEnv(name: string, fallback: number): number {
+  const minutes = Number(process.env[name]);
+  return (minutes > 0 ? minutes : fallback) * 60 * 1000;
+}
@@ -0,0 +1,402 @@
+import { RGB, rgb } from 'pdf-lib';
+import { Block, TableCell, TextRun } from './layout';
+
+interface CharacterState {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  fontSize: number; // half-points, as RTF stores them
+  color: number;
+  skip: boolean;
+  unicodeSkip: number;
+}
+
+interface ParagraphState {
+  align?: 'left' | 'center' | 'right';
+  inTable: boolean;
+  headingLevel: number;
+}
+
+const DEFAULT_FONT_SIZE = 24;
+
+// Groups whose text is metadata or markup we cannot draw
+const SKIPPED_DESTINATIONS = [
+  'fonttbl', 'stylesheet', 'info', 'pict', 'object', 'nonshppict', 'shp', 'shpinst',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf',
+  'footnote', 'annotation', 'listtable', 'listoverridetable', 'rsidtbl', 'generator',
+  'xmlnstbl', 'mmathPr', 'themedata', 'colorschememapping', 'latentstyles', 'datastore',
+  'pgdsctbl', 'filetbl', 'revtbl', 'bkmkstart', 'bkmkend', 'fldinst', 'pntxta', 'pntxtb',
+];
+
+const SYMBOLS: { [word: string]: string } = {
+  line: '\n',
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  emspace: ' ',
+  enspace: ' ',
+};
+
+const CONTROL_SYMBOLS: { [symbol: string]: string } = {
+  '\\': '\\',
+  '{': '{',
+  '}': '}',
+  '~': ' ',
+  '_': '-',
+  '-': '',
+};
+
+// Parse an RTF document into layout blocks
+export function parseRtf(data: Buffer): Block[] {
+  return new RtfReader(data.toString('latin1')).read();
+}
+
+class RtfReader {
+  private pos = 0;
+  private state: CharacterState = {
+    bold: false,
+    italic: false,
+    underline: false,
+    fontSize: DEFAULT_FONT_SIZE,
+    color: 0,
+    skip: false,
+    unicodeSkip: 1,
+  };
+  private stack: CharacterState[] = [];
+  private paragraph: ParagraphState = { inTable: false, headingLevel: 0 };
+
+  private blocks: Block[] = [];
+  private runs: TextRun[] = [];
+  private row: TableCell[] = [];
+  private rows: TableCell[][] = [];
+  private headerRows = 0;
+  private isHeaderRow = false;
+
+  private colors: (RGB | undefined)[] = [];
+  private inColorTable = false;
+  private colorTableDepth = 0;
+  private colorParts: { red?: number; green?: number; blue?: number } = {};
+
+  private decoder: TextDecoder = new TextDecoder('windows-1252');
+  private pendingBytes: number[] = [];
+  private charsToSkip = 0;
+
+  constructor(private source: string) {}
+
+  read(): Block[] {
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (char === '{') {
+        this.flushBytes();
+        this.stack.push({ ...this.state });
+        this.pos++;
+      } else if (char === '}') {
+        this.flushBytes();
+        if (this.inColorTable && this.stack.length === this.colorTableDepth) {
+          this.inColorTable = false;
+        }
+        this.state = this.stack.pop() || this.state;
+        this.pos++;
+      } else if (char === '\\') {
+        this.readControl();
+      } else if (char === '\r' || char === '\n') {
+        this.pos++;
+      } else {
+        this.pos++;
+        if (char.charCodeAt(0) >= 0x80) {
+          this.pushByte(char.charCodeAt(0));
+        } else {
+          this.flushBytes();
+          this.text(char);
+        }
+      }
+    }
+
+    this.flushBytes();
+    this.endParagraph();
+    this.endTable();
+    return this.blocks;
+  }
+
+  private readControl() {
+    const match = /^\\([a-zA-Z]+)(-?\d+)? ?/.exec(this.source.slice(this.pos, this.pos + 64));
+    if (!match) {
+      this.readControlSymbol();
+      return;
+    }
+
+    this.pos += match[0].length;
+    const word = match[1];
+    const param = match[2] === undefined ? undefined : Number(match[2]);
+
+    if (word !== 'u') this.flushBytes();
+    this.controlWord(word, param);
+  }
+
+  private readControlSymbol() {
+    const symbol = this.source[this.pos + 1];
+    this.pos += 2;
+
+    if (symbol === "'") {
+      const byte = parseInt(this.source.substr(this.pos, 2), 16);
+      this.pos += 2;
+      if (!isNaN(byte)) this.pushByte(byte);
+      return;
+    }
+
+    this.flushBytes();
+    if (symbol === '*') {
+      // Ignorable destinations we do not understand are skipped as a whole group
+      this.state.skip = true;
+    } else if (symbol === '\r' || symbol === '\n') {
+      this.endParagraph();
+    } else if (symbol in CONTROL_SYMBOLS) {
+      this.text(CONTROL_SYMBOLS[symbol]);
+    }
+  }
+
+  private controlWord(word: string, param: number | undefined) {
+    const state = this.state;
+    const on = param === undefined || param !== 0;
+
+    if (SKIPPED_DESTINATIONS.includes(word)) {
+      state.skip = true;
+      return;
+    }
+
+    switch (word) {
+      case 'ansicpg':
+        this.decoder = createDecoder(param);
+        break;
+      case 'colortbl':
+        this.inColorTable = true;
+        this.colorTableDepth = this.stack.length;
+        this.colors = [];
+        this.colorParts = {};
+        state.skip = true;
+        break;
+      case 'red':
+      case 'green':
+      case 'blue':
+        if (this.inColorTable) this.colorParts[word] = param || 0;
+        break;
+      case 'bin':
+        this.pos += param || 0;
+        break;
+      case 'u': {
+        const code = param === undefined ? 0 : param < 0 ? param + 65536 : param;
+        this.flushBytes();
+        this.text(String.fromCharCode(code));
+        this.charsToSkip = state.unicodeSkip;
+        break;
+      }
+      case 'uc':
+        state.unicodeSkip = param || 0;
+        break;
+      case 'par':
+        if (this.paragraph.inTable) {
+          this.text('\n');
+        } else {
+          this.endParagraph();
+        }
+        break;
+      case 'pard':
+        this.paragraph = { inTable: false, headingLevel: 0 };
+        break;
+      case 'sect':
+        this.endParagraph();
+        break;
+      case 'page':
+        this.endParagraph();
+        this.endTable();
+        this.blocks.push({ type: 'pageBreak' });
+        break;
+      case 'plain':
+        Object.assign(state, { bold: false, italic: false, underline: false, fontSize: DEFAULT_FONT_SIZE, color: 0 });
+        break;
+      case 'b':
+        state.bold = on;
+        break;
+      case 'i':
+        state.italic = on;
+        break;
+      case 'ul':
+      case 'uld':
+      case 'uldb':
+      case 'ulw':
+      case 'ulth':
+        state.underline = on;
+        break;
+      case 'ulnone':
+        state.underline = false;
+        break;
+      case 'fs':
+        state.fontSize = param || DEFAULT_FONT_SIZE;
+        break;
+      case 'cf':
+        state.color = param || 0;
+        break;
+      case 'ql':
+      case 'qj':
+        this.paragraph.align = undefined;
+        break;
+      case 'qc':
+        this.paragraph.align = 'center';
+        break;
+      case 'qr':
+        this.paragraph.align = 'right';
+        break;
+      case 'outlinelevel':
+        this.paragraph.headingLevel = param !== undefined && param < 6 ? param + 1 : 0;
+        break;
+      case 'intbl':
+        this.paragraph.inTable = true;
+        break;
+      case 'trowd':
+        this.isHeaderRow = false;
+        break;
+      case 'trhdr':
+        this.isHeaderRow = true;
+        break;
+      case 'cell':
+      case 'nestcell':
+        this.endCell();
+        break;
+      case 'row':
+      case 'nestrow':
+        this.endRow();
+        break;
+      default:
+        if (word in SYMBOLS) this.text(SYMBOLS[word]);
+    }
+  }
+
+  private pushByte(byte: number) {
+    if (this.consumeSkip()) return;
+    this.pendingBytes.push(byte);
+  }
+
+  // Hex escapes are buffered so multi-byte code pages decode correctly
+  private flushBytes() {
+    if (this.pendingBytes.length === 0) return;
+    const bytes = new Uint8Array(this.pendingBytes);
+    this.pendingBytes = [];
+    this.append(this.decoder.decode(bytes));
+  }
+
+  private text(value: string) {
+    if (this.consumeSkip()) return;
+    this.append(value);
+  }
+
+  // Characters that follow \uN are the fallback for readers without Unicode
+  private consumeSkip(): boolean {
+    if (this.charsToSkip > 0) {
+      this.charsToSkip--;
+      return true;
+    }
+    return false;
+  }
+
+  private append(value: string) {
+    if (this.inColorTable) {
+      if (value.indexOf(';') !== -1) this.addColor();
+      return;
+    }
+    if (this.state.skip || !value) return;
+
+    const { bold, italic, underline, fontSize, color } = this.state;
+    const run: TextRun = { text: value };
+    if (bold) run.bold = true;
+    if (italic) run.italic = true;
+    if (underline) run.underline = true;
+    if (fontSize !== DEFAULT_FONT_SIZE) run.size = fontSize / 2;
+    if (this.colors[color]) run.color = this.colors[color];
+
+    const last = this.runs[this.runs.length - 1];
+    if (
+      last &&
+      last.bold === run.bold &&
+      last.italic === run.italic &&
+      last.underline === run.underline &&
+      last.size === run.size &&
+      last.color === run.color
+    ) {
+      last.text += value;
+    } else {
+      this.runs.push(run);
+    }
+  }
+
+  private addColor() {
+    const { red, green, blue } = this.colorParts;
+    const isAuto = red === undefined && green === undefined && blue === undefined;
+    this.colors.push(isAuto ? undefined : rgb((red || 0) / 255, (green || 0) / 255, (blue || 0) / 255));
+    this.colorParts = {};
+  }
+
+  private takeRuns(): TextRun[] {
+    const runs = this.runs.map(run => ({ ...run, text: run.text.replace(/\t/g, ' ') }));
+    this.runs = [];
+    while (runs.length > 0 && runs[runs.length - 1].text.trim() === '') runs.pop();
+    return runs;
+  }
+
+  private endParagraph() {
+    const runs = this.takeRuns();
+    // Text after the last row of a table ends that table
+    this.endTable();
+    if (runs.length === 0) return;
+
+    const { headingLevel, align } = this.paragraph;
+    if (headingLevel > 0) {
+      this.blocks.push({ type: 'heading', level: headingLevel, runs });
+    } else if (align) {
+      this.blocks.push({ type: 'paragraph', runs, align });
+    } else {
+      this.blocks.push({ type: 'paragraph', runs });
+    }
+  }
+
+  private endCell() {
+    this.row.push({ runs: this.takeRuns(), header: this.isHeaderRow || undefined });
+  }
+
+  private endRow() {
+    if (this.runs.some(run => run.text.trim())) this.endCell();
+    this.runs = [];
+    if (this.row.length > 0) {
+      if (this.isHeaderRow && this.rows.length === this.headerRows) this.headerRows++;
+      this.rows.push(this.row);
+    }
+    this.row = [];
+  }
+
+  private endTable() {
+    if (this.rows.length === 0) return;
+    this.blocks.push({ type: 'table', rows: this.rows, headerRows: this.headerRows });
+    this.rows = [];
+    this.headerRows = 0;
+  }
+}
+
+// East Asian code pages go by their encoding names rather than windows-NNN
+const CODE_PAGE_LABELS: { [codePage: number]: string } = {
+  932: 'shift_jis',
+  936: 'gbk',
+  949: 'euc-kr',
+  950: 'big5',
+};
+
+function createDecoder(codePage: number | undefined): TextDecoder {
+  try {
+    return new TextDecoder((codePage && CODE_PAGE_LABELS[codePage]) || `windows-${codePage}`);
+  } catch {
+    return new TextDecoder('windows-1252');
+  }
+}
@@ -0,0 +1,532 @@
+import forge from 'node-forge';
+import {
+  EncryptedPDFError,
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFOperator,
+  PDFRef,
+  PDFString,
+  StandardFonts,
+  beginText,
+  concatTransformationMatrix,
+  drawObject,
+  endText,
+  moveText,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  setFillingGrayscaleColor,
+  setFontAndSize,
+  setLineWidth,
+  setStrokingGrayscaleColor,
+  showText,
+  stroke,
+} from 'pdf-lib';
+import {
+  Certificate,
+  DER_NULL,
+  KeyAlgorithm,
+  OIDS,
+  concat,
+  der,
+  derChildren,
+  derInteger,
+  derOid,
+  ecdsaToDer,
+  readCertificate,
+  readDer,
+  readKeyAlgorithm,
+} from './cms';
+import { detectKind } from './signatures';
+
+// Digital signatures with a certificate and private key from a PKCS#12 (.p12/.pfx) file. Everything
+// runs in the browser, so the key never leaves the machine. The signature is a detached CMS
+// signature as PAdES expects (ETSI.CAdES.detached), added in an incremental update so signatures
+// already in the PDF stay valid.
+
+export interface Signer {
+  certificate: Certificate;
+  chain: Certificate[]; // the other certificates in the file, included to help verifiers
+  privateKey: CryptoKey;
+  keyAlgorithm: KeyAlgorithm;
+}
+
+export type SignerResult = { signer: Signer } | { error: string };
+
+export type AppearancePosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface SignatureImage {
+  bytes: Uint8Array;
+  format: 'png' | 'jpg';
+}
+
+export interface SignatureAppearance {
+  page: number | null; // one-based; null for the last page
+  position: AppearancePosition;
+  image: SignatureImage | null;
+}
+
+export interface SignatureOptions {
+  name: string; // shown as the signer; the certificate's name when empty
+  reason: string;
+  location: string;
+  appearance: SignatureAppearance | null; // null for a signature that is not shown on a page
+}
+
+// The signature fields as typed into the form
+export const SIGNATURE_FIELDS = ['name', 'reason', 'location', 'visible', 'page', 'position'] as const;
+
+export type SignatureInput = Partial<Record<(typeof SIGNATURE_FIELDS)[number], string>>;
+
+export type SignatureOptionsResult = { options: SignatureOptions } | { error: string };
+
+export const APPEARANCE_POSITIONS: AppearancePosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+const MAX_TEXT_LENGTH = 200;
+const EDGE = 36; // distance from the page edge
+const APPEARANCE_SIZE = [200, 60];
+const PADDING = 4;
+const FONT_SIZES = [9, 5]; // largest and smallest text size in the appearance
+
+// Room left for the CMS signature besides the certificates; it is padded with zeros
+const SIGNATURE_SPACE = 4096;
+
+// Written before the offsets are known and overwritten with them, padded to the same length
+const BYTE_RANGE_PLACEHOLDER = [0, 9999999999, 9999999999, 9999999999];
+
+// Check the signature fields; imageBytes is the uploaded image, if any
+export function parseSignatureOptions(input: SignatureInput, imageBytes: Uint8Array | null): SignatureOptionsResult {
+  const [name, reason, location] = [input.name, input.reason, input.location].map(value =>
+    (value || '').replace(/\s+/g, ' ').trim());
+  if ([name, reason, location].some(value => value.length > MAX_TEXT_LENGTH)) {
+    return { error: `Name, reason and location must be at most ${MAX_TEXT_LENGTH} characters` };
+  }
+  if (input.visible !== 'true') return { options: { name, reason, location, appearance: null } };
+
+  const page = input.page && input.page.trim() ? Number(input.page) : null;
+  if (page !== null && (!Number.isInteger(page) || page < 1)) return { error: 'Page must be a whole number from 1' };
+
+  const position = (input.position || 'bottom-right').trim().toLowerCase() as AppearancePosition;
+  if (APPEARANCE_POSITIONS.indexOf(position) === -1) {
+    return { error: `Unsupported signature position "${position}". Use one of: ${APPEARANCE_POSITIONS.join(', ')}` };
+  }
+
+  let image: SignatureImage | null = null;
+  if (imageBytes && imageBytes.length > 0) {
+    const kind = detectKind(imageBytes);
+    if (kind !== 'png' && kind !== 'jpeg') return { error: 'The signature image must be a PNG or JPEG' };
+    image = { bytes: imageBytes, format: kind === 'png' ? 'png' : 'jpg' };
+  }
+
+  return { options: { name, reason, location, appearance: { page, position, image } } };
+}
+
+// Open a PKCS#12 file and get its certificate and private key ready for signing
+export async function loadSigner(p12Bytes: Uint8Array, password: string): Promise<SignerResult> {
+  let p12: forge.pkcs12.Pkcs12Pfx;
+  try {
+    p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(forge.util.binary.raw.encode(p12Bytes), false), false, password);
+  } catch (error) {
+    console.error('Error reading certificate file:', error);
+    const message = error instanceof Error ? error.message : '';
+    return {
+      error: /password/i.test(message)
+        ? 'Incorrect password for the certificate file.'
+        : 'The certificate file could not be read. Use a .p12 or .pfx file.',
+    };
+  }
+
+  const keyBags = bagsOfType(p12, forge.pki.oids.pkcs8ShroudedKeyBag).concat(bagsOfType(p12, forge.pki.oids.keyBag));
+  const certificateBags = bagsOfType(p12, forge.pki.oids.certBag);
+  if (keyBags.length === 0) return { error: 'The certificate file has no private key.' };
+  if (certificateBags.length === 0) return { error: 'The certificate file has no certificate.' };
+
+  // The key's certificate shares its local key ID; files without IDs list it first
+  const keyBag = keyBags[0];
+  const keyId = localKeyId(keyBag);
+  const index = Math.max(0, certificateBags.findIndex(bag => keyId !== null && localKeyId(bag) === keyId));
+  const certificates = certificateBags.map(bag =>
+    readCertificate(toBytes(bag.cert ? forge.pki.certificateToAsn1(bag.cert) : bag.asn1)));
+
+  // forge only understands RSA keys; others stay as the PrivateKeyInfo it decrypted
+  const keyInfo = toBytes(keyBag.key
+    ? forge.pki.wrapRsaPrivateKey(forge.pki.privateKeyToAsn1(keyBag.key as forge.pki.rsa.PrivateKey))
+    : keyBag.asn1);
+  const keyAlgorithm = readKeyAlgorithm(keyInfo, derChildren(keyInfo, readDer(keyInfo, 0))[1]);
+  if (!keyAlgorithm) return { error: 'Only RSA keys and P-256, P-384 or P-521 elliptic-curve keys are supported.' };
+
+  try {
+    const privateKey = await crypto.subtle.importKey(
+      'pkcs8', keyInfo, keyAlgorithm.name === 'ECDSA' ? keyAlgorithm : { ...keyAlgorithm, hash: 'SHA-256' }, false, ['sign']);
+    return {
+      signer: {
+        certificate: certificates[index],
+        chain: certificates.filter((_, i) => i !== index),
+        privateKey,
+        keyAlgorithm,
+      },
+    };
+  } catch (error) {
+    console.error('Error importing private key:', error);
+    return { error: 'The private key in the certificate file could not be used.' };
+  }
+}
+
+// Sign the PDF, returning the original bytes followed by the signature
+export async function signPdf(pdfBytes: Uint8Array, signer: Signer, options: SignatureOptions, date = new Date()): Promise<Uint8Array> {
+  let pdfDoc: PDFDocument;
+  try {
+    pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  } catch (error) {
+    console.error('Error loading PDF to sign:', error);
+    throw new Error(error instanceof EncryptedPDFError
+      ? 'Password-protected PDFs cannot be signed. Remove the password first.'
+      : 'The PDF could not be read. Make sure it is a valid PDF.');
+  }
+  const previousXref = lastXrefOffset(pdfBytes);
+  if (previousXref === null) throw new Error('The PDF has no cross-reference table to add the signature to.');
+
+  const { context, catalog } = pdfDoc;
+  const root = context.trailerInfo.Root as PDFRef;
+  // Object and cross-reference streams are gone once read, but new objects must not reuse their numbers
+  context.largestObjectNumber = Math.max(context.largestObjectNumber, trailerSize(pdfBytes, previousXref) - 1);
+  const firstNew = context.largestObjectNumber + 1;
+  const changed: PDFRef[] = []; // objects from the original that the update writes again
+  const markChanged = (ref: PDFRef) => {
+    if (changed.indexOf(ref) === -1) changed.push(ref);
+  };
+
+  const space = SIGNATURE_SPACE + [signer.certificate].concat(signer.chain).reduce((total, cert) => total + cert.der.length, 0);
+  const signature = context.obj({
+    Type: 'Sig',
+    Filter: 'Adobe.PPKLite',
+    SubFilter: 'ETSI.CAdES.detached',
+    ByteRange: BYTE_RANGE_PLACEHOLDER,
+    Contents: PDFHexString.of('0'.repeat(space * 2)),
+    M: PDFString.fromDate(date),
+  });
+  const name = options.name || signer.certificate.subject;
+  if (name) signature.set(PDFName.of('Name'), PDFHexString.fromText(name));
+  if (options.reason) signature.set(PDFName.of('Reason'), PDFHexString.fromText(options.reason));
+  if (options.location) signature.set(PDFName.of('Location'), PDFHexString.fromText(options.location));
+  const signatureRef = context.register(signature);
+
+  // The form the signature field joins, kept in the catalog unless it is an object of its own
+  const acroFormEntry = catalog.get(PDFName.of('AcroForm'));
+  const existingForm = catalog.lookup(PDFName.of('AcroForm'));
+  const acroForm = existingForm instanceof PDFDict ? existingForm : PDFDict.withContext(context);
+  let acroFormRef = acroFormEntry instanceof PDFRef ? acroFormEntry : root;
+  if (acroForm !== existingForm) {
+    acroFormRef = context.register(acroForm);
+    catalog.set(PDFName.of('AcroForm'), acroFormRef);
+    markChanged(root);
+  }
+  markChanged(acroFormRef);
+  const fields = appendTo(acroForm, 'Fields', acroFormRef, markChanged);
+  acroForm.set(PDFName.of('SigFlags'), PDFNumber.of(3)); // signatures exist; only append to the file
+
+  const pages = pdfDoc.getPages();
+  const { appearance } = options;
+  const pageIndex = appearance && appearance.page !== null ? appearance.page - 1 : pages.length - 1;
+  if (pageIndex >= pages.length) throw new Error(`The PDF has only ${pages.length} page${pages.length === 1 ? '' : 's'}.`);
+  const page = pages[pageIndex];
+
+  const widget = context.obj({
+    Type: 'Annot',
+    Subtype: 'Widget',
+    FT: 'Sig',
+    T: PDFHexString.fromText(uniqueFieldName(fields)),
+    V: signatureRef,
+    F: 132, // print, locked
+    P: page.ref,
+    Rect: [0, 0, 0, 0],
+  });
+  if (appearance) {
+    const [width, height] = APPEARANCE_SIZE;
+    const box = page.getCropBox();
+    const x = appearance.position.indexOf('left') !== -1 ? box.x + EDGE : box.x + box.width - EDGE - width;
+    const y = appearance.position.indexOf('top') === 0 ? box.y + box.height - EDGE - height : box.y + EDGE;
+    const lines = [
+      `Digitally signed by ${name || 'unknown'}`,
+      `Date: ${formatDate(date)}`,
+      options.reason ? `Reason: ${options.reason}` : '',
+      options.location ? `Location: ${options.location}` : '',
+    ].filter(line => line);
+    const stream = await appearanceStream(pdfDoc, lines, appearance.image, width, height);
+    widget.set(PDFName.of('Rect'), context.obj([x, y, x + width, y + height]));
+    widget.set(PDFName.of('AP'), context.obj({ N: context.register(stream) }));
+  }
+  const widgetRef = context.register(widget);
+  fields.push(widgetRef);
+  appendTo(page.node, 'Annots', page.ref, markChanged).push(widgetRef);
+
+  // Write fonts and images the appearance embedded
+  await pdfDoc.flush();
+
+  const objects = context.enumerateIndirectObjects()
+    .filter(([ref]) => ref.objectNumber >= firstNew || changed.indexOf(ref) !== -1);
+  const update = writeUpdate(pdfBytes, objects, signatureRef, previousXref, pdfDoc);
+  const signed = concat(pdfBytes, update.bytes);
+
+  // Fill in the byte range around the signature's contents, then hash and sign what it covers
+  const contentsEnd = update.contents + 2 + space * 2;
+  const byteRange = [0, update.contents, contentsEnd, signed.length - contentsEnd];
+  const placeholder = context.obj(BYTE_RANGE_PLACEHOLDER).toString();
+  signed.set(latin1(`[ ${byteRange.join(' ')}`.padEnd(placeholder.length - 2) + ' ]'), update.byteRange);
+
+  const documentHash = new Uint8Array(await crypto.subtle.digest(
+    'SHA-256', concat(signed.subarray(0, byteRange[1]), signed.subarray(byteRange[2]))));
+  const cms = await signedData(signer, documentHash);
+  if (cms.length > space) throw new Error('The certificates are too large to fit in the signature.');
+  signed.set(latin1(Array.from(cms).map(byte => byte.toString(16).padStart(2, '0')).join('')), update.contents + 1);
+  return signed;
+}
+
+// The CMS SignedData of a PAdES baseline signature: detached, with the document's hash and the
+// signing certificate's among the signed attributes. The signing time is the signature's M entry.
+async function signedData(signer: Signer, documentHash: Uint8Array): Promise<Uint8Array> {
+  const { certificate, keyAlgorithm } = signer;
+  const sha256 = der(0x30, derOid(OIDS.sha256));
+  const certificateHash = new Uint8Array(await crypto.subtle.digest('SHA-256', certificate.der));
+  const attributes = [
+    attribute(OIDS.contentType, derOid(OIDS.data)),
+    attribute(OIDS.messageDigest, der(0x04, documentHash)),
+    // SigningCertificateV2 with one ESSCertIDv2, whose hash algorithm defaults to SHA-256
+    attribute(OIDS.signingCertificateV2, der(0x30, der(0x30, der(0x30, der(0x04, certificateHash))))),
+  ].sort(compareBytes); // DER orders a SET OF by encoding
+
+  // The signature covers the attributes encoded as a SET, although they are stored as [0]
+  const toSign = der(0x31, ...attributes);
+  let signature: Uint8Array;
+  if (keyAlgorithm.name === 'ECDSA') {
+    signature = ecdsaToDer(new Uint8Array(await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, signer.privateKey, toSign)));
+  } else {
+    signature = new Uint8Array(await crypto.subtle.sign(keyAlgorithm.name, signer.privateKey, toSign));
+  }
+
+  const signerInfo = der(0x30,
+    derInteger(1),
+    der(0x30, certificate.issuer, certificate.serialNumber),
+    sha256,
+    der(0xa0, ...attributes),
+    keyAlgorithm.name === 'ECDSA' ? der(0x30, derOid(OIDS.ecdsaWithSha256)) : der(0x30, derOid(OIDS.sha256WithRsa), DER_NULL),
+    der(0x04, signature));
+  const content = der(0x30,
+    derInteger(1),
+    der(0x31, sha256),
+    der(0x30, derOid(OIDS.data)), // detached, so without the content
+    der(0xa0, certificate.der, ...signer.chain.map(cert => cert.der)),
+    der(0x31, signerInfo));
+  return der(0x30, derOid(OIDS.signedData), der(0xa0, content));
+}
+
+// The objects of the update, their cross-reference section and trailer. Returns where the
+// signature's contents and byte range ended up, counted from the start of the signed file.
+function writeUpdate(
+  pdfBytes: Uint8Array,
+  objects: [PDFRef, PDFObject][],
+  signatureRef: PDFRef,
+  previousXref: number,
+  pdfDoc: PDFDocument,
+): { bytes: Uint8Array; contents: number; byteRange: number } {
+  const { context } = pdfDoc;
+  const parts: Uint8Array[] = [];
+  let offset = pdfBytes.length;
+  const write = (text: string | Uint8Array) => {
+    const part = typeof text === 'string' ? latin1(text) : text;
+    parts.push(part);
+    offset += part.length;
+  };
+
+  if (pdfBytes[pdfBytes.length - 1] !== 0x0a && pdfBytes[pdfBytes.length - 1] !== 0x0d) write('\n');
+  const offsets: [PDFRef, number][] = [];
+  let contents = -1;
+  let byteRange = -1;
+  objects.forEach(([ref, object]) => {
+    offsets.push([ref, offset]);
+    write(`${ref.objectNumber} ${ref.generationNumber} obj\n`);
+    const body = new Uint8Array(object.sizeInBytes());
+    object.copyBytesInto(body, 0);
+    if (ref === signatureRef) {
+      const text = new TextDecoder('latin1').decode(body);
+      contents = offset + text.indexOf('/Contents <') + '/Contents '.length;
+      byteRange = offset + text.indexOf('/ByteRange [') + '/ByteRange '.length;
+    }
+    write(body);
+    write('\nendobj\n');
+  });
+
+  // One subsection for each run of consecutive object numbers
+  const xref = offset;
+  write('xref\n');
+  offsets.sort((a, b) => a[0].objectNumber - b[0].objectNumber);
+  for (let start = 0; start < offsets.length; ) {
+    let end = start + 1;
+    while (end < offsets.length && offsets[end][0].objectNumber === offsets[end - 1][0].objectNumber + 1) end++;
+    write(`${offsets[start][0].objectNumber} ${end - start}\n`);
+    offsets.slice(start, end).forEach(([ref, position]) => {
+      write(`${String(position).padStart(10, '0')} ${String(ref.generationNumber).padStart(5, '0')} n\r\n`);
+    });
+    start = end;
+  }
+
+  // The file keeps its first ID; the second one changes with every update
+  const { Info, ID } = context.trailerInfo;
+  const firstId = ID instanceof PDFArray && ID.size() > 0 ? ID.get(0) : null;
+  const newId = PDFHexString.of(Array.from(crypto.getRandomValues(new Uint8Array(16)))
+    .map(byte => byte.toString(16).padStart(2, '0')).join(''));
+  const trailer = context.obj({ Size: context.largestObjectNumber + 1, Root: context.trailerInfo.Root, Prev: previousXref });
+  if (Info) trailer.set(PDFName.of('Info'), Info);
+  trailer.set(PDFName.of('ID'), context.obj([firstId || newId, newId]));
+  write(`trailer\n${trailer.toString()}\nstartxref\n${xref}\n%%EOF\n`);
+
+  return { bytes: concat(...parts), contents, byteRange };
+}
+
+// The visible signature: an optional image on the left and the signer, date and reason beside it
+async function appearanceStream(
+  pdfDoc: PDFDocument,
+  lines: string[],
+  image: SignatureImage | null,
+  width: number,
+  height: number,
+) {
+  const { context } = pdfDoc;
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const operators: PDFOperator[] = [
+    setStrokingGrayscaleColor(0.5),
+    setLineWidth(0.5),
+    rectangle(0.25, 0.25, width - 0.5, height - 0.5),
+    stroke(),
+  ];
+  const resources = context.obj({ Font: { F0: font.ref } });
+
+  let textLeft = PADDING;
+  if (image) {
+    const embedded = image.format === 'png' ? await pdfDoc.embedPng(image.bytes) : await pdfDoc.embedJpg(image.bytes);
+    const scale = Math.min((width * 0.4 - PADDING) / embedded.width, (height - 2 * PADDING) / embedded.height);
+    const [imageWidth, imageHeight] = [embedded.width * scale, embedded.height * scale];
+    operators.push(
+      pushGraphicsState(),
+      concatTransformationMatrix(imageWidth, 0, 0, imageHeight, PADDING, (height - imageHeight) / 2),
+      drawObject('Im0'),
+      popGraphicsState(),
+    );
+    resources.set(PDFName.of('XObject'), context.obj({ Im0: embedded.ref }));
+    textLeft += imageWidth + PADDING;
+  }
+
+  // The largest size at which every line fits, down to the smallest; longer lines are cut
+  const textWidth = width - textLeft - PADDING;
+  const texts = lines.map(line => encodable(font, line));
+  let size = FONT_SIZES[0];
+  while (size > FONT_SIZES[1] && (
+    texts.some(text => font.widthOfTextAtSize(text, size) > textWidth) || lines.length * size * 1.2 > height - 2 * PADDING
+  )) size -= 0.5;
+  const lineHeight = size * 1.2;
+  const top = (height + lines.length * lineHeight) / 2 - size;
+  operators.push(setFillingGrayscaleColor(0), beginText(), setFontAndSize('F0', size), moveText(textLeft, top));
+  texts.forEach((text, i) => {
+    let fitted = text;
+    while (fitted.length > 1 && font.widthOfTextAtSize(fitted + '...', size) > textWidth && font.widthOfTextAtSize(fitted, size) > textWidth) {
+      fitted = fitted.slice(0, -1);
+    }
+    if (fitted !== text) fitted += '...';
+    if (i > 0) operators.push(moveText(0, -lineHeight));
+    operators.push(showText(font.encodeText(fitted)));
+  });
+  operators.push(endText());
+
+  return context.formXObject(operators, { BBox: [0, 0, width, height], Resources: resources });
+}
+
+// The array under the key, made when missing. Whichever object holds the array is marked as
+// changed: the array itself when it is an object of its own, or else the object holding dict.
+function appendTo(dict: PDFDict, key: string, owner: PDFRef, markChanged: (ref: PDFRef) => void): PDFArray {
+  const entry = dict.get(PDFName.of(key));
+  const array = dict.lookup(PDFName.of(key));
+  if (entry instanceof PDFRef && array instanceof PDFArray) {
+    markChanged(entry);
+    return array;
+  }
+  markChanged(owner);
+  if (array instanceof PDFArray) return array;
+  const created = dict.context.obj([]);
+  dict.set(PDFName.of(key), created);
+  return created;
+}
+
+// Signature1, Signature2 and so on, skipping names the form already has
+function uniqueFieldName(fields: PDFArray): string {
+  const names: string[] = [];
+  for (let i = 0; i < fields.size(); i++) {
+    const field = fields.lookup(i);
+    const name = field instanceof PDFDict ? field.lookup(PDFName.of('T')) : undefined;
+    if (name instanceof PDFString || name instanceof PDFHexString) names.push(name.decodeText());
+  }
+  let number = 1;
+  while (names.indexOf(`Signature${number}`) !== -1) number++;
+  return `Signature${number}`;
+}
+
+// Where the last cross-reference section starts, from the startxref at the end of the file
+function lastXrefOffset(pdfBytes: Uint8Array): number | null {
+  const tail = new TextDecoder('latin1').decode(pdfBytes.subarray(Math.max(0, pdfBytes.length - 1024)));
+  const match = tail.match(/startxref\s+(\d+)\s+%%EOF\s*$/);
+  return match ? Number(match[1]) : null;
+}
+
+// The Size of the last cross-reference section: its trailer, or its stream's dictionary
+function trailerSize(pdfBytes: Uint8Array, xref: number): number {
+  const match = new TextDecoder('latin1').decode(pdfBytes.subarray(xref)).match(/\/Size\s+(\d+)/);
+  return match ? Number(match[1]) : 0;
+}
+
+// The local time with its UTC offset, e.g. 2024-05-01 14:30 +02:00
+function formatDate(date: Date): string {
+  const two = (value: number) => String(value).padStart(2, '0');
+  const offset = -date.getTimezoneOffset();
+  return `${date.getFullYear()}-${two(date.getMonth() + 1)}-${two(date.getDate())} ${two(date.getHours())}:${two(date.getMinutes())} ` +
+    `${offset < 0 ? '-' : '+'}${two(Math.floor(Math.abs(offset) / 60))}:${two(Math.abs(offset) % 60)}`;
+}
+
+// Characters the standard font cannot encode are shown as '?'
+function encodable(font: PDFFont, text: string): string {
+  const characters = font.getCharacterSet();
+  return Array.from(text).map(char => (characters.indexOf(char.codePointAt(0) || 0) !== -1 ? char : '?')).join('');
+}
+
+function attribute(oid: string, value: Uint8Array): Uint8Array {
+  return der(0x30, derOid(oid), der(0x31, value));
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) if (a[i] !== b[i]) return a[i] - b[i];
+  return a.length - b.length;
+}
+
+function bagsOfType(p12: forge.pkcs12.Pkcs12Pfx, type: string): forge.pkcs12.Bag[] {
+  return p12.getBags({ bagType: type })[type] || [];
+}
+
+function localKeyId(bag: forge.pkcs12.Bag): string | null {
+  const ids = bag.attributes && bag.attributes.localKeyId;
+  return ids && ids.length > 0 ? ids[0] : null;
+}
+
+function toBytes(asn1: forge.asn1.Asn1 | undefined): Uint8Array {
+  if (!asn1) throw new Error('Missing ASN.1 structure');
+  return forge.util.binary.raw.decode(forge.asn1.toDer(asn1).getBytes());
+}
+
+function latin1(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i);
+  return bytes;
+}
@@ -0,0 +1,99 @@
+import { PREFORMATTED_EXTENSIONS } from './text';
+
+// Magic-byte checks shared by the upload form and the server, so a renamed file is caught
+// before any converter sees it. Only the first SIGNATURE_LENGTH bytes are needed.
+
+export const SIGNATURE_LENGTH = 8192;
+
+export type ContentKind =
+  | 'zip' | 'ole' | 'png' | 'jpeg' | 'gif' | 'bmp' | 'webp' | 'tiff' | 'rtf' | 'pdf' | 'executable' | 'binary' | 'text';
+
+// Each signature is a list of [offset, bytes] parts that must all match
+const SIGNATURES: [ContentKind, [number, number[]][]][] = [
+  ['zip', [[0, [0x50, 0x4b, 0x03, 0x04]]]],
+  ['zip', [[0, [0x50, 0x4b, 0x05, 0x06]]]], // an empty archive
+  ['ole', [[0, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]]]],
+  ['png', [[0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]]]],
+  ['jpeg', [[0, [0xff, 0xd8, 0xff]]]],
+  ['gif', [[0, [0x47, 0x49, 0x46, 0x38]]]], // GIF8
+  ['webp', [[0, [0x52, 0x49, 0x46, 0x46]], [8, [0x57, 0x45, 0x42, 0x50]]]], // RIFF....WEBP
+  ['tiff', [[0, [0x49, 0x49, 0x2a, 0x00]]]], // little-endian
+  ['tiff', [[0, [0x4d, 0x4d, 0x00, 0x2a]]]], // big-endian
+  // BM alone could be the start of a text file, so the DIB header size after it must be small too
+  ['bmp', [[0, [0x42, 0x4d]], [15, [0, 0, 0]]]],
+  ['rtf', [[0, [0x7b, 0x5c, 0x72, 0x74, 0x66]]]], // {\rtf
+  ['pdf', [[0, [0x25, 0x50, 0x44, 0x46]]]], // %PDF
+  ['executable', [[0, [0x4d, 0x5a]]]], // MZ
+  ['executable', [[0, [0x7f, 0x45, 0x4c, 0x46]]]], // ELF
+];
+
+// What each extension's content has to look like; legacy .xls files are sometimes HTML or XML
+const TEXT_KINDS: ContentKind[] = ['text', 'rtf'];
+const EXPECTED_KINDS: Record<string, ContentKind[]> = {
+  doc: ['ole'],
+  docx: ['zip'],
+  xls: ['ole', 'text'],
+  xlsx: ['zip'],
+  ods: ['zip'],
+  csv: TEXT_KINDS,
+  ppt: ['ole'],
+  pptx: ['zip'],
+  odp: ['zip'],
+  txt: TEXT_KINDS,
+  md: TEXT_KINDS,
+  rtf: ['rtf'],
+  html: TEXT_KINDS,
+  jpg: ['jpeg'],
+  jpeg: ['jpeg'],
+  png: ['png'],
+  gif: ['gif'],
+  bmp: ['bmp'],
+  webp: ['webp'],
+  tif: ['tiff'],
+  tiff: ['tiff'],
+  pdf: ['pdf'],
+};
+PREFORMATTED_EXTENSIONS.forEach(extension => {
+  EXPECTED_KINDS[extension] = TEXT_KINDS;
+});
+
+const KIND_NAMES: Record<ContentKind, string> = {
+  zip: 'a ZIP archive',
+  ole: 'an Office 97-2003 file',
+  png: 'a PNG image',
+  jpeg: 'a JPEG image',
+  rtf: 'an RTF document',
+  pdf: 'a PDF',
+  gif: 'a GIF image',
+  bmp: 'a BMP image',
+  webp: 'a WebP image',
+  tiff: 'a TIFF image',
+  executable: 'a program',
+  binary: 'binary data',
+  text: 'plain text',
+};
+
+export function detectKind(head: Uint8Array): ContentKind {
+  for (const [kind, parts] of SIGNATURES) {
+    if (parts.every(([offset, bytes]) => bytes.every((byte, index) => head[offset + index] === byte))) return kind;
+  }
+  // UTF-16 text is full of zero bytes but starts with a byte order mark
+  if ((head[0] === 0xff && head[1] === 0xfe) || (head[0] === 0xfe && head[1] === 0xff)) return 'text';
+  const length = Math.min(head.length, SIGNATURE_LENGTH);
+  for (let i = 0; i < length; i++) {
+    if (head[i] === 0) return 'binary';
+  }
+  return 'text';
+}
+
+// Why the start of a file does not match its extension, or null when it does
+export function signatureError(head: Uint8Array, extension: string): string | null {
+  const expected = EXPECTED_KINDS[extension];
+  if (!expected) return null;
+  if (head.length === 0) {
+    return expected.indexOf('text') !== -1 ? null : `This .${extension} file is empty.`;
+  }
+  const kind = detectKind(head);
+  if (expected.indexOf(kind) !== -1) return null;
+  return `This .${extension} file is actually ${KIND_NAMES[kind]}. Check that the file has the right extension.`;
+}
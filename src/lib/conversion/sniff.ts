@@ -0,0 +1,166 @@
+import * as CFB from 'cfb';
+import { promisify } from 'util';
+import { inflateRaw } from 'zlib';
+import { MAX_ARCHIVE_ENTRIES, MAX_UNCOMPRESSED_SIZE, formatMegabytes } from './limits';
+import { SIGNATURE_LENGTH, detectKind, signatureError } from './signatures';
+
+// Inflating on zlib's thread pool keeps a large archive from holding up other requests
+const inflate = promisify(inflateRaw);
+
+// The document types inside ZIP and Office 97-2003 containers, by the extension they belong to
+const DOCUMENT_NAMES: Record<string, string> = {
+  doc: 'a Word 97-2003 document (.doc)',
+  docx: 'a Word document (.docx)',
+  xls: 'an Excel 97-2003 workbook (.xls)',
+  xlsx: 'an Excel workbook (.xlsx)',
+  ods: 'an OpenDocument spreadsheet (.ods)',
+  ppt: 'a PowerPoint 97-2003 presentation (.ppt)',
+  pptx: 'a PowerPoint presentation (.pptx)',
+  odp: 'an OpenDocument presentation (.odp)',
+  odt: 'an OpenDocument text document (.odt)',
+};
+
+const OPENDOCUMENT_TYPES: Record<string, string> = {
+  'application/vnd.oasis.opendocument.spreadsheet': 'ods',
+  'application/vnd.oasis.opendocument.presentation': 'odp',
+  'application/vnd.oasis.opendocument.text': 'odt',
+};
+
+interface ArchiveEntry {
+  name: string;
+  flags: number;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number; // as declared, which a crafted file can understate
+  localHeaderOffset: number;
+}
+
+// Why an upload's content cannot be converted as its extension says, or null when it can.
+// Containers are opened far enough to tell which document they hold, and ZIP-based documents
+// are unpacked against a size budget so a decompression bomb is rejected before parsing.
+export async function contentError(bytes: Uint8Array, extension: string): Promise<string | null> {
+  const mismatch = signatureError(bytes.subarray(0, SIGNATURE_LENGTH), extension);
+  if (mismatch) return mismatch;
+
+  const kind = detectKind(bytes);
+  if (kind === 'zip') return archiveError(Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength), extension);
+  if (kind === 'ole') return compoundFileError(bytes, extension);
+  return null;
+}
+
+async function archiveError(data: Buffer, extension: string): Promise<string | null> {
+  const entries = readCentralDirectory(data);
+  if (typeof entries === 'string') return entries;
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    return `This .${extension} file contains more than ${MAX_ARCHIVE_ENTRIES} parts and cannot be converted.`;
+  }
+  // An archive that admits to being too large is turned away without inflating anything
+  if (entries.reduce((total, entry) => total + entry.uncompressedSize, 0) > MAX_UNCOMPRESSED_SIZE) {
+    return tooLarge(extension);
+  }
+
+  let remaining = MAX_UNCOMPRESSED_SIZE;
+  let mimetype = '';
+  for (const entry of entries) {
+    if (entry.flags & 1) return `This .${extension} file is password-protected. Remove the password and try again.`;
+
+    const offset = entry.localHeaderOffset;
+    if (offset + 30 > data.length || data.readUInt32LE(offset) !== 0x04034b50) return damaged(extension);
+    const start = offset + 30 + data.readUInt16LE(offset + 26) + data.readUInt16LE(offset + 28);
+    const compressed = data.subarray(start, start + entry.compressedSize);
+    if (compressed.length !== entry.compressedSize) return damaged(extension);
+
+    // Inflate for real rather than trusting the declared sizes, stopping as soon as the budget runs out
+    let content: Buffer;
+    if (entry.method === 0) {
+      content = compressed;
+    } else if (entry.method === 8) {
+      try {
+        content = await inflate(compressed, { maxOutputLength: remaining + 1 });
+      } catch (error) {
+        if (error instanceof RangeError) return tooLarge(extension);
+        return damaged(extension);
+      }
+    } else {
+      return damaged(extension);
+    }
+    remaining -= content.length;
+    if (remaining < 0) return tooLarge(extension);
+    if (entry.name === 'mimetype') mimetype = content.toString('utf8').trim();
+  }
+
+  const names = entries.map(entry => entry.name);
+  const found =
+    names.indexOf('word/document.xml') !== -1 ? 'docx' :
+    names.indexOf('xl/workbook.xml') !== -1 ? 'xlsx' :
+    names.indexOf('ppt/presentation.xml') !== -1 ? 'pptx' :
+    OPENDOCUMENT_TYPES[mimetype] || null;
+  if (found === extension) return null;
+  return `This .${extension} file is actually ${found ? DOCUMENT_NAMES[found] : 'a ZIP archive without a document in it'}.`;
+}
+
+// Read the file list at the end of a ZIP, or explain why it cannot be read
+function readCentralDirectory(data: Buffer): ArchiveEntry[] | string {
+  const notArchive = 'The file is damaged: its ZIP structure could not be read.';
+
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) return notArchive;
+
+  const count = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  // ZIP64 archives mark these fields as overflowed; no document we accept is that large
+  if (count === 0xffff || offset === 0xffffffff) return 'The file is too large to convert.';
+
+  const entries: ArchiveEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== 0x02014b50) return notArchive;
+    const nameLength = data.readUInt16LE(offset + 28);
+    entries.push({
+      name: data.toString('utf8', offset + 46, offset + 46 + nameLength),
+      flags: data.readUInt16LE(offset + 8),
+      method: data.readUInt16LE(offset + 10),
+      compressedSize: data.readUInt32LE(offset + 20),
+      uncompressedSize: data.readUInt32LE(offset + 24),
+      localHeaderOffset: data.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + data.readUInt16LE(offset + 30) + data.readUInt16LE(offset + 32);
+  }
+  return entries;
+}
+
+function compoundFileError(bytes: Uint8Array, extension: string): string | null {
+  let file: CFB.CFB$Container;
+  try {
+    file = CFB.read(Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength), { type: 'buffer' });
+  } catch {
+    return damaged(extension);
+  }
+
+  // Password-protected DOCX, XLSX and PPTX files are stored in this container too
+  if (CFB.find(file, 'EncryptedPackage')) {
+    return `This .${extension} file is password-protected. Remove the password and try again.`;
+  }
+
+  const found =
+    CFB.find(file, 'WordDocument') ? 'doc' :
+    CFB.find(file, 'Workbook') || CFB.find(file, 'Book') ? 'xls' :
+    CFB.find(file, 'PowerPoint Document') ? 'ppt' :
+    null;
+  if (found === extension) return null;
+  return `This .${extension} file is actually ${found ? DOCUMENT_NAMES[found] : 'an Office 97-2003 file of another kind'}.`;
+}
+
+function damaged(extension: string): string {
+  return `This .${extension} file is damaged and cannot be read.`;
+}
+
+function tooLarge(extension: string): string {
+  return `This .${extension} file unpacks to more than ${formatMegabytes(MAX_UNCOMPRESSED_SIZE)} and cannot be converted.`;
+}
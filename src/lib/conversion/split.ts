@@ -0,0 +1,280 @@
+import JSZip from 'jszip';
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFObject, PDFRef, PDFString } from 'pdf-lib';
+import { applyMetadata, titleFromFileName } from './metadata';
+import { PageRange, parsePageRanges, selectPages } from './page-ranges';
+
+// Splitting a PDF into several, for the Split tool. Each part is a new document holding copies
+// of its pages; the parts are handed back as a ZIP.
+
+export type SplitMode = 'ranges' | 'every' | 'pages' | 'bookmarks' | 'size';
+
+export type SplitPlan =
+  | { mode: 'ranges'; ranges: PageRange[] }
+  | { mode: 'every'; pageCount: number }
+  | { mode: 'pages' }
+  | { mode: 'bookmarks' }
+  | { mode: 'size'; maxBytes: number };
+
+export interface SplitInput {
+  mode?: string;
+  ranges?: string;
+  every?: string;
+  maxSize?: string; // megabytes
+}
+
+export type SplitPlanResult = { plan: SplitPlan } | { error: string };
+
+export interface SplitPart {
+  name: string;
+  pages: number[]; // zero-based, in order
+  bytes: Uint8Array;
+}
+
+export type SplitResult = { parts: SplitPart[] } | { error: string };
+
+export const SPLIT_MODES: SplitMode[] = ['ranges', 'every', 'pages', 'bookmarks', 'size'];
+
+const MAX_SIZE_RANGE = [0.1, 100]; // megabytes
+const MAX_TITLE_LENGTH = 60;
+
+export function parseSplit(input: SplitInput): SplitPlanResult {
+  const mode = (input.mode || '').trim() as SplitMode;
+  if (SPLIT_MODES.indexOf(mode) === -1) {
+    return { error: `Unsupported split mode "${mode}". Use one of: ${SPLIT_MODES.join(', ')}` };
+  }
+  if (mode === 'ranges') {
+    if (!(input.ranges || '').trim()) return { error: 'Enter the page ranges to split out, such as 1-3, 5, 8-' };
+    const parsed = parsePageRanges(input.ranges || '');
+    if ('error' in parsed) return parsed;
+    return { plan: { mode, ranges: parsed.ranges } };
+  }
+  if (mode === 'every') {
+    const pageCount = Number(input.every);
+    if (!input.every || isNaN(pageCount) || pageCount < 1 || Math.floor(pageCount) !== pageCount) {
+      return { error: 'Pages per file must be a whole number of at least 1' };
+    }
+    return { plan: { mode, pageCount } };
+  }
+  if (mode === 'size') {
+    const megabytes = Number(input.maxSize);
+    if (!input.maxSize || isNaN(megabytes) || megabytes < MAX_SIZE_RANGE[0] || megabytes > MAX_SIZE_RANGE[1]) {
+      return { error: `Maximum file size must be a number of megabytes from ${MAX_SIZE_RANGE[0]} to ${MAX_SIZE_RANGE[1]}` };
+    }
+    return { plan: { mode, maxBytes: Math.floor(megabytes * 1024 * 1024) } };
+  }
+  return { plan: { mode } };
+}
+
+// Split a document by the plan. Parts are named after the source file so the ZIP sorts in page order:
+// report_part1_pages1-3.pdf, report_page07.pdf, report_02_Introduction.pdf and so on.
+export async function splitPdf(source: PDFDocument, plan: SplitPlan, fileName: string): Promise<SplitResult> {
+  const base = titleFromFileName(fileName);
+  const pageCount = source.getPageCount();
+
+  if (plan.mode === 'size') {
+    return { parts: await splitBySize(source, plan.maxBytes, base) };
+  }
+
+  let groups: { pages: number[]; name: string }[];
+  if (plan.mode === 'ranges') {
+    groups = [];
+    for (const range of plan.ranges) {
+      const selection = selectPages([range], pageCount);
+      if ('error' in selection) return selection;
+      groups.push({ pages: selection.pages, name: '' });
+    }
+    groups.forEach((group, index) => {
+      group.name = partName(base, index, groups.length, group.pages);
+    });
+  } else if (plan.mode === 'every') {
+    groups = [];
+    const total = Math.ceil(pageCount / plan.pageCount);
+    for (let index = 0; index < total; index++) {
+      const pages = pageIndexes(index * plan.pageCount, Math.min((index + 1) * plan.pageCount, pageCount));
+      groups.push({ pages, name: partName(base, index, total, pages) });
+    }
+  } else if (plan.mode === 'pages') {
+    groups = pageIndexes(0, pageCount).map(page => ({
+      pages: [page],
+      name: `${base}_page${pad(page + 1, pageCount)}.pdf`,
+    }));
+  } else {
+    const sections = bookmarkSections(source);
+    if (sections.length === 0) return { error: 'This PDF has no bookmarks to split it by' };
+    groups = sections.map((section, index) => {
+      const end = index + 1 < sections.length ? sections[index + 1].page : pageCount;
+      return {
+        pages: pageIndexes(section.page, end),
+        name: `${base}_${pad(index + 1, sections.length)}_${fileNamePart(section.title)}.pdf`,
+      };
+    });
+  }
+
+  const parts: SplitPart[] = [];
+  for (const group of groups) {
+    parts.push({ name: group.name, pages: group.pages, bytes: await buildPart(source, group.pages, group.name) });
+  }
+  return { parts };
+}
+
+// Pack the parts into a ZIP for download
+export async function zipParts(parts: SplitPart[]): Promise<Uint8Array> {
+  const zip = new JSZip();
+  parts.forEach(part => zip.file(part.name, part.bytes));
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
+
+// Fill each part with pages until the next would take it over the limit. The size is only known
+// by saving, and pages share fonts and images, so each candidate part is built whole with a single
+// copy: doubling while it fits, then narrowing down on the last page that does. A page too large
+// on its own still gets a part.
+async function splitBySize(source: PDFDocument, maxBytes: number, base: string): Promise<SplitPart[]> {
+  const pageCount = source.getPageCount();
+  const groups: number[][] = [];
+  for (let start = 0; start < pageCount; ) {
+    let fits = 1;
+    let over = pageCount - start + 1; // the fewest pages known not to fit, or past the last page
+    let doubling = true;
+    while (fits + 1 < over) {
+      const count = doubling ? Math.min(fits * 2, over - 1) : Math.floor((fits + over) / 2);
+      const pages = pageIndexes(start, start + count);
+      // Measured under the longest name the part could get, since the title is saved with it
+      const bytes = await buildPart(source, pages, partName(base, groups.length, pageCount, pages));
+      if (bytes.length <= maxBytes) {
+        fits = count;
+      } else {
+        over = count;
+        doubling = false;
+      }
+    }
+    groups.push(pageIndexes(start, start + fits));
+    start += fits;
+  }
+
+  const parts: SplitPart[] = [];
+  for (let index = 0; index < groups.length; index++) {
+    const name = partName(base, index, groups.length, groups[index]);
+    parts.push({ name, pages: groups[index], bytes: await buildPart(source, groups[index], name) });
+  }
+  return parts;
+}
+
+// A new document holding copies of the pages, copied together so they share their resources
+async function buildPart(source: PDFDocument, pages: number[], name: string): Promise<Uint8Array> {
+  const part = await PDFDocument.create();
+  const copies = await part.copyPages(source, pages);
+  copies.forEach(page => part.addPage(page));
+  return savePart(part, name);
+}
+
+function savePart(pdfDoc: PDFDocument, name: string): Promise<Uint8Array> {
+  applyMetadata(pdfDoc, {}, titleFromFileName(name));
+  return pdfDoc.save();
+}
+
+// The top-level bookmarks in page order, one per page; pages before the first one form their own section
+function bookmarkSections(pdfDoc: PDFDocument): { title: string; page: number }[] {
+  const pageRefs = pdfDoc.getPages().map(page => page.ref);
+  const sections: { title: string; page: number }[] = [];
+  const outlines = pdfDoc.catalog.lookup(PDFName.of('Outlines'));
+  let item = outlines instanceof PDFDict ? outlines.lookup(PDFName.of('First')) : undefined;
+  // A damaged outline can loop back on itself
+  for (let count = 0; item instanceof PDFDict && count < pageRefs.length * 10 + 100; count++) {
+    const target = destinationPage(pdfDoc, item);
+    const page = target ? pageRefs.indexOf(target) : -1;
+    if (page !== -1 && !sections.some(section => section.page === page)) {
+      sections.push({ title: decodeTitle(item.lookup(PDFName.of('Title'))), page });
+    }
+    item = item.lookup(PDFName.of('Next'));
+  }
+  sections.sort((a, b) => a.page - b.page);
+  if (sections.length > 0 && sections[0].page > 0) {
+    sections.unshift({ title: 'Start', page: 0 });
+  }
+  return sections;
+}
+
+// The page an outline item points to, through /Dest or a GoTo action, following named destinations
+function destinationPage(pdfDoc: PDFDocument, item: PDFDict): PDFRef | undefined {
+  let destination: PDFObject | undefined = item.lookup(PDFName.of('Dest'));
+  const action = item.lookup(PDFName.of('A'));
+  if (!destination && action instanceof PDFDict && action.lookup(PDFName.of('S')) === PDFName.of('GoTo')) {
+    destination = action.lookup(PDFName.of('D'));
+  }
+  if (destination instanceof PDFName || destination instanceof PDFString || destination instanceof PDFHexString) {
+    destination = namedDestination(pdfDoc, destination);
+  }
+  if (destination instanceof PDFDict) destination = destination.lookup(PDFName.of('D'));
+  if (!(destination instanceof PDFArray)) return undefined;
+  const page = destination.get(0);
+  return page instanceof PDFRef ? page : undefined;
+}
+
+function namedDestination(pdfDoc: PDFDocument, name: PDFName | PDFString | PDFHexString): PDFObject | undefined {
+  // PDF 1.1 keeps them in a /Dests dictionary keyed by name
+  if (name instanceof PDFName) {
+    const dests = pdfDoc.catalog.lookup(PDFName.of('Dests'));
+    return dests instanceof PDFDict ? dests.lookup(name) : undefined;
+  }
+  // Later versions use a name tree keyed by string
+  const names = pdfDoc.catalog.lookup(PDFName.of('Names'));
+  const tree = names instanceof PDFDict ? names.lookup(PDFName.of('Dests')) : undefined;
+  return tree instanceof PDFDict ? searchNameTree(tree, name.decodeText(), 0) : undefined;
+}
+
+function searchNameTree(node: PDFDict, key: string, depth: number): PDFObject | undefined {
+  if (depth > 20) return undefined;
+  const names = node.lookup(PDFName.of('Names'));
+  if (names instanceof PDFArray) {
+    for (let i = 0; i + 1 < names.size(); i += 2) {
+      const name = names.lookup(i);
+      if ((name instanceof PDFString || name instanceof PDFHexString) && name.decodeText() === key) {
+        return names.lookup(i + 1);
+      }
+    }
+  }
+  const kids = node.lookup(PDFName.of('Kids'));
+  if (kids instanceof PDFArray) {
+    for (let i = 0; i < kids.size(); i++) {
+      const kid = kids.lookup(i);
+      const found = kid instanceof PDFDict ? searchNameTree(kid, key, depth + 1) : undefined;
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+function decodeTitle(title: PDFObject | undefined): string {
+  return title instanceof PDFString || title instanceof PDFHexString ? title.decodeText().trim() : '';
+}
+
+function partName(base: string, index: number, total: number, pages: number[]): string {
+  const first = pages[0] + 1;
+  const last = pages[pages.length - 1] + 1;
+  const span = first === last ? `page${first}` : `pages${first}-${last}`;
+  return `${base}_part${pad(index + 1, total)}_${span}.pdf`;
+}
+
+// Zero-padded to the width of the largest number, so names sort in order
+function pad(value: number, largest: number): string {
+  let text = String(value);
+  while (text.length < String(largest).length) text = '0' + text;
+  return text;
+}
+
+// A bookmark title made safe for a file name inside the ZIP
+function fileNamePart(title: string): string {
+  const clean = title
+    .replace(/[\u0000-\u001f\u007f\\/:*?"<>|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_TITLE_LENGTH)
+    .trim();
+  return clean || 'Untitled';
+}
+
+function pageIndexes(start: number, end: number): number[] {
+  const pages: number[] = [];
+  for (let page = start; page < end; page++) pages.push(page);
+  return pages;
+}
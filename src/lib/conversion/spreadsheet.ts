@@ -0,0 +1,145 @@
+import * as XLSX from 'xlsx';
+import { Block, DEFAULT_LAYOUT, TableCell } from './layout';
+import { ConversionLimitError, MAX_PAGES } from './limits';
+
+export interface SheetSection {
+  name: string;
+  landscape: boolean;
+  blocks: Block[];
+}
+
+// Rough Helvetica character width, in ems, used to decide page orientation before layout
+const AVERAGE_CHAR_WIDTH = 0.5;
+const TABLE_FONT_SCALE = 0.9; // tables are set slightly smaller than body text
+const CELL_PADDING = 8;
+const MAX_COLUMN_CHARS = 40;
+
+// A page holds at most ROWS_PER_PAGE table rows and CELLS_PER_PAGE cells, so a sheet past these
+// could never fit in MAX_PAGES pages. Columns are squeezed onto the page width rather than spilling
+// onto more pages, so they are only bounded by the cells a page's worth of rows could hold.
+const ROWS_PER_PAGE = 100;
+const CELLS_PER_PAGE = 2000;
+const MAX_ROWS = MAX_PAGES * ROWS_PER_PAGE;
+const MAX_CELLS = MAX_PAGES * CELLS_PER_PAGE;
+const MAX_COLUMNS = Math.floor(MAX_CELLS / ROWS_PER_PAGE);
+
+// CSV cells are all read as text, so numbers are recognised by how they are written
+const CSV_NUMBER = /^[-+]?(\d[\d,]*)?\.?\d+(e[-+]?\d+)?%?$/i;
+
+// Parse a workbook into one table section per visible sheet, flagging sheets
+// too wide for the page's content width to be laid out in landscape
+export function parseSpreadsheet(
+  data: Buffer,
+  extension: string,
+  contentWidth: number,
+  fontSize = DEFAULT_LAYOUT.fontSize
+): SheetSection[] {
+  // One row past the limit is read, so a sheet that runs over can be told from one that just fits
+  const sheetRows = MAX_ROWS + 1;
+  // CSV cells are kept as written: SheetJS would otherwise turn 2024-01-02 into a date shown as 1/2/24
+  const workbook =
+    extension === 'csv'
+      ? XLSX.read(data.toString('utf8').replace(/^\uFEFF/, ''), { type: 'string', sheetRows, raw: true })
+      : XLSX.read(data, { type: 'buffer', sheetRows });
+
+  const sheetInfo = (workbook.Workbook && workbook.Workbook.Sheets) || [];
+  const visibleSheets = workbook.SheetNames.filter((name, index) => !(sheetInfo[index] && sheetInfo[index].Hidden));
+
+  return visibleSheets.map(name => {
+    const rows = readRows(workbook.Sheets[name], name, extension === 'csv');
+    const blocks: Block[] = [];
+
+    // CSV files only ever have one unnamed sheet, so a heading adds nothing
+    if (extension !== 'csv' && visibleSheets.length > 1) {
+      blocks.push({ type: 'heading', level: 2, runs: [{ text: name }] });
+    }
+
+    if (rows.length === 0) {
+      blocks.push({ type: 'paragraph', runs: [{ text: 'This sheet is empty.', italic: true }] });
+      return { name, landscape: false, blocks };
+    }
+
+    blocks.push({ type: 'table', rows, headerRows: 1 });
+    return { name, landscape: estimateTableWidth(rows, fontSize * TABLE_FONT_SCALE) > contentWidth, blocks };
+  });
+}
+
+// Read the used range of a sheet as display text, dropping trailing empty rows and columns
+function readRows(sheet: XLSX.WorkSheet, name: string, csv: boolean): TableCell[][] {
+  if (!sheet || !sheet['!ref']) return [];
+
+  const range = usedRange(sheet, XLSX.utils.decode_range(sheet['!ref']));
+  if (!range) return [];
+  const rowCount = range.e.r - range.s.r + 1;
+  const columnCount = range.e.c - range.s.c + 1;
+  if (rowCount > MAX_ROWS || columnCount > MAX_COLUMNS || rowCount * columnCount > MAX_CELLS) {
+    throw new ConversionLimitError(
+      `The sheet "${name}" is too big to convert: it would need more than ${MAX_PAGES} pages`);
+  }
+
+  const rows: TableCell[][] = [];
+  let lastColumn = -1;
+
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: TableCell[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell: XLSX.CellObject | undefined = sheet[XLSX.utils.encode_cell({ r, c })];
+      const text = formatCell(cell);
+      if (text) lastColumn = Math.max(lastColumn, c - range.s.c);
+      row.push({
+        runs: text ? [{ text }] : [],
+        header: r === range.s.r || undefined,
+        // Numbers and dates line up on the right as they do in a spreadsheet
+        align: r !== range.s.r && (isNumeric(cell) || (csv && CSV_NUMBER.test(text))) ? 'right' : undefined,
+      });
+    }
+    rows.push(row);
+  }
+
+  while (rows.length > 0 && rows[rows.length - 1].every(cell => cell.runs.length === 0)) {
+    rows.pop();
+  }
+  return rows.map(row => row.slice(0, lastColumn + 1));
+}
+
+function isNumeric(cell: XLSX.CellObject | undefined): boolean {
+  return !!cell && (cell.t === 'n' || cell.t === 'd');
+}
+
+// The declared range (the file's own dimension) cut down to the cells that hold something, since
+// it can claim far more than the file contains. Only the cells that exist are visited.
+function usedRange(sheet: XLSX.WorkSheet, declared: XLSX.Range): XLSX.Range | null {
+  let range: XLSX.Range | null = null;
+  Object.keys(sheet).forEach(address => {
+    if (address.charAt(0) === '!' || !formatCell(sheet[address])) return;
+    const { r, c } = XLSX.utils.decode_cell(address);
+    if (r < declared.s.r || r > declared.e.r || c < declared.s.c || c > declared.e.c) return;
+    if (!range) {
+      range = { s: { r: declared.s.r, c: declared.s.c }, e: { r, c } };
+    } else {
+      range.e.r = Math.max(range.e.r, r);
+      range.e.c = Math.max(range.e.c, c);
+    }
+  });
+  return range;
+}
+
+// Use the value as the spreadsheet displays it, with its number, date or currency format applied
+function formatCell(cell: XLSX.CellObject | undefined): string {
+  if (!cell || cell.t === 'z') return '';
+  if (cell.w !== undefined) return cell.w;
+  if (cell.t === 'e') return '#ERROR';
+  if (cell.v instanceof Date) return cell.v.toLocaleDateString();
+  return cell.v === undefined ? '' : String(cell.v);
+}
+
+function estimateTableWidth(rows: TableCell[][], fontSize: number): number {
+  const widths: number[] = [];
+  rows.forEach(row =>
+    row.forEach((cell, column) => {
+      const length = Math.min(MAX_COLUMN_CHARS, cell.runs.reduce((sum, run) => sum + run.text.length, 0));
+      widths[column] = Math.max(widths[column] || 0, length);
+    })
+  );
+  return widths.reduce((sum, chars) => sum + chars * fontSize * AVERAGE_CHAR_WIDTH + CELL_PADDING, 0);
+}
@@ -0,0 +1,34 @@
+import { Block } from './layout';
+
+// Text whose line breaks and spacing carry meaning; these are laid out preformatted unless the caller says otherwise
+export const PREFORMATTED_EXTENSIONS = [
+  'log', 'json', 'xml', 'yaml', 'yml', 'ini', 'conf', 'cfg',
+  'js', 'jsx', 'ts', 'tsx', 'py', 'rb', 'php', 'java', 'kt', 'swift', 'go', 'rs',
+  'c', 'h', 'cpp', 'hpp', 'cs', 'sh', 'sql', 'css',
+];
+
+// Parse plain text into layout blocks: a title, then one paragraph per blank-line-separated
+// chunk, with short label-like paragraphs promoted to headings
+export function textToBlocks(text: string, title: string): Block[] {
+  const blocks: Block[] = [{ type: 'heading', level: 1, runs: [{ text: title }] }];
+
+  for (const paragraph of text.replace(/^\uFEFF/, '').split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+
+    const isHeading =
+      trimmed.length < 80 && (trimmed.endsWith(':') || !trimmed.includes('.') || trimmed.toUpperCase() === trimmed);
+    // Line breaks inside a paragraph are soft, so the text rewraps to the page width
+    const runs = [{ text: trimmed.split(/\s+/).join(' ') }];
+    blocks.push(isHeading ? { type: 'heading', level: 2, runs } : { type: 'paragraph', runs });
+  }
+  return blocks;
+}
+
+// Keep the text exactly as written, in a monospace font, under a title
+export function preformattedTextToBlocks(text: string, title: string, lineNumbers: boolean): Block[] {
+  return [
+    { type: 'heading', level: 1, runs: [{ text: title }] },
+    { type: 'preformatted', text: text.replace(/^\uFEFF/, ''), lineNumbers },
+  ];
+}
@@ -0,0 +1,199 @@
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFObject, PDFString } from 'pdf-lib';
+import {
+  Certificate,
+  DIGESTS,
+  DerElement,
+  OIDS,
+  concat,
+  derBytes,
+  derChildren,
+  derContents,
+  ecdsaFromDer,
+  equalBytes,
+  readCertificate,
+  readDer,
+  readOid,
+} from './cms';
+
+// Checking the digital signatures already in a PDF: that the bytes each one covers are unchanged
+// and that its CMS signature matches the certificate inside it. Whether that certificate can be
+// trusted, through a chain to a known authority, is not checked.
+
+export interface SignatureCheck {
+  field: string;
+  signer: string; // the certificate's name, or the name the signature gives
+  signedAt: Date | null;
+  reason: string;
+  location: string;
+  intact: boolean;
+  coversDocument: boolean; // false when the file was changed after this signature
+  problem: string | null; // why the signature is not intact
+}
+
+// Find every signature in the PDF and check it, earliest first
+export async function verifySignatures(pdfBytes: Uint8Array): Promise<SignatureCheck[]> {
+  const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+  const signatures: [string, PDFDict][] = [];
+  pdfDoc.context.enumerateIndirectObjects().forEach(([, object]) => {
+    if (!(object instanceof PDFDict) || object.lookup(PDFName.of('FT')) !== PDFName.of('Sig')) return;
+    const value = object.lookup(PDFName.of('V'));
+    if (value instanceof PDFDict && !signatures.some(([, signature]) => signature === value)) {
+      signatures.push([fieldName(object), value]);
+    }
+  });
+
+  const checks = await Promise.all(signatures.map(([field, signature]) => checkSignature(pdfBytes, field, signature)));
+  return checks.sort((a, b) => a[0] - b[0]).map(([, check]) => check);
+}
+
+// Returns the check along with where the signed bytes end, which orders the signatures
+async function checkSignature(pdfBytes: Uint8Array, field: string, signature: PDFDict): Promise<[number, SignatureCheck]> {
+  const check: SignatureCheck = {
+    field,
+    signer: text(signature.lookup(PDFName.of('Name'))),
+    signedAt: date(signature.lookup(PDFName.of('M'))),
+    reason: text(signature.lookup(PDFName.of('Reason'))),
+    location: text(signature.lookup(PDFName.of('Location'))),
+    intact: false,
+    coversDocument: false,
+    problem: null,
+  };
+
+  // The byte range must be the whole file but for the signature's own hex string
+  const byteRange = signature.lookup(PDFName.of('ByteRange'));
+  const range = byteRange instanceof PDFArray ? byteRange.asArray().map(value => (value instanceof PDFNumber ? value.asNumber() : -1)) : [];
+  const [start, firstLength, secondStart, secondLength] = range;
+  if (
+    range.length !== 4 || start !== 0 || !(firstLength < secondStart) || secondLength < 0 ||
+    secondStart + secondLength > pdfBytes.length || pdfBytes[firstLength] !== 0x3c || pdfBytes[secondStart - 1] !== 0x3e
+  ) {
+    check.problem = 'Its byte range is invalid.';
+    return [0, check];
+  }
+  const signedEnd = secondStart + secondLength;
+  check.coversDocument = Array.from(pdfBytes.subarray(signedEnd)).every(byte => byte === 0x0a || byte === 0x0d || byte === 0x20 || byte === 0);
+  const signedBytes = concat(pdfBytes.subarray(0, firstLength), pdfBytes.subarray(secondStart, signedEnd));
+
+  const contents = signature.lookup(PDFName.of('Contents'));
+  if (!(contents instanceof PDFHexString || contents instanceof PDFString)) {
+    check.problem = 'It has no signature value.';
+    return [signedEnd, check];
+  }
+  try {
+    check.problem = await checkCms(contents.asBytes(), signedBytes, check);
+  } catch (error) {
+    console.error('Error reading signature:', error);
+    check.problem = 'Its signature value could not be read.';
+  }
+  check.intact = check.problem === null;
+  return [signedEnd, check];
+}
+
+// Check the CMS SignedData against the signed bytes; returns the problem found, if any
+async function checkCms(cms: Uint8Array, signedBytes: Uint8Array, check: SignatureCheck): Promise<string | null> {
+  const [contentType, wrapped] = derChildren(cms, readDer(cms, 0));
+  if (readOid(cms, contentType) !== OIDS.signedData) return 'It is not a CMS signature.';
+  const signedData = derChildren(cms, derChildren(cms, wrapped)[0]);
+  const encapsulated = signedData[2];
+  const certificates = signedData.filter(element => element.tag === 0xa0)
+    .reduce((found: Certificate[], set) => found.concat(derChildren(cms, set).filter(element => element.tag === 0x30)
+      .map(element => readCertificate(derBytes(cms, element)))), []);
+  const [signerInfo] = derChildren(cms, signedData[signedData.length - 1]);
+  if (!signerInfo) return 'It has no signer.';
+
+  const fields = derChildren(cms, signerInfo);
+  const [, signerId, digestAlgorithm] = fields;
+  const signedAttributes = fields.find(element => element.tag === 0xa0);
+  const signatureValue = fields.filter(element => element.tag === 0x04).pop();
+  const hash = DIGESTS[readOid(cms, derChildren(cms, digestAlgorithm)[0])];
+  if (!hash || !signatureValue) return 'It uses an unsupported digest algorithm.';
+
+  const certificate = certificates.find(cert => signerId.tag === 0x30 && matchesSignerId(cms, signerId, cert))
+    || (certificates.length === 1 ? certificates[0] : undefined);
+  if (!certificate) return 'The signer\'s certificate is not included.';
+  check.signer = certificate.subject || check.signer;
+
+  // Older adbe.pkcs7.sha1 signatures sign a SHA-1 hash of the document rather than the document
+  let content = signedBytes;
+  const encapsulatedContent = derChildren(cms, encapsulated)[1];
+  if (encapsulatedContent) {
+    const hashed = derContents(cms, derChildren(cms, encapsulatedContent)[0]);
+    if (!equalBytes(hashed, new Uint8Array(await crypto.subtle.digest('SHA-1', signedBytes)))) {
+      return 'The document was changed after it was signed.';
+    }
+    content = hashed;
+  }
+
+  // With signed attributes the signature covers them, and they hold the content's hash
+  let signedPart = content;
+  if (signedAttributes) {
+    const attributes = attributeValues(cms, signedAttributes);
+    const messageDigest = attributes[OIDS.messageDigest];
+    if (!messageDigest) return 'It has no message digest.';
+    const digest = new Uint8Array(await crypto.subtle.digest(hash, content));
+    if (!equalBytes(derContents(cms, messageDigest), digest)) return 'The document was changed after it was signed.';
+    const signingTime = attributes[OIDS.signingTime];
+    if (!check.signedAt && signingTime) check.signedAt = asn1Time(cms, signingTime);
+    // They are signed as a SET, although stored as [0]
+    signedPart = derBytes(cms, signedAttributes).slice();
+    signedPart[0] = 0x31;
+  }
+
+  const algorithm = certificate.keyAlgorithm;
+  if (!algorithm) return 'Its certificate uses an unsupported key type.';
+  let signature = derContents(cms, signatureValue);
+  if (algorithm.name === 'ECDSA') signature = ecdsaFromDer(signature, algorithm.namedCurve);
+  const publicKey = await crypto.subtle.importKey('spki', certificate.publicKey, { ...algorithm, hash }, false, ['verify']);
+  const valid = await crypto.subtle.verify({ name: algorithm.name, hash }, publicKey, signature, signedPart);
+  return valid ? null : 'Its signature does not match its certificate.';
+}
+
+// Whether an IssuerAndSerialNumber names the certificate
+function matchesSignerId(cms: Uint8Array, signerId: DerElement, certificate: Certificate): boolean {
+  const [issuer, serialNumber] = derChildren(cms, signerId);
+  return equalBytes(derBytes(cms, issuer), certificate.issuer) && equalBytes(derBytes(cms, serialNumber), certificate.serialNumber);
+}
+
+// The first value of each attribute, by type
+function attributeValues(cms: Uint8Array, attributes: DerElement): Record<string, DerElement> {
+  const values: Record<string, DerElement> = {};
+  derChildren(cms, attributes).forEach(attribute => {
+    const [type, set] = derChildren(cms, attribute);
+    const [value] = derChildren(cms, set);
+    if (value) values[readOid(cms, type)] = value;
+  });
+  return values;
+}
+
+// A UTCTime or GeneralizedTime, in UTC
+function asn1Time(cms: Uint8Array, time: DerElement): Date | null {
+  const value = new TextDecoder().decode(derContents(cms, time));
+  const match = value.match(/^(\d{2}|\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?/);
+  if (!match) return null;
+  const year = match[1].length === 2 ? (Number(match[1]) < 50 ? 2000 : 1900) + Number(match[1]) : Number(match[1]);
+  return new Date(Date.UTC(year, Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]), Number(match[6] || 0)));
+}
+
+// The field's full name, its parents' names first
+function fieldName(field: PDFDict): string {
+  const names: string[] = [];
+  for (let node: PDFObject | undefined = field, depth = 0; node instanceof PDFDict && depth < 100; depth++) {
+    const name = text(node.lookup(PDFName.of('T')));
+    if (name) names.unshift(name);
+    node = node.lookup(PDFName.of('Parent'));
+  }
+  return names.join('.');
+}
+
+function text(value: PDFObject | undefined): string {
+  return value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : '';
+}
+
+function date(value: PDFObject | undefined): Date | null {
+  if (!(value instanceof PDFString || value instanceof PDFHexString)) return null;
+  try {
+    return value.decodeDate();
+  } catch {
+    return null;
+  }
+}
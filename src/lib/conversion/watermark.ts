@@ -0,0 +1,256 @@
+import {
+  PDFArray,
+  PDFDocument,
+  PDFImage,
+  PDFPage,
+  RGB,
+  StandardFonts,
+  concatTransformationMatrix,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+} from 'pdf-lib';
+import { FontFamily } from './fonts';
+import { StampFont, standardStampFont } from './header-footer';
+import { PageRange, parsePageRanges } from './page-ranges';
+import { PageView, pageView } from './page-view';
+import { detectKind } from './signatures';
+
+// Text or image watermarks for existing PDFs, shared by the Watermark tool in the browser
+// and the /api/watermark endpoint.
+
+export type WatermarkPosition =
+  | 'center' | 'top-left' | 'top' | 'top-right' | 'left' | 'right' | 'bottom-left' | 'bottom' | 'bottom-right';
+
+export interface WatermarkImage {
+  bytes: Uint8Array;
+  format: 'png' | 'jpg';
+}
+
+export interface Watermark {
+  text: string; // empty for an image watermark
+  image: WatermarkImage | null;
+  fontFamily: FontFamily;
+  fontSize: number;
+  color: RGB;
+  opacity: number; // 0 to 1
+  rotation: number; // degrees counter-clockwise, as the page is shown
+  position: WatermarkPosition; // ignored when tiled
+  tiled: boolean;
+  behind: boolean; // under the page content instead of over it
+  imageScale: number; // image width as a share of the page width
+  pages: PageRange[];
+}
+
+// The watermark fields as typed into the form or sent to the endpoint
+export const WATERMARK_FIELDS = [
+  'text', 'font', 'fontSize', 'color', 'opacity', 'rotation', 'position', 'tile', 'layer', 'imageScale', 'pages',
+] as const;
+
+export type WatermarkInput = Partial<Record<(typeof WATERMARK_FIELDS)[number], string>>;
+
+export type WatermarkResult = { watermark: Watermark } | { error: string };
+
+export const WATERMARK_POSITIONS: WatermarkPosition[] = [
+  'top-left', 'top', 'top-right', 'left', 'center', 'right', 'bottom-left', 'bottom', 'bottom-right',
+];
+
+const BOLD_FONTS: Record<FontFamily, StandardFonts> = {
+  helvetica: StandardFonts.HelveticaBold,
+  times: StandardFonts.TimesRomanBold,
+  courier: StandardFonts.CourierBold,
+};
+
+const MAX_TEXT_LENGTH = 200;
+const EDGE = 36; // distance from the page edge for the corner and side positions
+const TILE_GAP = 48;
+
+// Ranges are [min, max, default] in the units the form uses
+const FONT_SIZE_RANGE = [8, 200, 48];
+const OPACITY_RANGE = [1, 100, 30]; // percent
+const ROTATION_RANGE = [-180, 180, 45];
+const IMAGE_SCALE_RANGE = [5, 100, 50]; // percent of the page width
+
+// Check the watermark fields; imageBytes is the uploaded image, if any
+export function parseWatermark(input: WatermarkInput, imageBytes: Uint8Array | null): WatermarkResult {
+  const text = (input.text || '').replace(/\s+/g, ' ').trim();
+  let image: WatermarkImage | null = null;
+  if (imageBytes && imageBytes.length > 0) {
+    const kind = detectKind(imageBytes);
+    if (kind !== 'png' && kind !== 'jpeg') return { error: 'The watermark image must be a PNG or JPEG' };
+    image = { bytes: imageBytes, format: kind === 'png' ? 'png' : 'jpg' };
+  }
+  if (!text && !image) return { error: 'Enter watermark text or choose an image' };
+  if (text && image) return { error: 'Use either watermark text or an image, not both' };
+  if (text.length > MAX_TEXT_LENGTH) return { error: `Watermark text must be at most ${MAX_TEXT_LENGTH} characters` };
+
+  const font = (input.font || 'helvetica').trim().toLowerCase();
+  if (!BOLD_FONTS.hasOwnProperty(font)) {
+    return { error: `Unsupported watermark font "${font}". Use one of: ${Object.keys(BOLD_FONTS).join(', ')}` };
+  }
+
+  const color = parseColor(input.color || '#808080');
+  if (!color) return { error: 'Watermark color must be a hex color such as #ff0000' };
+
+  const position = (input.position || 'center').trim().toLowerCase() as WatermarkPosition;
+  if (WATERMARK_POSITIONS.indexOf(position) === -1) {
+    return { error: `Unsupported watermark position "${position}". Use one of: ${WATERMARK_POSITIONS.join(', ')}` };
+  }
+
+  const layer = (input.layer || 'over').trim().toLowerCase();
+  if (layer !== 'over' && layer !== 'behind') return { error: 'Watermark layer must be over or behind' };
+
+  const numbers: [string, number[], string | undefined][] = [
+    ['Font size', FONT_SIZE_RANGE, input.fontSize],
+    ['Opacity', OPACITY_RANGE, input.opacity],
+    ['Rotation', ROTATION_RANGE, input.rotation],
+    ['Image scale', IMAGE_SCALE_RANGE, input.imageScale],
+  ];
+  const values: number[] = [];
+  for (const [label, [min, max, fallback], raw] of numbers) {
+    const value = raw && raw.trim() ? Number(raw) : fallback;
+    if (isNaN(value) || value < min || value > max) return { error: `${label} must be a number from ${min} to ${max}` };
+    values.push(value);
+  }
+
+  const pages = parsePageRanges(input.pages || '');
+  if ('error' in pages) return pages;
+
+  return {
+    watermark: {
+      text,
+      image,
+      fontFamily: font as FontFamily,
+      fontSize: values[0],
+      color,
+      opacity: values[1] / 100,
+      rotation: values[2],
+      position,
+      tiled: input.tile === 'true',
+      behind: layer === 'behind',
+      imageScale: values[3] / 100,
+      pages: pages.ranges,
+    },
+  };
+}
+
+// Read the watermark fields of an upload to the endpoint
+export async function parseWatermarkFields(formData: FormData): Promise<WatermarkResult> {
+  const input: WatermarkInput = {};
+  for (const name of WATERMARK_FIELDS) {
+    const value = formData.get(name);
+    if (typeof value === 'string') input[name] = value;
+  }
+  const image = formData.get('image');
+  const imageBytes = image && typeof image !== 'string' ? new Uint8Array(await image.arrayBuffer()) : null;
+  return parseWatermark(input, imageBytes);
+}
+
+// Draw the watermark on the given pages (zero-based). Text is drawn with a bold standard font
+// unless the caller passes one with wider coverage.
+export async function watermarkPdf(pdfDoc: PDFDocument, watermark: Watermark, pages: number[], font?: StampFont) {
+  const image = watermark.image ? await embedImage(pdfDoc, watermark.image) : null;
+  const textFont = image ? null : font || standardStampFont(await pdfDoc.embedFont(BOLD_FONTS[watermark.fontFamily]));
+
+  const allPages = pdfDoc.getPages();
+  for (const index of pages) {
+    const page = allPages[index];
+    const view = pageView(page);
+    const width = image
+      ? view.width * watermark.imageScale
+      : textFont ? textFont.widthOfTextAtSize(watermark.text, watermark.fontSize) : 0;
+    const height = image ? width * (image.height / image.width) : watermark.fontSize;
+
+    const draw = () => {
+      const angle = ((watermark.rotation + view.turn) * Math.PI) / 180;
+      for (const [u, v] of watermarkCenters(watermark, view, width, height)) {
+        const [x, y] = view.toPage(u, v);
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        page.pushOperators(pushGraphicsState(), concatTransformationMatrix(cos, sin, -sin, cos, x, y));
+        if (image) {
+          page.drawImage(image, { x: -width / 2, y: -height / 2, width, height, opacity: watermark.opacity });
+        } else if (textFont) {
+          textFont.drawText(page, watermark.text, {
+            x: -width / 2,
+            y: -watermark.fontSize * 0.35,
+            size: watermark.fontSize,
+            color: watermark.color,
+            opacity: watermark.opacity,
+          });
+        }
+        page.pushOperators(popGraphicsState());
+      }
+    };
+    if (watermark.behind) {
+      drawBehind(page, draw);
+    } else {
+      draw();
+    }
+  }
+}
+
+// Where each copy of the watermark is centred, in the page's view
+function watermarkCenters(watermark: Watermark, view: PageView, width: number, height: number): [number, number][] {
+  // The space the rotated watermark takes up
+  const angle = (watermark.rotation * Math.PI) / 180;
+  const spanX = Math.abs(width * Math.cos(angle)) + Math.abs(height * Math.sin(angle));
+  const spanY = Math.abs(width * Math.sin(angle)) + Math.abs(height * Math.cos(angle));
+
+  if (!watermark.tiled) {
+    const { position } = watermark;
+    const x =
+      position.indexOf('left') !== -1 ? EDGE + spanX / 2 :
+      position.indexOf('right') !== -1 ? view.width - EDGE - spanX / 2 :
+      view.width / 2;
+    const y =
+      position.indexOf('top') === 0 ? view.height - EDGE - spanY / 2 :
+      position.indexOf('bottom') === 0 ? EDGE + spanY / 2 :
+      view.height / 2;
+    return [[x, y]];
+  }
+
+  // A grid centred on the page, every other row shifted by half a step, keeping only copies that show
+  const stepX = spanX + TILE_GAP;
+  const stepY = spanY + TILE_GAP;
+  const columns = Math.ceil(view.width / stepX / 2) + 1;
+  const rows = Math.ceil(view.height / stepY / 2) + 1;
+  const centers: [number, number][] = [];
+  for (let row = -rows; row <= rows; row++) {
+    for (let column = -columns; column <= columns; column++) {
+      const x = view.width / 2 + column * stepX + (row % 2 === 0 ? 0 : stepX / 2);
+      const y = view.height / 2 + row * stepY;
+      if (Math.abs(x - view.width / 2) < (view.width + spanX) / 2 && Math.abs(y - view.height / 2) < (view.height + spanY) / 2) {
+        centers.push([x, y]);
+      }
+    }
+  }
+  return centers;
+}
+
+// pdf-lib always adds drawing after the existing content, so to go underneath, the content
+// streams the drawing created are moved to the front of the page's list
+function drawBehind(page: PDFPage, draw: () => void) {
+  page.node.normalize();
+  const before = page.node.Contents();
+  const count = before instanceof PDFArray ? before.size() : 0;
+  draw();
+  const contents = page.node.Contents();
+  if (!(contents instanceof PDFArray)) return;
+  for (let i = count; i < contents.size(); i++) {
+    const ref = contents.get(i);
+    contents.remove(i);
+    contents.insert(i - count, ref);
+  }
+}
+
+function embedImage(pdfDoc: PDFDocument, image: WatermarkImage): Promise<PDFImage> {
+  return image.format === 'png' ? pdfDoc.embedPng(image.bytes) : pdfDoc.embedJpg(image.bytes);
+}
+
+function parseColor(value: string): RGB | null {
+  const match = value.trim().match(/^#?([0-9a-f]{6})$/i);
+  if (!match) return null;
+  const hex = parseInt(match[1], 16);
+  return rgb(((hex >> 16) & 0xff) / 255, ((hex >> 8) & 0xff) / 255, (hex & 0xff) / 255);
+}
@@ -0,0 +1,36 @@
+import mammoth from 'mammoth';
+import WordExtractor from 'word-extractor';
+import { Block } from './layout';
+import { htmlToBlocks } from './html';
+
+// Same mapping the client-side converter uses, plus underline which Mammoth drops by default
+const STYLE_MAP = [
+  "p[style-name='Heading 1'] => h1:fresh",
+  "p[style-name='Heading 2'] => h2:fresh",
+  "p[style-name='Heading 3'] => h3:fresh",
+  "p[style-name='Heading 4'] => h4:fresh",
+  "p[style-name='Heading 5'] => h5:fresh",
+  "p[style-name='Heading 6'] => h6:fresh",
+  "r[style-name='Strong'] => strong",
+  "r[style-name='Emphasis'] => em",
+  "p[style-name='List Paragraph'] => ul > li:fresh",
+  'u => u',
+];
+
+// Parse a Word document into layout blocks
+export async function parseWordDocument(buffer: Buffer, extension: string): Promise<Block[]> {
+  if (extension === 'docx') {
+    const result = await mammoth.convertToHtml({ buffer }, { styleMap: STYLE_MAP });
+    result.messages.forEach(message => console.warn('DOCX conversion:', message.message));
+    return htmlToBlocks(result.value);
+  }
+
+  // Legacy binary .doc files only expose their text, so paragraphs are all we can recover
+  const extractor = new WordExtractor();
+  const document = await extractor.extract(buffer);
+  return document
+    .getBody()
+    .split(/\r?\n/)
+    .filter(paragraph => paragraph.trim())
+    .map(paragraph => ({ type: 'paragraph', runs: [{ text: paragraph.trim() }] }));
+}
@@ -0,0 +1,75 @@
+import { DOMParser, Element, Node } from '@xmldom/xmldom';
+
+export type { Element };
+
+// Office formats use conventional but not guaranteed namespace prefixes,
+// so elements and attributes are always matched by their local name
+
+export function parseXml(xml: string): Element {
+  const document = new DOMParser().parseFromString(xml, 'text/xml');
+  if (!document.documentElement) {
+    throw new Error('Invalid XML document');
+  }
+  return document.documentElement;
+}
+
+export function childElements(element: Element | null | undefined, name?: string): Element[] {
+  const result: Element[] = [];
+  if (!element) return result;
+  for (let node = element.firstChild; node; node = node.nextSibling) {
+    if (node.nodeType === Node.ELEMENT_NODE && (!name || node.localName === name)) {
+      result.push(node as Element);
+    }
+  }
+  return result;
+}
+
+export function childElement(element: Element | null | undefined, name: string): Element | null {
+  return childElements(element, name)[0] || null;
+}
+
+// Depth-first search for descendants, including the element itself
+export function findAll(element: Element | null | undefined, name: string): Element[] {
+  const result: Element[] = [];
+  const visit = (current: Element) => {
+    if (current.localName === name) result.push(current);
+    childElements(current).forEach(visit);
+  };
+  if (element) visit(element);
+  return result;
+}
+
+export function find(element: Element | null | undefined, name: string): Element | null {
+  return findAll(element, name)[0] || null;
+}
+
+// Pass a namespace pattern where a local name alone is ambiguous, such as id and r:id
+export function attribute(element: Element | null | undefined, name: string, namespace?: RegExp): string | null {
+  if (!element) return null;
+  const attributes = element.attributes;
+  for (let i = 0; i < attributes.length; i++) {
+    const attr = attributes.item(i);
+    if (attr && attr.localName === name && (!namespace || namespace.test(attr.namespaceURI || ''))) {
+      return attr.value;
+    }
+  }
+  return null;
+}
+
+export function numberAttribute(element: Element | null | undefined, name: string): number | null {
+  const value = attribute(element, name);
+  if (value === null) return null;
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+}
+
+// Visit child elements and text in document order, for mixed content such as paragraphs
+export function forEachChild(element: Element, visit: (child: Element | string) => void) {
+  for (let node = element.firstChild; node; node = node.nextSibling) {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      visit(node as Element);
+    } else if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+      visit(node.nodeValue || '');
+    }
+  }
+}